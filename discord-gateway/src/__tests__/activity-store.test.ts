@@ -0,0 +1,147 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  MemoryActivityStore,
+  JsonlActivityStore,
+  configureActivityLog,
+  logEvent,
+  queryEvents,
+  getTodayStats,
+  type ActivityEvent,
+} from '@aimaestro/gateway-core';
+
+const event = (id: string, timestamp: string, type: ActivityEvent['type'] = 'inbound'): ActivityEvent => ({
+  id,
+  timestamp,
+  type,
+  summary: `event ${id}`,
+  details: {},
+});
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+
+describe('activity stores', () => {
+  let dir: string;
+  const stores: JsonlActivityStore[] = [];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'activity-'));
+  });
+
+  afterEach(() => {
+    stores.splice(0).forEach((s) => s.close());
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const open = (retentionDays = 30, maxBytes = 10_000_000) => {
+    const store = new JsonlActivityStore(dir, { retentionDays, maxBytes });
+    stores.push(store);
+    return store;
+  };
+
+  it('keeps the last events in the memory ring buffer', () => {
+    const store = new MemoryActivityStore(2);
+    ['a', 'b', 'c'].forEach((id, i) => store.append(event(id, `2026-01-01T00:00:0${i}Z`)));
+    assert.deepStrictEqual([...store.scan({})].map((e) => e.id), ['c', 'b']);
+    assert.strictEqual(store.count(), 2);
+  });
+
+  it('writes one JSONL file per day and replays newest first', () => {
+    const store = open();
+    store.append(event('a', '2026-01-01T10:00:00Z'));
+    store.append(event('b', '2026-01-02T09:00:00Z'));
+    store.append(event('c', '2026-01-02T11:00:00Z'));
+
+    assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['activity-2026-01-01.jsonl', 'activity-2026-01-02.jsonl']);
+    assert.deepStrictEqual([...store.scan({})].map((e) => e.id), ['c', 'b', 'a']);
+    assert.deepStrictEqual(
+      [...store.scan({ since: '2026-01-01T12:00:00Z', until: '2026-01-02T10:00:00Z' })].map((e) => e.id),
+      ['b']
+    );
+  });
+
+  it('reloads events after a restart and skips torn lines', () => {
+    const today = new Date().toISOString();
+    open().append(event('a', today));
+    fs.appendFileSync(path.join(dir, `activity-${today.slice(0, 10)}.jsonl`), '{"id":"torn","times');
+
+    const reopened = open();
+    assert.deepStrictEqual([...reopened.scan({})].map((e) => e.id), ['a']);
+  });
+
+  it('prunes day files past the retention age but keeps today', () => {
+    const store = open(7);
+    store.append(event('old', daysAgo(10)));
+    store.append(event('recent', daysAgo(3)));
+    store.append(event('today', new Date().toISOString()));
+    store.prune();
+
+    assert.deepStrictEqual([...store.scan({})].map((e) => e.id), ['today', 'recent']);
+    assert.strictEqual(fs.readdirSync(dir).length, 2);
+  });
+
+  it('prunes the oldest day files over the size limit', () => {
+    const store = open(30, 400);
+    store.append(event('two-days', daysAgo(2)));
+    store.append(event('yesterday', daysAgo(1)));
+    for (let i = 0; i < 3; i++) store.append(event(`today-${i}`, new Date().toISOString()));
+
+    const ids = [...store.scan({})].map((e) => e.id);
+    assert.ok(!ids.includes('two-days'));
+    assert.ok(ids.includes('today-0'));
+  });
+});
+
+describe('activity queries', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'activity-'));
+    configureActivityLog({ store: 'jsonl', dir, retentionDays: 30, maxBytes: 10_000_000 });
+  });
+
+  afterEach(() => {
+    configureActivityLog({ store: 'memory', dir, retentionDays: 30, maxBytes: 0 });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pages through events with a cursor', () => {
+    for (let i = 0; i < 5; i++) logEvent('inbound', `paged ${i}`);
+
+    const first = queryEvents({ limit: 2, search: 'paged' });
+    const second = queryEvents({ limit: 2, search: 'paged', cursor: first.nextCursor! });
+    const third = queryEvents({ limit: 2, search: 'paged', cursor: second.nextCursor! });
+
+    const summaries = [...first.events, ...second.events, ...third.events].map((e) => e.summary);
+    assert.deepStrictEqual(summaries, ['paged 4', 'paged 3', 'paged 2', 'paged 1', 'paged 0']);
+    assert.strictEqual(third.nextCursor, null);
+  });
+
+  it('filters by type, tenant, message id, category and search', () => {
+    logEvent('inbound', 'from alice', { from: 'Alice', tenant: 'acme', ampMessageId: 'msg-1' });
+    logEvent('security', 'flagged', { securityFlags: ['instruction_override: ignore all'], tenant: 'acme' });
+    logEvent('outbound', 'to bob', { to: 'Bob', tenant: 'other' });
+
+    assert.deepStrictEqual(queryEvents({ type: 'outbound', search: 'bob' }).events.map((e) => e.summary), ['to bob']);
+    assert.deepStrictEqual(queryEvents({ tenant: 'acme' }).events.map((e) => e.summary), ['flagged', 'from alice']);
+    assert.deepStrictEqual(queryEvents({ ampMessageId: 'msg-1' }).events.map((e) => e.summary), ['from alice']);
+    assert.deepStrictEqual(queryEvents({ securityCategory: 'instruction_override' }).events.map((e) => e.summary), ['flagged']);
+    assert.deepStrictEqual(queryEvents({ search: 'ALICE' }).events.map((e) => e.summary), ['from alice']);
+  });
+
+  it('counts today by type', () => {
+    // Switching stores carries earlier events over, so compare with a baseline
+    const before = getTodayStats();
+    logEvent('inbound', 'a');
+    logEvent('error', 'b');
+    logEvent('security', 'c');
+    const stats = getTodayStats();
+    assert.strictEqual(stats.inbound - before.inbound, 1);
+    assert.strictEqual(stats.errors - before.errors, 1);
+    assert.strictEqual(stats.security - before.security, 1);
+    assert.strictEqual(stats.total - before.total, 3);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { saveAttachments, type DownloadedAttachment } from '../attachments.js';
+
+const file = (name: string, content = 'hello'): DownloadedAttachment => ({
+  name,
+  type: 'text/plain',
+  size: content.length,
+  content: Buffer.from(content),
+});
+
+describe('saveAttachments', () => {
+  let root: string;
+  let baseDir: string;
+  const today = new Date().toISOString().slice(0, 10);
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+    baseDir = path.join(root, 'attachments');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('saves into the agent inbox or quarantine folder with metadata', async () => {
+    const [saved] = await saveAttachments(baseDir, 'helpdesk', '1234', [file('notes.txt')], false);
+    assert.strictEqual(saved.path, path.join(baseDir, 'helpdesk', 'inbox', today, '1234', 'notes.txt'));
+    assert.strictEqual(fs.readFileSync(saved.path!, 'utf-8'), 'hello');
+
+    const metadata = JSON.parse(fs.readFileSync(path.join(path.dirname(saved.path!), '_metadata.json'), 'utf-8'));
+    assert.strictEqual(metadata.agent, 'helpdesk');
+    assert.deepStrictEqual(metadata.files, [{ name: 'notes.txt', type: 'text/plain', size: 5 }]);
+
+    const [quarantined] = await saveAttachments(baseDir, 'helpdesk', '1235', [file('notes.txt')], true);
+    assert.strictEqual(quarantined.path, path.join(baseDir, 'helpdesk', 'quarantine', today, '1235', 'notes.txt'));
+  });
+
+  it('refuses agent names and message ids that leave the attachments folder', async () => {
+    for (const [agent, messageId] of [
+      ['..', '1234'],
+      ['../../etc', '1234'],
+      ['helpdesk', '..'],
+      ['helpdesk', '../../../escaped'],
+      ['', '1234'],
+      ['/tmp', '1234'],
+    ]) {
+      await assert.rejects(saveAttachments(baseDir, agent, messageId, [file('notes.txt')], false), /not a plain name/);
+    }
+    assert.deepStrictEqual(fs.readdirSync(root), []);
+  });
+
+  it('keeps file names inside the message folder', async () => {
+    const saved = await saveAttachments(baseDir, 'helpdesk', '1234', [file('../../evil.sh'), file('..'), file('a b.txt')], false);
+    const dir = path.join(baseDir, 'helpdesk', 'inbox', today, '1234');
+
+    assert.deepStrictEqual(
+      saved.map((s) => path.relative(dir, s.path!)),
+      ['.._.._evil.sh', '_..', 'a_b.txt']
+    );
+    assert.deepStrictEqual(saved.map((s) => s.name), ['../../evil.sh', '..', 'a b.txt']);
+  });
+
+  it('numbers files whose names collide', async () => {
+    const saved = await saveAttachments(
+      baseDir,
+      'helpdesk',
+      '1234',
+      [file('a b.txt', 'first'), file('a_b.txt', 'second'), file('A_B.txt', 'third'), file('_metadata.json'), file('notes')],
+      false
+    );
+    const dir = path.join(baseDir, 'helpdesk', 'inbox', today, '1234');
+
+    assert.deepStrictEqual(
+      saved.map((s) => path.basename(s.path!)),
+      ['a_b.txt', 'a_b-2.txt', 'A_B-3.txt', '_metadata-2.json', 'notes']
+    );
+    assert.deepStrictEqual(
+      saved.slice(0, 3).map((s) => fs.readFileSync(s.path!, 'utf-8')),
+      ['first', 'second', 'third']
+    );
+    const metadata = JSON.parse(fs.readFileSync(path.join(dir, '_metadata.json'), 'utf-8'));
+    assert.strictEqual(metadata.files.length, 5);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Client, Interaction } from 'discord.js';
+import type { AMPRouteRequest } from '@aimaestro/gateway-core';
+import { loadConfig } from '../config.js';
+import { createAgentResolver } from '../agent-resolver.js';
+import { loadSecurityConfig } from '../content-security.js';
+import { ThreadStore } from '../thread-store.js';
+import { registerCommandHandlers } from '../commands.js';
+import { createInboundRouteQueue, createInboundReviewQueue, type InboundRouteQueue } from '../inbound.js';
+
+describe('/ask', () => {
+  let dir: string;
+  let server: http.Server;
+  /** Route requests Maestro received */
+  let routed: AMPRouteRequest[];
+  let routeStatus: number;
+  let routeQueue: InboundRouteQueue;
+  let threadStore: ThreadStore;
+  let onInteraction: (interaction: Interaction) => Promise<void>;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        routed.push(JSON.parse(body) as AMPRouteRequest);
+        res.writeHead(routeStatus, { 'Content-Type': 'application/json' });
+        res.end(routeStatus < 300 ? JSON.stringify({ id: 'msg-1', status: 'delivered' }) : 'error');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'commands-'));
+    routed = [];
+    routeStatus = 200;
+    Object.assign(process.env, {
+      DISCORD_BOT_TOKEN: 'test-token',
+      AMP_API_KEY: 'test-key',
+      AMP_TENANT: 'acme',
+      AMP_DEFAULT_AGENT: 'helpdesk',
+      AMP_SIGNING: 'false',
+      AMP_INBOX_DIR: path.join(dir, 'inbox'),
+      AMP_MAESTRO_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    });
+
+    const config = await loadConfig();
+    const client = {
+      on: (event: string, handler: (interaction: Interaction) => Promise<void>) => {
+        if (event === 'interactionCreate') onInteraction = handler;
+      },
+    } as unknown as Client;
+    threadStore = new ThreadStore();
+    routeQueue = createInboundRouteQueue(config, client, threadStore);
+    const reviewQueue = createInboundReviewQueue(config, client, routeQueue);
+    registerCommandHandlers(client, config, createAgentResolver(config), loadSecurityConfig, routeQueue, reviewQueue, threadStore);
+  });
+
+  afterEach(() => {
+    routeQueue.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Run /ask as Alice and return the replies she saw */
+  const ask = async (agent: string, message: string): Promise<string[]> => {
+    const replies: string[] = [];
+    const options: Record<string, string> = { agent, message };
+    await onInteraction({
+      id: 'interaction-1',
+      applicationId: 'app-1',
+      token: 'interaction-token',
+      commandName: 'ask',
+      channelId: 'channel-1',
+      channel: null,
+      guildId: null,
+      member: null,
+      user: { id: 'user-1', username: 'alice', displayName: 'Alice' },
+      deferred: true,
+      replied: false,
+      options: { getString: (name: string) => options[name] },
+      isAutocomplete: () => false,
+      isChatInputCommand: () => true,
+      deferReply: async () => {},
+      editReply: async (reply: string) => {
+        replies.push(reply);
+      },
+    } as unknown as Interaction);
+    return replies;
+  };
+
+  it('routes to the chosen agent without parsing @AIM: in the message', async () => {
+    const replies = await ask('billing', '@AIM:helpdesk please check invoice 42');
+
+    assert.deepStrictEqual(replies, []);
+    assert.strictEqual(routed.length, 1);
+    assert.strictEqual(routed[0].to, 'billing@acme.aimaestro.local');
+    assert.ok(routed[0].payload.message.includes('@AIM:helpdesk please check invoice 42'));
+    assert.strictEqual(threadStore.get('msg-1')?.interaction?.token, 'interaction-token');
+  });
+
+  it('keeps line breaks in the message', async () => {
+    await ask('billing', 'invoice 42\ninvoice 43');
+    assert.ok(routed[0].payload.message.includes('invoice 42\ninvoice 43'));
+  });
+
+  it('tells the caller when the agent does not exist', async () => {
+    routeStatus = 404;
+    const replies = await ask('ghost', 'hello');
+
+    assert.strictEqual(routed[0].to, 'ghost@acme.aimaestro.local');
+    assert.strictEqual(replies.length, 1);
+    assert.match(replies[0], /^Agent `ghost` not found/);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Client } from 'discord.js';
+import type { AMPRouteRequest } from '@aimaestro/gateway-core';
+import type { GatewayConfig } from '../types.js';
+import { loadConfig } from '../config.js';
+import { createAgentResolver } from '../agent-resolver.js';
+import { loadSecurityConfig } from '../content-security.js';
+import { ThreadStore } from '../thread-store.js';
+import {
+  createInboundRouteQueue,
+  createInboundReviewQueue,
+  routeMessage,
+  type InboundRouteQueue,
+  type AgentRoute,
+} from '../inbound.js';
+
+describe('thread mode', () => {
+  let dir: string;
+  let server: http.Server;
+  /** Route requests Maestro received */
+  let routed: AMPRouteRequest[];
+  let routeStatus: number;
+  let config: GatewayConfig;
+  let routeQueue: InboundRouteQueue;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        routed.push(JSON.parse(body) as AMPRouteRequest);
+        res.writeHead(routeStatus, { 'Content-Type': 'application/json' });
+        res.end(routeStatus < 300 ? JSON.stringify({ id: 'msg-1', status: 'delivered' }) : 'error');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'inbound-'));
+    routed = [];
+    routeStatus = 200;
+    Object.assign(process.env, {
+      DISCORD_BOT_TOKEN: 'test-token',
+      AMP_API_KEY: 'test-key',
+      AMP_TENANT: 'acme',
+      AMP_DEFAULT_AGENT: 'helpdesk',
+      AMP_SIGNING: 'false',
+      AMP_INBOX_DIR: path.join(dir, 'inbox'),
+      AMP_MAESTRO_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    });
+    config = await loadConfig();
+    routeQueue = createInboundRouteQueue(config, {} as Client, new ThreadStore());
+  });
+
+  afterEach(() => {
+    routeQueue.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Route a mention from Alice; returns her replies and the agents threads were started for */
+  const mention = async (route: AgentRoute) => {
+    const replies: string[] = [];
+    const threads: string[] = [];
+    const agentAddress = await routeMessage({
+      config,
+      resolver: createAgentResolver(config),
+      securityConfig: loadSecurityConfig(),
+      routeQueue,
+      reviewQueue: createInboundReviewQueue(config, {} as Client, routeQueue),
+      route,
+      channelId: 'channel-1',
+      messageId: 'message-1',
+      displayName: 'Alice',
+      discordUserId: 'user-1',
+      roleIds: [],
+      scopes: ['channel-1', 'guild-1'],
+      reply: async (text) => {
+        replies.push(text);
+      },
+      threadChannelId: 'message-1',
+      startThread: async (agent) => {
+        threads.push(agent);
+        return async (text) => {
+          replies.push(`thread: ${text}`);
+        };
+      },
+    });
+    return { agentAddress, replies, threads };
+  };
+
+  it('starts the thread once the message is routed', async () => {
+    const result = await mention({ agent: 'billing', message: 'invoice 42' });
+
+    assert.deepStrictEqual(result, {
+      agentAddress: 'billing@acme.aimaestro.local',
+      replies: [],
+      threads: ['billing@acme.aimaestro.local'],
+    });
+    const context = routed[0].payload.context as { discord: { threadChannelId?: string } };
+    assert.strictEqual(context.discord.threadChannelId, 'message-1');
+  });
+
+  it('answers a denied route in the channel, without a thread', async () => {
+    const result = await mention({ agent: 'billing@other.aimaestro.local', message: 'invoice 42' });
+
+    assert.deepStrictEqual(result, { agentAddress: null, replies: [config.routeAuthorization.denyReply], threads: [] });
+    assert.strictEqual(routed.length, 0);
+  });
+
+  it('does not start a thread for an unknown agent', async () => {
+    routeStatus = 404;
+    const result = await mention({ agent: 'ghost', message: 'hello' });
+
+    assert.strictEqual(result.agentAddress, null);
+    assert.deepStrictEqual(result.threads, []);
+    assert.match(result.replies[0], /^Agent `ghost` not found/);
+  });
+});
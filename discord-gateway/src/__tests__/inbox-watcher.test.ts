@@ -0,0 +1,147 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startInboxWatcher, countInboxFiles } from '@aimaestro/gateway-core';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('timed out waiting for condition');
+    await sleep(20);
+  }
+}
+
+describe('inbox watcher', () => {
+  let inboxDir: string;
+  let stop: (() => void) | null;
+
+  beforeEach(() => {
+    inboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'inbox-'));
+    stop = null;
+  });
+
+  afterEach(() => {
+    stop?.();
+    fs.rmSync(inboxDir, { recursive: true, force: true });
+  });
+
+  const writeMessage = (sender: string, id: string, body = '{}') => {
+    fs.mkdirSync(path.join(inboxDir, sender), { recursive: true });
+    const filePath = path.join(inboxDir, sender, `${id}.json`);
+    fs.writeFileSync(filePath, body);
+    return filePath;
+  };
+
+  it('dispatches files already in the inbox on the first scan', async () => {
+    const filePath = writeMessage('alice', 'msg-1');
+    const seen: string[] = [];
+    stop = startInboxWatcher({
+      inboxDir,
+      rescanIntervalMs: 60000,
+      settleMs: 20,
+      onMessage: async (file) => {
+        seen.push(file);
+        fs.unlinkSync(file);
+      },
+    });
+
+    await waitFor(() => seen.length === 1);
+    assert.deepStrictEqual(seen, [filePath]);
+  });
+
+  it('picks up new files and ignores non-JSON files', async () => {
+    fs.mkdirSync(path.join(inboxDir, 'alice'));
+    const seen: string[] = [];
+    stop = startInboxWatcher({
+      inboxDir,
+      rescanIntervalMs: 200,
+      settleMs: 20,
+      onMessage: async (file) => {
+        seen.push(path.basename(file));
+        fs.unlinkSync(file);
+      },
+    });
+
+    await sleep(50);
+    fs.writeFileSync(path.join(inboxDir, 'alice', 'msg-1.tmp'), '{}');
+    writeMessage('alice', 'msg-2');
+    await waitFor(() => seen.length === 1);
+    await sleep(300);
+    assert.deepStrictEqual(seen, ['msg-2.json']);
+  });
+
+  it('does not dispatch a file twice while it still exists', async () => {
+    writeMessage('alice', 'msg-1');
+    let calls = 0;
+    stop = startInboxWatcher({
+      inboxDir,
+      rescanIntervalMs: 50,
+      settleMs: 20,
+      onMessage: async () => {
+        calls++;
+      },
+    });
+
+    await waitFor(() => calls === 1);
+    await sleep(300);
+    assert.strictEqual(calls, 1);
+  });
+
+  it('treats a re-created file as new', async () => {
+    const filePath = writeMessage('alice', 'msg-1', '{"n":1}');
+    const bodies: string[] = [];
+    stop = startInboxWatcher({
+      inboxDir,
+      rescanIntervalMs: 50,
+      settleMs: 20,
+      onMessage: async (file) => {
+        bodies.push(fs.readFileSync(file, 'utf-8'));
+        fs.unlinkSync(file);
+      },
+    });
+
+    await waitFor(() => bodies.length === 1);
+    fs.writeFileSync(filePath, '{"n":2}');
+    await waitFor(() => bodies.length === 2);
+    assert.deepStrictEqual(bodies, ['{"n":1}', '{"n":2}']);
+  });
+
+  it('dispatches a retry again after its delay, in the serial queue', async () => {
+    const files = [writeMessage('alice', 'msg-1'), writeMessage('bob', 'msg-2')];
+    const seen: string[] = [];
+    let running = 0;
+    let overlapped = false;
+    stop = startInboxWatcher({
+      inboxDir,
+      rescanIntervalMs: 60000,
+      settleMs: 20,
+      onMessage: async (file) => {
+        overlapped ||= running > 0;
+        running++;
+        seen.push(path.basename(file));
+        await sleep(40);
+        running--;
+        // The first attempt at msg-1 asks for a retry
+        if (seen.filter((name) => name === 'msg-1.json').length === 1 && file.endsWith('msg-1.json')) return 10;
+        fs.unlinkSync(file);
+      },
+    });
+
+    await waitFor(() => files.every((file) => !fs.existsSync(file)));
+    assert.deepStrictEqual([...seen].sort(), ['msg-1.json', 'msg-1.json', 'msg-2.json']);
+    assert.strictEqual(overlapped, false);
+  });
+
+  it('counts message files across senders', () => {
+    writeMessage('alice', 'msg-1');
+    writeMessage('alice', 'msg-2');
+    writeMessage('bob', 'msg-3');
+    fs.writeFileSync(path.join(inboxDir, 'bob', 'partial.tmp'), '');
+    assert.strictEqual(countInboxFiles(inboxDir), 3);
+    assert.strictEqual(countInboxFiles(path.join(inboxDir, 'missing')), 0);
+  });
+});
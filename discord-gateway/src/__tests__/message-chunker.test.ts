@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { chunkMarkdown } from '@aimaestro/gateway-core';
+
+describe('markdown chunking', () => {
+  const code = '```ts\n' + Array.from({ length: 30 }, (_, i) => `const value${i} = compute(${i});`).join('\n') + '\n```';
+
+  it('returns short text unchanged', () => {
+    assert.deepStrictEqual(chunkMarkdown('hello', { limit: 2000, markers: true }), ['hello']);
+  });
+
+  it('closes and reopens code fences across chunks', () => {
+    const chunks = chunkMarkdown(`Intro\n\n${code}\n\nDone.`, { limit: 300 });
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.length <= 300);
+      assert.strictEqual((chunk.match(/```/g) ?? []).length % 2, 0);
+    }
+    assert.ok(chunks[1].startsWith('```ts\n'));
+  });
+
+  it('does not split inside inline code or links', () => {
+    const text = 'see `npm run build --workspace core` and [the setup guide](https://example.com/docs/setup) '.repeat(10);
+    for (const chunk of chunkMarkdown(text, { limit: 120 })) {
+      assert.strictEqual((chunk.match(/`/g) ?? []).length % 2, 0);
+      assert.strictEqual((chunk.match(/\[/g) ?? []).length, (chunk.match(/\)/g) ?? []).length);
+    }
+  });
+
+  it('keeps indentation, blank lines and trailing spaces inside a split fence', () => {
+    const body = Array.from({ length: 24 }, (_, i) =>
+      i % 6 === 5 ? '' : `    ${i % 2 ? '    ' : ''}value_${i} = compute(${i})  `
+    ).join('\n');
+    const chunks = chunkMarkdown(`Code:\n\n\`\`\`py\ndef main():\n${body}\n\`\`\`\n\nDone.`, { limit: 200 });
+    assert.ok(chunks.length > 2);
+
+    // The lines between each chunk's fences, joined back, are the original code
+    const inner = chunks
+      .filter((chunk) => chunk.includes('```py'))
+      .map((chunk) => {
+        const lines = chunk.split('\n');
+        const start = lines.findIndex((line) => line.startsWith('```py')) + 1;
+        const end = lines.indexOf('```', start);
+        return lines.slice(start, end === -1 ? undefined : end).join('\n');
+      });
+    assert.strictEqual(inner.join('\n'), `def main():\n${body}`);
+  });
+
+  it('keeps the indentation of a nested list item that starts a chunk', () => {
+    const children = Array.from({ length: 30 }, (_, i) => `  - child item ${i}`);
+    const chunks = chunkMarkdown(`- parent\n${children.join('\n')}`, { limit: 120 });
+    assert.ok(chunks.length > 2);
+
+    assert.ok(chunks.slice(1).every((chunk) => chunk.startsWith('  - child item')));
+    assert.deepStrictEqual(chunks.join('\n').split('\n'), ['- parent', ...children]);
+  });
+
+  it('repeats the table header in the next chunk', () => {
+    const header = '| Agent | Status |\n|:------|-------:|';
+    const rows = Array.from({ length: 20 }, (_, i) => `| agent-${i} | ok |`);
+    const chunks = chunkMarkdown(`Agents:\n\n${header}\n${rows.join('\n')}\n\nThat is all.`, { limit: 150 });
+    assert.ok(chunks.length > 2);
+
+    for (const chunk of chunks) assert.ok(chunk.length <= 150);
+    for (const chunk of chunks.slice(1, -1)) assert.ok(chunk.startsWith(`${header}\n| agent-`));
+    const seen = chunks.flatMap((chunk) => chunk.split('\n')).filter((line) => line.startsWith('| agent-'));
+    assert.deepStrictEqual(seen, rows);
+  });
+
+  it('drops the blank lines a paragraph split leaves', () => {
+    const chunks = chunkMarkdown(Array.from({ length: 10 }, (_, i) => `Paragraph ${i} `.repeat(3).trim()).join('\n\n'), { limit: 100 });
+    assert.ok(chunks.every((chunk) => !/^\s|\s$/.test(chunk)));
+  });
+
+  it('adds continuation markers within the limit', () => {
+    const chunks = chunkMarkdown('word '.repeat(100), { limit: 100, markers: true });
+    assert.ok(chunks.every((c, i) => c.endsWith(`(${i + 1}/${chunks.length})`) && c.length <= 100));
+  });
+});
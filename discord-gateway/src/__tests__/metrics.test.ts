@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  configureMetrics,
+  registerCounter,
+  registerGauge,
+  registerHistogram,
+  renderMetrics,
+  timeAmpRoute,
+  logEvent,
+} from '@aimaestro/gateway-core';
+
+describe('metrics', () => {
+  configureMetrics({ gateway: 'test-gateway' });
+
+  it('renders counters with the gateway label and escaped values', () => {
+    const counter = registerCounter('test_requests_total', 'Requests');
+    counter.inc({ route: '/a' });
+    counter.inc({ route: '/a' }, 2);
+    counter.inc({ route: 'say "hi"\n' });
+
+    const output = renderMetrics();
+    assert.ok(output.includes('# HELP test_requests_total Requests\n# TYPE test_requests_total counter\n'));
+    assert.ok(output.includes('test_requests_total{gateway="test-gateway",route="/a"} 3\n'));
+    assert.ok(output.includes('test_requests_total{gateway="test-gateway",route="say \\"hi\\"\\n"} 1\n'));
+  });
+
+  it('reads gauges at scrape time and skips failing ones', () => {
+    let size = 1;
+    registerGauge('test_queue_size', 'Queue size', () => size);
+    registerGauge('test_broken', 'Broken', () => {
+      throw new Error('unavailable');
+    });
+    registerGauge('test_status', 'Status', () => [{ labels: { account: 'main' }, value: 1 }]);
+
+    size = 7;
+    const output = renderMetrics();
+    assert.ok(output.includes('test_queue_size{gateway="test-gateway"} 7\n'));
+    assert.ok(output.includes('test_status{gateway="test-gateway",account="main"} 1\n'));
+    assert.ok(!output.includes('test_broken{'));
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const histogram = registerHistogram('test_latency_seconds', 'Latency', [1, 0.1]);
+    histogram.observe(0.05);
+    histogram.observe(0.5);
+    histogram.observe(5);
+
+    const output = renderMetrics();
+    assert.ok(output.includes('test_latency_seconds_bucket{gateway="test-gateway",le="0.1"} 1\n'));
+    assert.ok(output.includes('test_latency_seconds_bucket{gateway="test-gateway",le="1"} 2\n'));
+    assert.ok(output.includes('test_latency_seconds_bucket{gateway="test-gateway",le="+Inf"} 3\n'));
+    assert.ok(output.includes('test_latency_seconds_sum{gateway="test-gateway"} 5.55\n'));
+    assert.ok(output.includes('test_latency_seconds_count{gateway="test-gateway"} 3\n'));
+  });
+
+  it('rejects a metric registered twice', () => {
+    assert.throws(() => registerCounter('gateway_events_total', 'Again'), /already registered/);
+  });
+
+  it('counts activity events once per security category', () => {
+    logEvent('security', 'flagged', {
+      to: 'metrics-agent',
+      securityFlags: ['encoded:base64: ignore', 'encoded:base64: reveal', 'role_manipulation: act as'],
+    });
+
+    const output = renderMetrics();
+    const series = (category: string) =>
+      `gateway_events_total{gateway="test-gateway",type="security",agent="metrics-agent",category="${category}"} 1\n`;
+    assert.ok(output.includes(series('encoded:base64')));
+    assert.ok(output.includes(series('role_manipulation')));
+  });
+
+  it('times AMP route calls by status', async () => {
+    await timeAmpRoute(async () => new Response(null, { status: 202 }));
+    await assert.rejects(
+      timeAmpRoute(async () => {
+        throw new Error('ECONNREFUSED');
+      })
+    );
+
+    const output = renderMetrics();
+    assert.ok(output.includes('gateway_amp_route_duration_seconds_count{gateway="test-gateway",status="202"} 1\n'));
+    assert.ok(output.includes('gateway_amp_route_duration_seconds_count{gateway="test-gateway",status="error"} 1\n'));
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createOutboundDelivery,
+  retryDelayMs,
+  sendParts,
+  DeadLetterStore,
+  type DeliveryAttempt,
+  type DeliveryOutcome,
+  type DeadLetter,
+  type OutboundDelivery,
+} from '@aimaestro/gateway-core';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Handle a file and its retries as the inbox watcher would; returns the backoffs */
+async function handleWithRetries(delivery: OutboundDelivery, filePath: string): Promise<number[]> {
+  const delays: number[] = [];
+  for (let delay = await delivery.handleFile(filePath); typeof delay === 'number'; delay = await delivery.handleFile(filePath)) {
+    delays.push(delay);
+    await sleep(delay);
+  }
+  return delays;
+}
+
+describe('outbound delivery', () => {
+  let root: string;
+  let inboxDir: string;
+  let deadLetterDir: string;
+  let deadLetters: DeadLetterStore;
+  let deliveries: OutboundDelivery[];
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'delivery-'));
+    inboxDir = path.join(root, 'inbox');
+    deadLetterDir = path.join(root, 'dead-letter');
+    deadLetters = new DeadLetterStore(deadLetterDir, inboxDir);
+    deliveries = [];
+  });
+
+  afterEach(() => {
+    deliveries.forEach((d) => d.stop());
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const writeMessage = (id = 'msg-1') => {
+    const filePath = path.join(inboxDir, 'agent-a', `${id}.json`);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({ envelope: { id, from: 'agent-a@acme.aimaestro.local', subject: 'Re: hi' }, payload: { message: 'hello' } })
+    );
+    return filePath;
+  };
+
+  const start = (
+    deliver: (attempt: DeliveryAttempt) => Promise<DeliveryOutcome>,
+    onDeadLetter?: (record: DeadLetter) => Promise<void>
+  ) => {
+    const delivery = createOutboundDelivery({
+      config: { maxAttempts: 3, retryBaseMs: 10, retryMaxMs: 20, deadLetterDir },
+      deadLetters,
+      deliver: (_msg, _filePath, attempt) => deliver(attempt),
+      onDeadLetter,
+    });
+    deliveries.push(delivery);
+    return delivery;
+  };
+
+  it('doubles the backoff up to the maximum', () => {
+    const config = { retryBaseMs: 100, retryMaxMs: 350 };
+    assert.deepStrictEqual([1, 2, 3, 4].map((n) => retryDelayMs(config, n)), [100, 200, 350, 350]);
+  });
+
+  it('deletes the file once delivered', async () => {
+    const filePath = writeMessage();
+    await start(async () => ({ status: 'delivered' })).handleFile(filePath);
+    assert.strictEqual(fs.existsSync(filePath), false);
+    assert.strictEqual(fs.existsSync(`${filePath}.delivery`), false);
+    assert.strictEqual(deadLetters.count(), 0);
+  });
+
+  it('returns the backoff after transient failures, then dead-letters after maxAttempts', async () => {
+    const filePath = writeMessage();
+    let calls = 0;
+    const notified: DeadLetter[] = [];
+    const delivery = start(
+      async () => {
+        calls++;
+        return { status: 'failed', error: 'HTTP 503' };
+      },
+      async (record) => {
+        notified.push(record);
+      }
+    );
+
+    assert.deepStrictEqual(await handleWithRetries(delivery, filePath), [10, 20]);
+    assert.strictEqual(calls, 3);
+    assert.strictEqual(notified.length, 1);
+    assert.strictEqual(fs.existsSync(filePath), false);
+    assert.strictEqual(fs.existsSync(`${filePath}.delivery`), false);
+
+    const [summary] = deadLetters.list();
+    assert.strictEqual(summary.reason, 'HTTP 503');
+    assert.strictEqual(summary.attempts, 3);
+    assert.strictEqual(summary.originalPath, path.join('agent-a', 'msg-1.json'));
+    assert.strictEqual(notified[0].id, summary.id);
+  });
+
+  it('dead-letters permanent failures at once', async () => {
+    const filePath = writeMessage();
+    let calls = 0;
+    await start(async () => {
+      calls++;
+      return { status: 'failed', error: 'Unknown channel', permanent: true };
+    }).handleFile(filePath);
+
+    assert.strictEqual(calls, 1);
+    assert.strictEqual(deadLetters.list()[0].attempts, 1);
+  });
+
+  it('keeps the attempt count across a restart', async () => {
+    const filePath = writeMessage();
+    const fail = async (): Promise<DeliveryOutcome> => ({ status: 'failed', error: 'HTTP 503' });
+
+    for (let i = 0; i < 2; i++) {
+      const delivery = start(fail);
+      await delivery.handleFile(filePath);
+      delivery.stop();
+    }
+    assert.strictEqual(deadLetters.count(), 0);
+
+    await start(fail).handleFile(filePath);
+    assert.strictEqual(deadLetters.list()[0].attempts, 3);
+  });
+
+  it('resumes a multi-part reply after the parts already posted', async () => {
+    const filePath = writeMessage();
+    const posted: string[] = [];
+    let failOnce = true;
+    const parts = ['part 1', 'part 2', 'part 3'];
+
+    const delivery = start(async (attempt) => {
+      await sendParts(parts, attempt, async (part) => {
+        if (part === 'part 3' && failOnce) {
+          failOnce = false;
+          throw new Error('rate limited');
+        }
+        posted.push(part);
+      });
+      return { status: 'delivered' };
+    });
+
+    assert.deepStrictEqual(await handleWithRetries(delivery, filePath), [10]);
+    assert.deepStrictEqual(posted, parts);
+    assert.strictEqual(fs.existsSync(filePath), false);
+  });
+
+  it('resumes a multi-part reply after a restart', async () => {
+    const filePath = writeMessage();
+    const posted: string[] = [];
+    const parts = ['part 1', 'part 2'];
+
+    const first = start(async (attempt) => {
+      await sendParts(parts, attempt, async (part) => {
+        if (part === 'part 2') throw new Error('connection reset');
+        posted.push(part);
+      });
+      return { status: 'delivered' };
+    });
+    await first.handleFile(filePath);
+    first.stop();
+
+    await start(async (attempt) => {
+      await sendParts(parts, attempt, async (part) => {
+        posted.push(part);
+      });
+      return { status: 'delivered' };
+    }).handleFile(filePath);
+
+    assert.deepStrictEqual(posted, parts);
+    assert.strictEqual(fs.existsSync(filePath), false);
+  });
+
+  it('moves a dead letter back into the inbox for another attempt', async () => {
+    const filePath = writeMessage();
+    await start(async () => ({ status: 'failed', error: 'Unknown channel', permanent: true })).handleFile(filePath);
+    const [{ id }] = deadLetters.list();
+
+    assert.strictEqual(deadLetters.retry(id), true);
+    assert.strictEqual(fs.existsSync(filePath), true);
+    assert.strictEqual(deadLetters.count(), 0);
+
+    const partsSent: number[] = [];
+    await start(async (attempt) => {
+      partsSent.push(attempt.partsSent);
+      return { status: 'delivered' };
+    }).handleFile(filePath);
+    assert.deepStrictEqual(partsSent, [0]);
+    assert.strictEqual(fs.existsSync(filePath), false);
+  });
+
+  it('releases a held response on retry, once', async () => {
+    const filePath = writeMessage();
+    const released: boolean[] = [];
+    const delivery = start(async (attempt) => {
+      released.push(attempt.released);
+      return attempt.released ? { status: 'delivered' } : { status: 'held', reason: 'secret in response' };
+    });
+
+    await delivery.handleFile(filePath);
+    const [record] = deadLetters.list();
+    assert.strictEqual(record.held, true);
+
+    deadLetters.retry(record.id);
+    await delivery.handleFile(filePath);
+    assert.deepStrictEqual(released, [false, true]);
+    assert.strictEqual(deadLetters.consumeRelease(filePath), false);
+  });
+
+  it('keeps the screened fields for retries, across a restart', async () => {
+    const filePath = writeMessage();
+    await start(async (attempt) => {
+      attempt.screenPassed({ message: 'key [REDACTED:env_secret]' });
+      return { status: 'failed', error: 'HTTP 503' };
+    }).handleFile(filePath);
+
+    const screened: DeliveryAttempt['screened'][] = [];
+    await start(async (attempt) => {
+      screened.push(attempt.screened);
+      return { status: 'delivered' };
+    }).handleFile(filePath);
+    assert.deepStrictEqual(screened, [{ message: 'key [REDACTED:env_secret]' }]);
+  });
+
+  it('rejects dead-letter ids that are not plain names', () => {
+    assert.strictEqual(deadLetters.get('../outside'), null);
+    assert.strictEqual(deadLetters.retry('../../etc/passwd'), false);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { DlpConfig } from '@aimaestro/gateway-core';
+import { parseRichReply, screenReplyFiles, embedFields, buildEmbeds, type RichReply } from '../rich-reply.js';
+import type { GatewayConfig } from '../types.js';
+
+describe('parseRichReply', () => {
+  let root: string;
+  let allowedDir: string;
+  let limits: GatewayConfig['attachments'];
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rich-reply-'));
+    allowedDir = path.join(root, 'attachments');
+    fs.mkdirSync(path.join(allowedDir, 'helpdesk', 'quarantine'), { recursive: true });
+    limits = { dir: allowedDir, maxBytes: 10_485_760, allowedTypes: ['*'], outboundDirs: [allowedDir] };
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const writeFile = (relative: string, content = 'report') => {
+    const filePath = path.join(root, relative);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const errorsOf = async (ctx: unknown): Promise<string[]> => {
+    const result = await parseRichReply(ctx, limits);
+    assert.ok('errors' in result, 'expected the reply to be refused');
+    return result.errors;
+  };
+
+  it('loads files from base64 and allowed paths and ignores skipped entries', async () => {
+    const filePath = writeFile('attachments/helpdesk/report.txt');
+    const result = await parseRichReply(
+      {
+        attachments: [
+          { name: 'hello.txt', base64: Buffer.from('hello').toString('base64') },
+          { path: filePath, description: 'Weekly report' },
+          { name: 'chart.png', base64: Buffer.from('png').toString('base64') },
+          { name: 'huge.bin', size: 50_000_000, skipped: 'too large' },
+        ],
+        embeds: [{ title: 'Status', colour: '#00ff00' }],
+        suppressPrefix: true,
+      },
+      limits
+    );
+
+    assert.ok('reply' in result);
+    const reply: RichReply = result.reply;
+    assert.deepStrictEqual(reply.files.map((f) => f.name), ['hello.txt', 'report.txt', 'chart.png']);
+    assert.strictEqual(reply.files[1].description, 'Weekly report');
+    assert.deepStrictEqual(reply.texts, [
+      { name: 'hello.txt', text: 'hello' },
+      { name: 'report.txt', text: 'report' },
+    ]);
+    assert.strictEqual(reply.embeds.length, 1);
+    assert.strictEqual(reply.suppressPrefix, true);
+  });
+
+  it('refuses a path outside the outbound directories', async () => {
+    const secret = writeFile('secrets/.env', 'TOKEN=abc');
+    // Shares the allowed directory's prefix but is a different directory
+    const sibling = writeFile('attachments-other/file.txt');
+
+    assert.deepStrictEqual(await errorsOf({ attachments: [{ path: secret }, { path: sibling }] }), [
+      `attachment 1: file ${secret} is outside the allowed attachment directories`,
+      `attachment 2: file ${sibling} is outside the allowed attachment directories`,
+    ]);
+  });
+
+  it('refuses a path that climbs out with ..', async () => {
+    writeFile('secrets/.env', 'TOKEN=abc');
+    const climbing = path.join(allowedDir, 'helpdesk', '..', '..', 'secrets', '.env');
+
+    assert.deepStrictEqual(await errorsOf({ attachments: [{ path: climbing }] }), [
+      `attachment 1: file ${climbing} is outside the allowed attachment directories`,
+    ]);
+  });
+
+  it('refuses a symlink that points outside the outbound directories', async () => {
+    const secret = writeFile('secrets/.env', 'TOKEN=abc');
+    const link = path.join(allowedDir, 'helpdesk', 'innocent.txt');
+    fs.symlinkSync(secret, link);
+    const dirLink = path.join(allowedDir, 'helpdesk', 'linked');
+    fs.symlinkSync(path.dirname(secret), dirLink);
+
+    assert.deepStrictEqual(await errorsOf({ attachments: [{ path: link }, { path: path.join(dirLink, '.env') }] }), [
+      `attachment 1: file ${link} is outside the allowed attachment directories`,
+      `attachment 2: file ${path.join(dirLink, '.env')} is outside the allowed attachment directories`,
+    ]);
+  });
+
+  it('refuses quarantined files, directories and missing files', async () => {
+    const quarantined = writeFile('attachments/helpdesk/quarantine/2026-01-01/123/payload.txt');
+    const dir = path.join(allowedDir, 'helpdesk');
+    const missing = path.join(allowedDir, 'missing.txt');
+
+    assert.deepStrictEqual(await errorsOf({ attachments: [{ path: quarantined }, { path: dir }, { path: missing }, {}] }), [
+      `attachment 1: file ${quarantined} is quarantined`,
+      `attachment 2: ${dir} is not a file`,
+      `attachment 3: file ${missing} not found`,
+      'attachment 4: needs base64 content or a path',
+    ]);
+  });
+
+  it('refuses files over 10 MB and more than 10 files', async () => {
+    const big = path.join(allowedDir, 'big.bin');
+    fs.writeFileSync(big, '');
+    fs.truncateSync(big, 10 * 1024 * 1024 + 1);
+    const small = { name: 'a.txt', base64: 'YQ==' };
+
+    assert.deepStrictEqual(await errorsOf({ attachments: [{ path: big }] }), [
+      'attachment 1: 10485761 bytes, at most 10485760 allowed',
+    ]);
+    assert.deepStrictEqual(await errorsOf({ attachments: Array(11).fill(small) }), ['11 attachments, at most 10 allowed']);
+  });
+
+  it('refuses embeds over the text limits', async () => {
+    const errors = await errorsOf({
+      embeds: [
+        { title: 't'.repeat(257), description: 'd'.repeat(4097), footer: 'f'.repeat(2049) },
+        { fields: [{ name: 'n'.repeat(257), value: 'v'.repeat(1025) }, { name: 'empty' }] },
+      ],
+    });
+
+    assert.deepStrictEqual(errors, [
+      'embed 1: title has 257 characters, at most 256 allowed',
+      'embed 1: description has 4097 characters, at most 4096 allowed',
+      'embed 1: footer has 2049 characters, at most 2048 allowed',
+      'embed 2: field 1 name has 257 characters, at most 256 allowed',
+      'embed 2: field 1 value has 1025 characters, at most 1024 allowed',
+      'embed 2: field 2 needs a name and a value',
+      'embeds have 7690 characters, at most 6000 allowed',
+    ]);
+  });
+
+  it('refuses embeds that fit one by one but not together', async () => {
+    const embed = { description: 'x'.repeat(4000) };
+    assert.deepStrictEqual(await errorsOf({ embeds: [embed, embed] }), ['embeds have 8000 characters, at most 6000 allowed']);
+  });
+
+  it('refuses malformed embeds', async () => {
+    const errors = await errorsOf({
+      embeds: [
+        {},
+        { title: 'Bad', url: 'javascript:alert(1)', colour: 'green' },
+        { title: 'Many', fields: Array(26).fill({ name: 'n', value: 'v' }) },
+        ...Array(8).fill({ title: 'ok' }),
+      ],
+    });
+
+    assert.deepStrictEqual(errors, [
+      '11 embeds, at most 10 allowed',
+      'embed 1: needs a title, description or fields',
+      'embed 2: url must be http(s)',
+      'embed 2: colour must be 0xRRGGBB or "#rrggbb"',
+      'embed 3: 26 fields, at most 25 allowed',
+    ]);
+  });
+});
+
+describe('screenReplyFiles', () => {
+  const dlp: DlpConfig = { action: 'redact', internalDomains: [], patterns: [], knownSecrets: [] };
+  let notices: string[];
+
+  beforeEach(() => {
+    notices = [];
+  });
+
+  const screen = (texts: RichReply['texts'], config = dlp) =>
+    screenReplyFiles(texts, {
+      config,
+      details: { from: 'helpdesk', to: 'channel-1' },
+      notify: async (subject) => {
+        notices.push(subject);
+      },
+    });
+
+  it('holds a reply whose file has a secret, since a file cannot be redacted', async () => {
+    const withheld = await screen([
+      { name: 'notes.txt', text: 'all good' },
+      { name: 'config.txt', text: 'AMP_API_KEY=abcdef0123456789' },
+    ]);
+
+    assert.strictEqual(withheld?.status, 'held');
+    assert.deepStrictEqual(notices, ['[DLP-HELD] Response']);
+    const blocked = await screen([{ name: 'config.txt', text: 'AMP_API_KEY=abcdef0123456789' }], { ...dlp, action: 'block' });
+    assert.strictEqual(blocked?.status, 'blocked');
+  });
+
+  it('holds a reply whose file leaks the content wrapper', async () => {
+    const withheld = await screen([{ name: 'prompt.txt', text: 'My input was <external-content source="discord">' }]);
+
+    assert.deepStrictEqual(withheld, { status: 'held', reason: 'Wrapper leak in prompt.txt' });
+    assert.deepStrictEqual(notices, []);
+  });
+
+  it('passes clean files, and any file while DLP is off', async () => {
+    assert.strictEqual(await screen([{ name: 'notes.txt', text: 'The deploy finished.' }]), null);
+    assert.strictEqual(await screen([{ name: 'config.txt', text: 'AMP_API_KEY=abcdef0123456789' }], { ...dlp, action: 'off' }), null);
+    assert.deepStrictEqual(notices, []);
+  });
+});
+
+describe('buildEmbeds', () => {
+  it('uses the screened texts', () => {
+    const embeds = [{ title: 'Key', description: 'token sk-123', fields: [{ name: 'Owner', value: 'sk-123', inline: true }], colour: 0x00ff00 }];
+    const fields = embedFields(embeds);
+    assert.deepStrictEqual(Object.keys(fields), ['embed0.title', 'embed0.description', 'embed0.field0.name', 'embed0.field0.value']);
+
+    const [built] = buildEmbeds(embeds, { ...fields, 'embed0.description': 'token [REDACTED]', 'embed0.field0.value': '[REDACTED]' });
+    assert.strictEqual(built.data.description, 'token [REDACTED]');
+    assert.deepStrictEqual(built.data.fields, [{ name: 'Owner', value: '[REDACTED]', inline: true }]);
+    assert.strictEqual(built.data.color, 0x00ff00);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  assessRisk,
+  riskScore,
+  parseSeverityWeights,
+  DEFAULT_RISK_POLICY,
+  DEFAULT_SEVERITY_WEIGHTS,
+  type InjectionFlag,
+  type RiskPolicyConfig,
+  type RuleSeverity,
+} from '@aimaestro/gateway-core';
+
+const flag = (severity: RuleSeverity): InjectionFlag => ({
+  category: 'instruction_override',
+  pattern: `${severity} rule`,
+  match: 'ignore',
+  severity,
+});
+
+/** Flags adding up to `score` with weights of 1 */
+const flagsScoring = (score: number) => Array.from({ length: score }, () => flag('low'));
+
+const policy = (warnScore: number, holdScore: number, blockScore: number): RiskPolicyConfig => ({
+  ...DEFAULT_RISK_POLICY,
+  weights: { low: 1, medium: 1, high: 1, critical: 1 },
+  warnScore,
+  holdScore,
+  blockScore,
+});
+
+describe('risk policy', () => {
+  it('sums severity weights', () => {
+    assert.strictEqual(riskScore([flag('low'), flag('medium'), flag('high'), flag('critical')], DEFAULT_SEVERITY_WEIGHTS), 20);
+    assert.strictEqual(riskScore([], DEFAULT_SEVERITY_WEIGHTS), 0);
+  });
+
+  it('picks the action at each band edge', () => {
+    const bands = policy(2, 4, 6);
+    assert.deepStrictEqual(
+      [0, 1, 2, 3, 4, 5, 6, 7].map((score) => assessRisk(flagsScoring(score), bands).action),
+      ['forward', 'forward', 'forward-with-warning', 'forward-with-warning', 'hold', 'hold', 'block', 'block']
+    );
+    assert.deepStrictEqual(assessRisk(flagsScoring(5), bands), { score: 5, action: 'hold' });
+  });
+
+  it('treats a threshold of 0 as disabled', () => {
+    assert.strictEqual(assessRisk(flagsScoring(10), policy(1, 0, 0)).action, 'forward-with-warning');
+    assert.strictEqual(assessRisk(flagsScoring(10), policy(0, 3, 0)).action, 'hold');
+    assert.strictEqual(assessRisk(flagsScoring(2), policy(0, 3, 0)).action, 'forward');
+    assert.strictEqual(assessRisk(flagsScoring(10), policy(0, 0, 0)).action, 'forward');
+    assert.strictEqual(assessRisk([], policy(0, 0, 0)).action, 'forward');
+  });
+
+  it('only warns with the default policy', () => {
+    assert.deepStrictEqual(assessRisk([]), { score: 0, action: 'forward' });
+    assert.deepStrictEqual(assessRisk([flag('critical'), flag('critical')]), { score: 20, action: 'forward-with-warning' });
+  });
+
+  it('does not score zero-weight severities', () => {
+    const lowIgnored = { ...policy(1, 0, 0), weights: { ...DEFAULT_SEVERITY_WEIGHTS, low: 0 } };
+    assert.deepStrictEqual(assessRisk([flag('low'), flag('low')], lowIgnored), { score: 0, action: 'forward' });
+  });
+
+  it('parses weights and keeps defaults for invalid entries', () => {
+    assert.deepStrictEqual(parseSeverityWeights(undefined), DEFAULT_SEVERITY_WEIGHTS);
+    assert.deepStrictEqual(parseSeverityWeights('low=0, high=8,extreme=5,medium=-1,critical'), {
+      low: 0,
+      medium: 3,
+      high: 8,
+      critical: 10,
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  authorizeRoute,
+  configureRouteAuthorization,
+  configureTrustTiers,
+  parseTrustTiers,
+  DEFAULT_ROUTE_AUTHORIZATION,
+  DEFAULT_TRUST_TIERS,
+} from '@aimaestro/gateway-core';
+
+describe('route authorization', () => {
+  const route = (address: string, scopes: string[] = [], level: 'external' | 'operator' = 'external') =>
+    authorizeRoute({ level, address, tenant: 'acme', defaultAgent: 'pas-lola@default.aimaestro.local', scopes });
+
+  beforeEach(() => {
+    configureTrustTiers(DEFAULT_TRUST_TIERS);
+    configureRouteAuthorization(DEFAULT_ROUTE_AUTHORIZATION);
+  });
+
+  it('allows agents in the own tenant and the default agent', () => {
+    assert.deepStrictEqual(route('helpdesk@acme.aimaestro.local'), { allowed: true });
+    assert.deepStrictEqual(route('pas-lola@default.aimaestro.local'), { allowed: true });
+  });
+
+  it('blocks other tenants unless allowed', () => {
+    const denied = route('agent@other.aimaestro.local', [], 'operator');
+    assert.strictEqual(denied.allowed, false);
+    assert.strictEqual(!denied.allowed && denied.rule, 'tenant');
+
+    configureRouteAuthorization({ ...DEFAULT_ROUTE_AUTHORIZATION, allowedTenants: ['other'] });
+    assert.strictEqual(route('agent@other.aimaestro.local').allowed, true);
+  });
+
+  it('applies the tier agent list', () => {
+    configureTrustTiers(parseTrustTiers('{"external": {"agents": ["helpdesk"]}}'));
+    assert.strictEqual(route('helpdesk@acme.aimaestro.local').allowed, true);
+    const denied = route('admin@acme.aimaestro.local');
+    assert.strictEqual(!denied.allowed && denied.rule, 'tier');
+  });
+
+  it('applies the most specific scope agent list', () => {
+    configureRouteAuthorization({
+      ...DEFAULT_ROUTE_AUTHORIZATION,
+      scopeAgents: { 'channel-1': ['helpdesk'], 'guild-1': ['helpdesk', 'admin'] },
+    });
+    const denied = route('admin@acme.aimaestro.local', ['channel-1', 'guild-1']);
+    assert.strictEqual(!denied.allowed && denied.rule, 'scope');
+    assert.strictEqual(route('admin@acme.aimaestro.local', ['channel-2', 'guild-1']).allowed, true);
+    assert.strictEqual(route('admin@acme.aimaestro.local', ['channel-2']).allowed, true);
+  });
+});
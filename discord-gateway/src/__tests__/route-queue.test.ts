@@ -0,0 +1,184 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import {
+  RouteQueue,
+  AMPRouteError,
+  rejectedRouteNotice,
+  type CircuitState,
+  type QueuedRoute,
+} from '@aimaestro/gateway-core';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('timed out waiting for condition');
+    await sleep(10);
+  }
+}
+
+const request = (to = 'helpdesk@acme.aimaestro.local') => ({
+  to,
+  subject: 'Discord message from Alice',
+  priority: 'normal' as const,
+  payload: { type: 'request', message: 'hello' },
+});
+
+describe('route queue', () => {
+  let server: http.Server;
+  let maestroUrl: string;
+  let dir: string;
+  let queues: RouteQueue<{ user: string }>[];
+  /** Status Maestro answers route requests and health probes with */
+  let routeStatus: number;
+  let healthStatus: number;
+  /** Circuit state while each route request was in flight */
+  let routeStates: CircuitState[];
+  let current: RouteQueue<{ user: string }> | null;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'route-queue-'));
+    queues = [];
+    routeStatus = 200;
+    healthStatus = 200;
+    routeStates = [];
+    current = null;
+
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        if (req.url === '/api/v1/health') {
+          res.writeHead(healthStatus).end();
+          return;
+        }
+        if (current) routeStates.push(current.circuitState());
+        res.writeHead(routeStatus, { 'Content-Type': 'application/json' });
+        res.end(routeStatus < 300 ? JSON.stringify({ id: `msg-${routeStates.length}`, status: 'delivered' }) : 'error');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    maestroUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    queues.forEach((q) => q.stop());
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createQueue = (
+    delivered: QueuedRoute<{ user: string }>[] = [],
+    rejected: Array<{ entry: QueuedRoute<{ user: string }>; error: AMPRouteError }> = []
+  ) => {
+    const queue = new RouteQueue<{ user: string }>({
+      maestroUrl,
+      apiKey: 'key',
+      config: { dir, retryBaseMs: 20, retryMaxMs: 40, failureThreshold: 2 },
+      onDelivered: (entry) => {
+        delivered.push(entry);
+      },
+      onRejected: (entry, error) => {
+        rejected.push({ entry, error });
+      },
+    });
+    queues.push(queue);
+    current = queue;
+    return queue;
+  };
+
+  it('routes directly while Maestro is up', async () => {
+    const delivered: QueuedRoute<{ user: string }>[] = [];
+    const result = await createQueue(delivered).submit(request(), { user: 'alice' });
+
+    assert.strictEqual(result.status, 'delivered');
+    assert.strictEqual(delivered.length, 1);
+    assert.deepStrictEqual(delivered[0].context, { user: 'alice' });
+    assert.deepStrictEqual(fs.readdirSync(dir), []);
+  });
+
+  it('throws a direct rejection to the caller', async () => {
+    routeStatus = 404;
+    await assert.rejects(createQueue().submit(request(), { user: 'alice' }), (error: unknown) => {
+      return error instanceof AMPRouteError && error.status === 404;
+    });
+  });
+
+  it('queues while Maestro is down and flushes in order once it is back', async () => {
+    const delivered: QueuedRoute<{ user: string }>[] = [];
+    const queue = createQueue(delivered);
+    routeStatus = 503;
+
+    const first = await queue.submit(request(), { user: 'alice' });
+    const second = await queue.submit(request(), { user: 'bob' });
+    assert.strictEqual(first.status, 'queued');
+    assert.strictEqual(second.status === 'queued' && second.position, 2);
+    assert.strictEqual(fs.readdirSync(dir).length, 2);
+
+    routeStatus = 200;
+    await waitFor(() => delivered.length === 2);
+    assert.deepStrictEqual(delivered.map((e) => e.context.user), ['alice', 'bob']);
+    assert.strictEqual(queue.size(), 0);
+    assert.deepStrictEqual(fs.readdirSync(dir), []);
+  });
+
+  it('opens the circuit, probes health, and closes after a half-open flush', async () => {
+    const delivered: QueuedRoute<{ user: string }>[] = [];
+    const queue = createQueue(delivered);
+    routeStatus = 503;
+    healthStatus = 503;
+
+    await queue.submit(request(), { user: 'alice' });
+    await waitFor(() => queue.circuitState() === 'open');
+
+    // Health is back but routing still fails: half-open re-opens
+    healthStatus = 200;
+    await waitFor(() => routeStates.includes('half-open'));
+    await waitFor(() => queue.circuitState() === 'open');
+    assert.strictEqual(delivered.length, 0);
+
+    routeStatus = 200;
+    await waitFor(() => delivered.length === 1);
+    assert.strictEqual(queue.circuitState(), 'closed');
+    assert.strictEqual(routeStates[routeStates.length - 1], 'half-open');
+  });
+
+  it('calls onRejected when Maestro rejects a queued message', async () => {
+    const delivered: QueuedRoute<{ user: string }>[] = [];
+    const rejected: Array<{ entry: QueuedRoute<{ user: string }>; error: AMPRouteError }> = [];
+    const queue = createQueue(delivered, rejected);
+    routeStatus = 503;
+
+    await queue.submit(request('ghost@acme.aimaestro.local'), { user: 'alice' });
+    routeStatus = 404;
+    await waitFor(() => rejected.length === 1);
+
+    assert.strictEqual(rejected[0].error.status, 404);
+    assert.deepStrictEqual(rejected[0].entry.context, { user: 'alice' });
+    assert.strictEqual(delivered.length, 0);
+    assert.strictEqual(queue.size(), 0);
+    assert.deepStrictEqual(fs.readdirSync(dir), []);
+    assert.strictEqual(
+      rejectedRouteNotice(rejected[0].entry.request, rejected[0].error),
+      'Your queued message to ghost could not be delivered: agent ghost was not found.'
+    );
+  });
+
+  it('flushes messages queued by a previous run', async () => {
+    routeStatus = 503;
+    const first = createQueue();
+    await first.submit(request(), { user: 'alice' });
+    first.stop();
+
+    routeStatus = 200;
+    const delivered: QueuedRoute<{ user: string }>[] = [];
+    createQueue(delivered);
+    await waitFor(() => delivered.length === 1);
+    assert.deepStrictEqual(delivered[0].context, { user: 'alice' });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ThreadStore } from '../thread-store.js';
+import type { ThreadContext } from '../types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const context = (ampMessageId: string, createdAt = Date.now()): ThreadContext => ({
+  channelId: 'channel-1',
+  messageId: `discord-${ampMessageId}`,
+  user: 'user-1',
+  userName: 'Alice',
+  ampMessageId,
+  createdAt,
+});
+
+describe('ThreadStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'thread-store-'));
+    file = path.join(dir, 'threads.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('remembers the agent of a conversation thread', () => {
+    const store = new ThreadStore();
+    store.setThreadAgent('thread-1', 'helpdesk@acme.aimaestro.local');
+    store.setThreadAgent('thread-2', 'billing@acme.aimaestro.local');
+    store.setThreadAgent('thread-1', 'sales@acme.aimaestro.local');
+
+    assert.strictEqual(store.getThreadAgent('thread-1'), 'sales@acme.aimaestro.local');
+    assert.strictEqual(store.getThreadAgent('thread-2'), 'billing@acme.aimaestro.local');
+    assert.strictEqual(store.getThreadAgent('thread-3'), undefined);
+  });
+
+  it('forgets thread agents and contexts past the TTL', async () => {
+    const store = new ThreadStore(50);
+    store.setThreadAgent('thread-1', 'helpdesk@acme.aimaestro.local');
+    store.set('msg-1', context('msg-1'));
+    store.set('msg-old', context('msg-old', Date.now() - HOUR));
+
+    assert.strictEqual(store.get('msg-old'), undefined);
+    assert.strictEqual(store.get('msg-1')?.ampMessageId, 'msg-1');
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    assert.strictEqual(store.getThreadAgent('thread-1'), undefined);
+    assert.strictEqual(store.findByChannel('channel-1'), undefined);
+  });
+
+  it('keeps a thread alive while it is active', async () => {
+    const store = new ThreadStore(80);
+    store.setThreadAgent('thread-1', 'helpdesk@acme.aimaestro.local');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    store.setThreadAgent('thread-1', 'helpdesk@acme.aimaestro.local');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.strictEqual(store.getThreadAgent('thread-1'), 'helpdesk@acme.aimaestro.local');
+  });
+
+  it('drops expired entries on cleanup', () => {
+    const store = new ThreadStore(HOUR);
+    store.set('msg-old', context('msg-old', Date.now() - 2 * HOUR));
+    store.set('msg-1', context('msg-1'));
+    store.cleanup();
+    assert.strictEqual(store.size(), 1);
+  });
+
+  it('saves and loads contexts and thread agents', () => {
+    const store = new ThreadStore();
+    store.set('msg-1', { ...context('msg-1'), threadChannelId: 'thread-1' });
+    store.setThreadAgent('thread-1', 'helpdesk@acme.aimaestro.local');
+    store.save(file);
+
+    const loaded = new ThreadStore();
+    loaded.load(file);
+    assert.deepStrictEqual(loaded.get('msg-1'), store.get('msg-1'));
+    assert.strictEqual(loaded.getThreadAgent('thread-1'), 'helpdesk@acme.aimaestro.local');
+  });
+
+  it('loads files written before thread mode', () => {
+    fs.writeFileSync(file, JSON.stringify({ 'msg-1': context('msg-1'), 'msg-old': context('msg-old', Date.now() - 48 * HOUR) }));
+
+    const store = new ThreadStore();
+    store.load(file);
+    assert.strictEqual(store.size(), 1);
+    assert.strictEqual(store.get('msg-1')?.messageId, 'discord-msg-1');
+    assert.strictEqual(store.findByChannel('channel-1')?.ampMessageId, 'msg-1');
+  });
+
+  it('skips expired thread agents on load', () => {
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        contexts: {},
+        threadAgents: {
+          'thread-1': { agent: 'helpdesk@acme.aimaestro.local', lastActiveAt: Date.now() },
+          'thread-old': { agent: 'billing@acme.aimaestro.local', lastActiveAt: Date.now() - 48 * HOUR },
+        },
+      })
+    );
+
+    const store = new ThreadStore();
+    store.load(file);
+    assert.strictEqual(store.getThreadAgent('thread-1'), 'helpdesk@acme.aimaestro.local');
+    assert.strictEqual(store.getThreadAgent('thread-old'), undefined);
+  });
+
+  it('starts empty when the file is missing or corrupt', () => {
+    const store = new ThreadStore();
+    store.load(file);
+    fs.writeFileSync(file, '{"contexts":');
+    store.load(file);
+    assert.strictEqual(store.size(), 0);
+  });
+});
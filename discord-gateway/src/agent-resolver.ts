@@ -6,15 +6,19 @@
  * handler resolves addresses on the provider side.
  */
 
+import { Cache } from '@aimaestro/gateway-core';
 import type { GatewayConfig, LookupResult } from './types.js';
 
 export interface AgentResolver {
   buildAddress(name: string): string;
   lookupAgent(name: string): LookupResult;
+  listAgents(): Promise<string[]>;
   clearCaches(): void;
 }
 
 export function createAgentResolver(config: GatewayConfig): AgentResolver {
+  const agentListCache = new Cache<string[]>(config.cache.agentTtlMs);
+
   function debug(message: string, ...args: unknown[]): void {
     if (config.debug) {
       console.log(`[DEBUG] ${message}`, ...args);
@@ -42,9 +46,41 @@ export function createAgentResolver(config: GatewayConfig): AgentResolver {
     return { address, displayName };
   }
 
+  /**
+   * Names of the agents AI Maestro knows (GET /api/agents), cached for
+   * CACHE_AGENT_TTL_MS. Empty while Maestro cannot be reached.
+   */
+  async function listAgents(): Promise<string[]> {
+    const cached = agentListCache.get('agents');
+    if (cached) return cached;
+
+    try {
+      const response = await fetch(`${config.amp.maestroUrl}/api/agents`, {
+        headers: { 'Authorization': `Bearer ${config.amp.apiKey}` },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) throw new Error(`/api/agents returned ${response.status}`);
+
+      const data = (await response.json()) as unknown;
+      const list = Array.isArray(data) ? data : ((data as { agents?: unknown[] })?.agents ?? []);
+      const names = list
+        .map((a) => (typeof a === 'string' ? a : (a as { name?: string; alias?: string })?.name ?? (a as { alias?: string })?.alias))
+        .filter((n): n is string => typeof n === 'string' && n.length > 0);
+
+      agentListCache.set('agents', names);
+      return names;
+    } catch (error) {
+      console.warn('[AMP] Failed to list agents:', (error as Error).message);
+      return [];
+    }
+  }
+
   return {
     buildAddress,
     lookupAgent,
-    clearCaches: () => {},
+    listAgents,
+    clearCaches: () => {
+      agentListCache.clear();
+    },
   };
 }
@@ -36,6 +36,7 @@ export function createConfigRouter(
       },
       discord: {
         configured: !!config.discord.botToken,
+        threadMode: config.discord.threadMode,
       },
       cache: config.cache,
       polling: config.polling,
@@ -46,6 +47,8 @@ export function createConfigRouter(
     const secConfig = getSecurityConfig();
     res.json({
       operatorDiscordIds: secConfig.operatorDiscordIds,
+      teamRoleIds: secConfig.teamRoleIds ?? [],
+      partnerRoleIds: secConfig.partnerRoleIds ?? [],
     });
   });
 
@@ -55,24 +58,39 @@ export function createConfigRouter(
     }
 
     const { operatorDiscordIds } = req.body;
+    const current = getSecurityConfig();
+    const teamRoleIds = req.body.teamRoleIds ?? current.teamRoleIds ?? [];
+    const partnerRoleIds = req.body.partnerRoleIds ?? current.partnerRoleIds ?? [];
 
     if (!Array.isArray(operatorDiscordIds)) {
       return res.status(400).json({ error: 'operatorDiscordIds must be an array' });
     }
+    if (!Array.isArray(teamRoleIds) || !Array.isArray(partnerRoleIds)) {
+      return res.status(400).json({ error: 'teamRoleIds and partnerRoleIds must be arrays' });
+    }
 
-    const normalized = operatorDiscordIds.map((id: string) => id.trim()).filter(Boolean);
+    const normalize = (ids: string[]) => ids.map((id: string) => String(id).trim()).filter(Boolean);
+    const normalized = normalize(operatorDiscordIds);
+    const teamNormalized = normalize(teamRoleIds);
+    const partnerNormalized = normalize(partnerRoleIds);
 
-    const invalidIds = normalized.filter((id: string) => !/^\d+$/.test(id));
+    const invalidIds = [...normalized, ...teamNormalized, ...partnerNormalized].filter((id: string) => !/^\d+$/.test(id));
     if (invalidIds.length > 0) {
       return res.status(400).json({ error: `Invalid Discord ID(s): ${invalidIds.join(', ')}. Discord IDs must be numeric.` });
     }
 
-    const newSecConfig: SecurityConfig = { operatorDiscordIds: normalized };
+    const newSecConfig: SecurityConfig = {
+      operatorDiscordIds: normalized,
+      teamRoleIds: teamNormalized,
+      partnerRoleIds: partnerNormalized,
+    };
     updateSecurityConfig(newSecConfig);
 
     await updateEnvVariable('OPERATOR_DISCORD_IDS', normalized.join(','));
+    await updateEnvVariable('TEAM_DISCORD_ROLE_IDS', teamNormalized.join(','));
+    await updateEnvVariable('PARTNER_DISCORD_ROLE_IDS', partnerNormalized.join(','));
 
-    res.json({ ok: true, operatorDiscordIds: normalized });
+    res.json({ ok: true, operatorDiscordIds: normalized, teamRoleIds: teamNormalized, partnerRoleIds: partnerNormalized });
   });
 
   return router;
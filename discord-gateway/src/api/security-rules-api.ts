@@ -0,0 +1,48 @@
+/**
+ * Security Rules API
+ *
+ * GET/PUT endpoints for the injection rule set used by the content scanner.
+ * PUT writes the rules file, so the change survives restarts and reaches
+ * any other gateway watching the same file.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  getInjectionRules,
+  saveInjectionRules,
+  RuleValidationError,
+  type InjectionRulesConfig,
+} from '@aimaestro/gateway-core';
+
+export function createSecurityRulesRouter(rulesConfig: InjectionRulesConfig, adminToken?: string): Router {
+  const router = Router();
+
+  /**
+   * GET /api/security/rules — Active rule set, including disabled rules
+   */
+  router.get('/rules', (req: Request, res: Response) => {
+    res.json(getInjectionRules());
+  });
+
+  /**
+   * PUT /api/security/rules — Replace the rule set. Body: { rules: [...] }
+   */
+  router.put('/rules', (req: Request, res: Response) => {
+    if (!adminToken) {
+      return res.status(403).json({ error: 'ADMIN_TOKEN required for security configuration changes' });
+    }
+
+    try {
+      const ruleSet = saveInjectionRules(rulesConfig.file, req.body);
+      res.json({ ok: true, ...ruleSet });
+    } catch (err) {
+      if (err instanceof RuleValidationError) {
+        return res.status(400).json({ error: 'Invalid injection rules', details: err.errors });
+      }
+      console.error('[RULES] Failed to save rules:', (err as Error).message);
+      return res.status(500).json({ error: 'Failed to save injection rules' });
+    }
+  });
+
+  return router;
+}
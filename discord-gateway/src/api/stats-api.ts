@@ -6,7 +6,7 @@
 
 import { Router, Request, Response } from 'express';
 import type { GatewayConfig } from '../types.js';
-import { getEventCount, getTodayStats } from './activity-log.js';
+import { getEventCount, getTodayStats } from '@aimaestro/gateway-core';
 
 const startTime = Date.now();
 
@@ -62,7 +62,7 @@ export function createStatsRouter(
   return router;
 }
 
-function formatUptime(ms: number): string {
+export function formatUptime(ms: number): string {
   const seconds = Math.floor(ms / 1000);
   const minutes = Math.floor(seconds / 60);
   const hours = Math.floor(minutes / 60);
@@ -0,0 +1,189 @@
+/**
+ * Discord Gateway - Inbound Attachments
+ *
+ * Files attached to a routed message are downloaded (within the size and
+ * type limits), and text-like ones are scanned along with the message.
+ * Once the message is routed they are saved like the email gateway's
+ * attachments, per agent:
+ *
+ *   {ATTACHMENTS_PATH}/{agent}/inbox/{date}/{messageId}/       -> clean messages
+ *   {ATTACHMENTS_PATH}/{agent}/quarantine/{date}/{messageId}/  -> flagged messages
+ *
+ * Agents find them in the AMP context's `discord.attachments`; skipped
+ * attachments are listed there too, with the reason instead of a path.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Attachment } from 'discord.js';
+import type { GatewayConfig } from './types.js';
+
+/** An attachment downloaded from Discord, not saved yet */
+export interface DownloadedAttachment {
+  name: string;
+  type: string;
+  size: number;
+  content: Buffer;
+}
+
+/** An entry of `discord.attachments` in the AMP context */
+export interface AttachmentInfo {
+  name: string;
+  type: string;
+  size: number;
+  /** Where the file was saved */
+  path?: string;
+  /** Why the file was not downloaded */
+  skipped?: string;
+}
+
+export interface DownloadedAttachments {
+  files: DownloadedAttachment[];
+  skipped: AttachmentInfo[];
+}
+
+const DOWNLOAD_TIMEOUT_MS = 30000;
+/** Agent names and message ids become directory names: word characters, dots and dashes, not only dots */
+const PLAIN_NAME = /^(?!\.+$)[\w.-]+$/;
+/** Only the start of a large text attachment is scanned */
+const MAX_SCAN_CHARS = 100000;
+/** Written next to the saved files; an attachment cannot take its name */
+const METADATA_FILE = '_metadata.json';
+
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/yaml', 'application/x-yaml', 'application/javascript'];
+const TEXT_EXTENSIONS = ['.txt', '.log', '.md', '.csv', '.json', '.yaml', '.yml', '.xml', '.html', '.ini', '.toml'];
+
+function mimeType(attachment: Attachment): string {
+  return (attachment.contentType || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+}
+
+function typeAllowed(type: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some((allowed) =>
+    allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : allowed === '*' || allowed === type
+  );
+}
+
+function isTextLike(file: DownloadedAttachment): boolean {
+  return (
+    file.type.startsWith('text/') ||
+    TEXT_TYPES.includes(file.type) ||
+    TEXT_EXTENSIONS.includes(path.extname(file.name).toLowerCase())
+  );
+}
+
+/**
+ * Download a message's attachments. Attachments over the size limit, of a
+ * type that is not allowed, or that fail to download are skipped.
+ */
+export async function downloadAttachments(
+  attachments: Attachment[],
+  limits: GatewayConfig['attachments']
+): Promise<DownloadedAttachments> {
+  const result: DownloadedAttachments = { files: [], skipped: [] };
+
+  for (const attachment of attachments) {
+    const info = { name: attachment.name, type: mimeType(attachment), size: attachment.size };
+
+    if (!typeAllowed(info.type, limits.allowedTypes)) {
+      result.skipped.push({ ...info, skipped: `type ${info.type} is not allowed` });
+      continue;
+    }
+    if (info.size > limits.maxBytes) {
+      result.skipped.push({ ...info, skipped: `larger than ${limits.maxBytes} bytes` });
+      continue;
+    }
+
+    try {
+      const response = await fetch(attachment.url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const content = Buffer.from(await response.arrayBuffer());
+      if (content.length > limits.maxBytes) {
+        result.skipped.push({ ...info, size: content.length, skipped: `larger than ${limits.maxBytes} bytes` });
+        continue;
+      }
+      result.files.push({ ...info, size: content.length, content });
+    } catch (error) {
+      console.warn(`[ATTACHMENTS] Failed to download ${attachment.name}: ${(error as Error).message}`);
+      result.skipped.push({ ...info, skipped: 'download failed' });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The text of text-like attachments (plain text, logs, JSON, YAML, ...),
+ * for the injection scan.
+ */
+export function attachmentTexts(files: DownloadedAttachment[]): Array<{ name: string; text: string }> {
+  return files
+    .filter(isTextLike)
+    .map((file) => ({ name: file.name, text: file.content.toString('utf-8', 0, MAX_SCAN_CHARS) }));
+}
+
+/** A file name that is safe to write into a message's folder */
+function safeFileName(name: string): string {
+  const safe = name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return /^\.*$/.test(safe) ? `_${safe}` : safe;
+}
+
+/**
+ * `name`, or `name-2.ext`, `name-3.ext`, ... if it is already `taken`
+ * (compared case-insensitively). Adds the result to `taken`.
+ */
+function uniqueFileName(name: string, taken: Set<string>): string {
+  const ext = path.extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+  let unique = name;
+  for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+    unique = `${stem}-${n}${ext}`;
+  }
+  taken.add(unique.toLowerCase());
+  return unique;
+}
+
+/**
+ * Save downloaded attachments to the agent's inbox or quarantine folder,
+ * with a _metadata.json next to them. Files whose safe names collide (with
+ * each other or the metadata file) are numbered. Throws if `agentName` or
+ * `messageId` is not a plain name, so nothing is written outside `baseDir`.
+ */
+export async function saveAttachments(
+  baseDir: string,
+  agentName: string,
+  messageId: string,
+  files: DownloadedAttachment[],
+  quarantine: boolean
+): Promise<AttachmentInfo[]> {
+  const date = new Date().toISOString().slice(0, 10);
+  const folder = quarantine ? 'quarantine' : 'inbox';
+  if (!PLAIN_NAME.test(agentName) || !PLAIN_NAME.test(messageId)) {
+    throw new Error(`Refusing to save attachments for agent "${agentName}", message "${messageId}": not a plain name`);
+  }
+  const root = path.resolve(baseDir);
+  const dir = path.resolve(root, agentName, folder, date, messageId);
+  if (!dir.startsWith(root + path.sep)) {
+    throw new Error(`Refusing to save attachments outside ${root}: ${dir}`);
+  }
+
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const saved: AttachmentInfo[] = [];
+  const taken = new Set([METADATA_FILE]);
+  for (const file of files) {
+    const filePath = path.join(dir, uniqueFileName(safeFileName(file.name), taken));
+    await fs.promises.writeFile(filePath, file.content);
+    saved.push({ name: file.name, type: file.type, size: file.size, path: filePath });
+  }
+
+  const metadata = {
+    savedAt: new Date().toISOString(),
+    agent: agentName,
+    folder,
+    files: saved.map((s) => ({ name: s.name, type: s.type, size: s.size })),
+  };
+  await fs.promises.writeFile(path.join(dir, METADATA_FILE), JSON.stringify(metadata, null, 2));
+
+  console.log(`[ATTACHMENTS] Saved ${saved.length} attachment(s) for ${agentName} to ${folder}/`);
+  return saved;
+}
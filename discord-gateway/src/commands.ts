@@ -0,0 +1,244 @@
+/**
+ * Discord Gateway - Slash Commands
+ *
+ *   /ask agent message -> route a message to an agent (agent autocompletes)
+ *   /agents            -> list the agents the caller may reach from here
+ *   /status            -> gateway and AI Maestro health
+ *
+ * /ask goes through the same routeMessage path as mentions and DMs (trust
+ * tiers, route authorization, scanning, review), addressed to the chosen
+ * agent; @AIM: text in the message is not parsed. Its reply is deferred:
+ * the interaction token is stored with the thread context, and the
+ * outbound poller edits the deferred reply when the agent answers.
+ *
+ * Commands are registered when the client is ready, per guild when
+ * DISCORD_COMMAND_GUILD_IDS is set (visible at once), else globally.
+ */
+
+import {
+  SlashCommandBuilder,
+  MessageFlags,
+  type ChatInputCommandInteraction,
+  type AutocompleteInteraction,
+  type Client,
+  type Interaction,
+} from 'discord.js';
+import { authorizeRoute, tierPolicy } from '@aimaestro/gateway-core';
+import type { GatewayConfig, InteractionTarget } from './types.js';
+import type { AgentResolver } from './agent-resolver.js';
+import type { ThreadStore } from './thread-store.js';
+import { resolveTrust, type SecurityConfig } from './content-security.js';
+import {
+  routeMessage,
+  memberRoleIds,
+  routeScopes,
+  type InboundRouteQueue,
+  type InboundReviewQueue,
+} from './inbound.js';
+import { formatUptime } from './api/stats-api.js';
+
+/** Interaction tokens are valid for 15 minutes */
+const INTERACTION_TOKEN_TTL_MS = 15 * 60 * 1000;
+/** Discord shows at most 25 autocomplete choices */
+const MAX_CHOICES = 25;
+
+const COMMANDS = [
+  new SlashCommandBuilder()
+    .setName('ask')
+    .setDescription('Send a message to an AI Maestro agent')
+    .addStringOption((option) =>
+      option.setName('agent').setDescription('Agent to ask').setRequired(true).setAutocomplete(true)
+    )
+    .addStringOption((option) =>
+      option.setName('message').setDescription('Your message').setRequired(true).setMaxLength(4000)
+    ),
+  new SlashCommandBuilder().setName('agents').setDescription('List the agents you can reach from here'),
+  new SlashCommandBuilder().setName('status').setDescription('Show gateway and AI Maestro health'),
+].map((command) => command.toJSON());
+
+/**
+ * Register the slash commands with Discord. Call once the client is ready.
+ */
+export async function registerSlashCommands(client: Client, config: GatewayConfig): Promise<void> {
+  if (!client.application) return;
+
+  try {
+    if (config.discord.commandGuildIds.length > 0) {
+      for (const guildId of config.discord.commandGuildIds) {
+        await client.application.commands.set(COMMANDS, guildId);
+      }
+      console.log(`[COMMANDS] Registered ${COMMANDS.length} slash command(s) in ${config.discord.commandGuildIds.length} guild(s)`);
+    } else {
+      await client.application.commands.set(COMMANDS);
+      console.log(`[COMMANDS] Registered ${COMMANDS.length} global slash command(s)`);
+    }
+  } catch (error) {
+    console.error('[COMMANDS] Failed to register slash commands:', (error as Error).message);
+  }
+}
+
+/**
+ * Register the interactionCreate handler for the slash commands.
+ */
+export function registerCommandHandlers(
+  client: Client,
+  config: GatewayConfig,
+  resolver: AgentResolver,
+  getSecurityConfig: () => SecurityConfig,
+  routeQueue: InboundRouteQueue,
+  reviewQueue: InboundReviewQueue,
+  threadStore: ThreadStore
+): void {
+  /** The caller's role IDs and the places the interaction came from */
+  async function callerContext(
+    interaction: ChatInputCommandInteraction | AutocompleteInteraction
+  ): Promise<{ roleIds: string[]; scopes: string[] }> {
+    const member = interaction.member;
+    const guildRoleIds = !member ? null : Array.isArray(member.roles) ? member.roles : [...member.roles.cache.keys()];
+    return {
+      roleIds: await memberRoleIds(client, interaction.user.id, guildRoleIds, getSecurityConfig()),
+      scopes: routeScopes(interaction.channelId ?? '', interaction.channel, interaction.guildId),
+    };
+  }
+
+  /**
+   * Agents the caller may reach: the default agent, agents named in their
+   * tier's policy and agents AI Maestro knows, filtered by route
+   * authorization.
+   */
+  async function reachableAgents(
+    interaction: ChatInputCommandInteraction | AutocompleteInteraction
+  ): Promise<string[]> {
+    const { roleIds, scopes } = await callerContext(interaction);
+    const { level } = resolveTrust(interaction.user.id, getSecurityConfig(), roleIds);
+    const defaultAgent = resolver.lookupAgent(config.amp.defaultAgent).address;
+    const candidates = [
+      config.amp.defaultAgent,
+      ...tierPolicy(level).agents.filter((a) => a !== '*'),
+      ...(await resolver.listAgents()),
+    ];
+
+    const reachable = new Map<string, string>();
+    for (const name of candidates) {
+      const { address } = resolver.lookupAgent(name);
+      if (reachable.has(address)) continue;
+      const decision = authorizeRoute({ level, address, tenant: config.amp.tenant, defaultAgent, scopes });
+      if (decision.allowed) reachable.set(address, name.split('@')[0]);
+    }
+    return [...reachable.values()];
+  }
+
+  async function handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    const typed = interaction.options.getFocused().toLowerCase();
+    const agents = await reachableAgents(interaction);
+    await interaction.respond(
+      agents
+        .filter((agent) => agent.toLowerCase().includes(typed))
+        .slice(0, MAX_CHOICES)
+        .map((agent) => ({ name: agent, value: agent }))
+    );
+  }
+
+  async function handleAsk(interaction: ChatInputCommandInteraction): Promise<void> {
+    const agent = interaction.options.getString('agent', true).trim();
+    const message = interaction.options.getString('message', true);
+    const displayName = interaction.user.displayName || interaction.user.username;
+    const channelId = interaction.channelId ?? '';
+
+    console.log(`[Discord <-] /ask ${agent} from ${displayName}: ${message.substring(0, 50)}...`);
+    await interaction.deferReply();
+
+    const target: InteractionTarget = {
+      applicationId: interaction.applicationId,
+      token: interaction.token,
+      expiresAt: Date.now() + INTERACTION_TOKEN_TTL_MS,
+    };
+    const { roleIds, scopes } = await callerContext(interaction);
+
+    await routeMessage({
+      config,
+      resolver,
+      securityConfig: getSecurityConfig(),
+      routeQueue,
+      reviewQueue,
+      route: { agent, message },
+      channelId,
+      messageId: interaction.id,
+      displayName,
+      discordUserId: interaction.user.id,
+      roleIds,
+      scopes,
+      reply: async (replyText) => {
+        await interaction.editReply(replyText);
+      },
+      interaction: target,
+    });
+  }
+
+  async function handleAgents(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const agents = await reachableAgents(interaction);
+    await interaction.editReply(
+      agents.length > 0
+        ? `Agents you can reach here:\n${agents.map((agent) => `- \`${agent}\``).join('\n')}\n\nUse \`/ask\` or \`@AIM:agent-name message\`.`
+        : 'No agents are reachable from here.'
+    );
+  }
+
+  async function handleStatus(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const started = Date.now();
+    let maestro: string;
+    try {
+      const resp = await fetch(`${config.amp.maestroUrl}/api/v1/health`, { signal: AbortSignal.timeout(3000) });
+      maestro = resp.ok ? `reachable (${Date.now() - started}ms)` : `unhealthy (HTTP ${resp.status})`;
+    } catch {
+      maestro = 'unreachable';
+    }
+
+    await interaction.editReply(
+      [
+        '**AI Maestro Discord Gateway**',
+        `Uptime: ${formatUptime(process.uptime() * 1000)}`,
+        `Discord: ${client.guilds.cache.size} guild(s), ${client.ws.ping}ms ping`,
+        `AI Maestro: ${maestro}`,
+        `Routing: circuit ${routeQueue.circuitState()}, ${routeQueue.size()} queued, ${reviewQueue.size()} held for review`,
+        `Open conversations: ${threadStore.size()}`,
+      ].join('\n')
+    );
+  }
+
+  client.on('interactionCreate', async (interaction: Interaction) => {
+    if (interaction.isAutocomplete()) {
+      if (interaction.commandName !== 'ask') return;
+      await handleAutocomplete(interaction).catch((error) => {
+        console.error('[COMMANDS] Autocomplete failed:', (error as Error).message);
+      });
+      return;
+    }
+    if (!interaction.isChatInputCommand()) return;
+
+    try {
+      switch (interaction.commandName) {
+        case 'ask':
+          await handleAsk(interaction);
+          break;
+        case 'agents':
+          await handleAgents(interaction);
+          break;
+        case 'status':
+          await handleStatus(interaction);
+          break;
+      }
+    } catch (error) {
+      console.error(`[COMMANDS] /${interaction.commandName} failed:`, error);
+      const reply = `Failed to run /${interaction.commandName}. Please try again.`;
+      if (interaction.deferred || interaction.replied) {
+        await interaction.editReply(reply).catch(() => {});
+      } else {
+        await interaction.reply({ content: reply, flags: MessageFlags.Ephemeral }).catch(() => {});
+      }
+    }
+  });
+}
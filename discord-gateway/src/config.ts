@@ -8,7 +8,19 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
-import { bootstrapAMP } from './amp-bootstrap.js';
+import {
+  bootstrapAMP,
+  parseSignaturePolicy,
+  parseSeverityWeights,
+  parseTrustTiers,
+  parseScopeAgents,
+  parseScanLanguages,
+  parseDlpAction,
+  parseDlpPatterns,
+  DEFAULT_RISK_POLICY,
+  DEFAULT_ROUTE_AUTHORIZATION,
+  DEFAULT_REVIEW_REJECT_REPLY,
+} from '@aimaestro/gateway-core';
 import type { GatewayConfig } from './types.js';
 
 dotenv.config();
@@ -61,11 +73,16 @@ function buildConfig(ampOverrides?: {
   maestroUrl: string;
 }): GatewayConfig {
   const agentName = process.env.AMP_AGENT_NAME || 'discord-bot';
+  const inboxDir = ampOverrides?.inboxDir || process.env.AMP_INBOX_DIR || resolveInboxDir(agentName);
+  const attachmentsDir = process.env.ATTACHMENTS_PATH || path.join(path.dirname(inboxDir), 'attachments');
 
   return {
     port: parseInt(process.env.PORT || '3023', 10),
     discord: {
       botToken: process.env.DISCORD_BOT_TOKEN!,
+      commandGuildIds: (process.env.DISCORD_COMMAND_GUILD_IDS || '').split(',').map((s) => s.trim()).filter(Boolean),
+      threadMode: process.env.DISCORD_THREAD_MODE === 'true',
+      chunkMarkers: process.env.CHUNK_MARKERS === 'true',
     },
     amp: {
       apiKey: ampOverrides?.apiKey || process.env.AMP_API_KEY!,
@@ -73,16 +90,95 @@ function buildConfig(ampOverrides?: {
       maestroUrl: ampOverrides?.maestroUrl || process.env.AMP_MAESTRO_URL || 'http://127.0.0.1:23000',
       defaultAgent: process.env.AMP_DEFAULT_AGENT || 'pas-lola@default.aimaestro.local',
       tenant: ampOverrides?.tenant || process.env.AMP_TENANT || 'default',
-      inboxDir: ampOverrides?.inboxDir || process.env.AMP_INBOX_DIR || resolveInboxDir(agentName),
+      inboxDir,
     },
     cache: {
       agentTtlMs: parseInt(process.env.CACHE_AGENT_TTL_MS || '300000', 10),
       slackUserTtlMs: parseInt(process.env.CACHE_SLACK_USER_TTL_MS || '600000', 10),
     },
     polling: {
-      intervalMs: parseInt(process.env.POLL_INTERVAL_MS || '3000', 10),
+      intervalMs: parseInt(process.env.POLL_INTERVAL_MS || '30000', 10),
       timeoutMs: parseInt(process.env.POLL_TIMEOUT_MS || '10000', 10),
     },
+    delivery: {
+      maxAttempts: parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || '5', 10),
+      retryBaseMs: parseInt(process.env.OUTBOUND_RETRY_BASE_MS || '5000', 10),
+      retryMaxMs: parseInt(process.env.OUTBOUND_RETRY_MAX_MS || '300000', 10),
+      deadLetterDir: process.env.DEAD_LETTER_DIR || path.join(path.dirname(inboxDir), 'dead-letter'),
+    },
+    signing: {
+      enabled: process.env.AMP_SIGNING !== 'false',
+      privateKeyPath: process.env.AMP_PRIVATE_KEY_PATH || path.join(path.dirname(path.dirname(inboxDir)), 'keys', 'private.pem'),
+    },
+    verification: {
+      policy: parseSignaturePolicy(process.env.INBOX_SIGNATURE_POLICY),
+      unsignedAllowlist: (process.env.INBOX_UNSIGNED_ALLOWLIST || '').split(',').map((s) => s.trim()).filter(Boolean),
+      keyCacheTtlMs: parseInt(process.env.AGENT_KEY_CACHE_TTL_MS || '3600000', 10),
+    },
+    routeQueue: {
+      dir: process.env.ROUTE_QUEUE_DIR || path.join(path.dirname(inboxDir), 'route-queue'),
+      retryBaseMs: parseInt(process.env.ROUTE_RETRY_BASE_MS || '2000', 10),
+      retryMaxMs: parseInt(process.env.ROUTE_RETRY_MAX_MS || '60000', 10),
+      failureThreshold: parseInt(process.env.ROUTE_FAILURE_THRESHOLD || '3', 10),
+    },
+    injectionRules: {
+      file: process.env.INJECTION_RULES_FILE || path.resolve(path.dirname(new URL(import.meta.url).pathname), '..', 'injection-rules.yaml'),
+    },
+    scanner: {
+      decodeDepth: parseInt(process.env.SCAN_DECODE_DEPTH || '3', 10),
+      languages: parseScanLanguages(process.env.SCAN_LANGUAGES),
+    },
+    canary: {
+      enabled: process.env.CANARY_TOKENS === 'true',
+      ttlMs: parseInt(process.env.CANARY_TTL_MS || '604800000', 10),
+    },
+    conversation: {
+      messages: parseInt(process.env.CONVERSATION_WINDOW_MESSAGES || '5', 10),
+      windowMs: parseInt(process.env.CONVERSATION_WINDOW_MS || '600000', 10),
+    },
+    riskPolicy: {
+      weights: parseSeverityWeights(process.env.RISK_SEVERITY_WEIGHTS),
+      warnScore: parseInt(process.env.RISK_WARN_SCORE || '1', 10),
+      holdScore: parseInt(process.env.RISK_HOLD_SCORE || '0', 10),
+      blockScore: parseInt(process.env.RISK_BLOCK_SCORE || '0', 10),
+      holdReply: process.env.RISK_HOLD_REPLY || DEFAULT_RISK_POLICY.holdReply,
+      blockReply: process.env.RISK_BLOCK_REPLY || DEFAULT_RISK_POLICY.blockReply,
+    },
+    trustTiers: parseTrustTiers(process.env.TRUST_TIER_POLICY),
+    routeAuthorization: {
+      allowedTenants: (process.env.ROUTE_ALLOWED_TENANTS || '').split(',').map((s) => s.trim()).filter(Boolean),
+      scopeAgents: parseScopeAgents(process.env.ROUTE_SCOPE_AGENTS),
+      denyReply: process.env.ROUTE_DENY_REPLY || DEFAULT_ROUTE_AUTHORIZATION.denyReply,
+    },
+    review: {
+      dir: process.env.REVIEW_QUEUE_DIR || path.join(path.dirname(inboxDir), 'review-queue'),
+      rejectReply: process.env.REVIEW_REJECT_REPLY || DEFAULT_REVIEW_REJECT_REPLY,
+    },
+    attachments: {
+      dir: attachmentsDir,
+      maxBytes: parseInt(process.env.ATTACHMENT_MAX_BYTES || '10485760', 10),
+      allowedTypes: (process.env.ATTACHMENT_ALLOWED_TYPES || 'image/*,text/*,application/pdf,application/json')
+        .split(',')
+        .map((s) => s.trim().toLowerCase())
+        .filter(Boolean),
+      outboundDirs: (process.env.OUTBOUND_ATTACHMENT_DIRS || attachmentsDir).split(',').map((s) => s.trim()).filter(Boolean),
+    },
+    dlp: {
+      action: parseDlpAction(process.env.DLP_ACTION),
+      internalDomains: (process.env.DLP_INTERNAL_DOMAINS || '').split(',').map((s) => s.trim()).filter(Boolean),
+      patterns: parseDlpPatterns(process.env.DLP_PATTERNS),
+      knownSecrets: [
+        ampOverrides?.apiKey || process.env.AMP_API_KEY || '',
+        process.env.DISCORD_BOT_TOKEN || '',
+        process.env.ADMIN_TOKEN || '',
+      ].filter(Boolean),
+    },
+    activity: {
+      store: process.env.ACTIVITY_STORE === 'memory' ? 'memory' : 'jsonl',
+      dir: process.env.ACTIVITY_LOG_DIR || path.resolve(path.dirname(new URL(import.meta.url).pathname), '..', 'activity-log'),
+      retentionDays: parseInt(process.env.ACTIVITY_RETENTION_DAYS || '30', 10),
+      maxBytes: parseInt(process.env.ACTIVITY_MAX_BYTES || '52428800', 10),
+    },
     debug: process.env.DEBUG === 'true',
     adminToken: process.env.ADMIN_TOKEN || '',
   };
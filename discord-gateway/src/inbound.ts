@@ -2,24 +2,237 @@
  * Discord Gateway - Inbound Message Handlers (AMP Protocol)
  *
  * Registers Discord event handlers (messageCreate) and routes messages
- * to agents via AMP POST /api/v1/route.
+ * to agents via AMP POST /api/v1/route. Slash commands (commands.ts) route
+ * through the same path. In thread mode (DISCORD_THREAD_MODE) an @mention
+ * in a guild channel starts a Discord thread; later messages in it reach
+ * the same agent without a mention. While AI Maestro is unreachable,
+ * messages wait in the store-and-forward route queue; messages the risk
+ * policy holds wait in the review queue for an operator.
  */
 
-import type { Client, Message, TextChannel } from 'discord.js';
-import type { GatewayConfig, AMPRouteRequest } from './types.js';
+import {
+  ThreadAutoArchiveDuration,
+  type Attachment,
+  type Client,
+  type Message,
+  type TextBasedChannel,
+  type TextChannel,
+} from 'discord.js';
+import type { GatewayConfig, AMPRouteRequest, AMPRouteResponse, InteractionTarget } from './types.js';
 import type { AgentResolver } from './agent-resolver.js';
 import type { ThreadStore } from './thread-store.js';
-import { sanitizeDiscordMessage, type SecurityConfig } from './content-security.js';
-import { logEvent } from './api/activity-log.js';
+import { completeInteraction } from './outbound.js';
+import { downloadAttachments, attachmentTexts, saveAttachments, type AttachmentInfo } from './attachments.js';
+import {
+  resolveTrust,
+  sanitizeDiscordMessage,
+  wrapReviewedDiscordMessage,
+  type SecurityConfig,
+  type TrustLevel,
+} from './content-security.js';
+import {
+  logEvent,
+  authorizeRoute,
+  reportDeniedRoute,
+  tierPolicy,
+  issueCanary,
+  rememberOperatorNames,
+  detectLanguage,
+  RouteQueue,
+  ReviewQueue,
+  AMPRouteError,
+  rejectedRouteNotice,
+  signRouteRequest,
+  type QueuedRoute,
+  type RouteSubmitResult,
+  type RiskAssessment,
+} from '@aimaestro/gateway-core';
+
+/** Persisted with each route request so replies can be threaded once it is delivered */
+export interface DiscordRouteContext {
+  channelId: string;
+  messageId: string;
+  user: string;
+  userName: string;
+  trust: string;
+  preview: string;
+  /** Set for /ask, so the reply completes the deferred interaction */
+  interaction?: InteractionTarget;
+  /** Discord thread replies are posted in (thread mode) */
+  threadChannelId?: string;
+}
+
+/** Routed (or queued) to Maestro, or stopped by the risk policy */
+type SendOutcome = RouteSubmitResult | { status: 'held' | 'blocked'; risk: RiskAssessment };
+
+export type InboundRouteQueue = RouteQueue<DiscordRouteContext>;
+export type InboundReviewQueue = ReviewQueue<DiscordRouteContext>;
+
+/** What routing a message needs from the gateway */
+export interface InboundRouting {
+  config: GatewayConfig;
+  resolver: AgentResolver;
+  securityConfig: SecurityConfig;
+  routeQueue: InboundRouteQueue;
+  reviewQueue: InboundReviewQueue;
+}
+
+/** The Discord message (or /ask) being routed and its sender */
+export interface InboundMessage {
+  channelId: string;
+  messageId: string;
+  displayName: string;
+  discordUserId: string;
+  /** The sender's guild roles (see memberRoleIds) */
+  roleIds: string[];
+  /** Set for /ask, so the reply completes the deferred interaction */
+  interaction?: InteractionTarget;
+  /** Discord thread replies are posted in (thread mode) */
+  threadChannelId?: string;
+  /** Files posted with the message, downloaded and forwarded to the agent */
+  attachments?: Attachment[];
+}
+
+interface SendToAgentOptions extends Omit<InboundRouting, 'resolver'>, InboundMessage {
+  targetAddress: string;
+  text: string;
+}
+
+export interface RouteMessageOptions extends InboundRouting, InboundMessage {
+  route: AgentRoute;
+  /** Where the message was posted (see routeScopes) */
+  scopes: string[];
+  /** Answers the sender right away (denied, held, queued, unknown agent) */
+  reply: (text: string) => Promise<void>;
+  /**
+   * Thread mode: starts the conversation thread with the agent, returning
+   * how to post in it (null if it could not be started)
+   */
+  startThread?: (agentAddress: string) => Promise<((text: string) => Promise<void>) | null>;
+}
+
+/**
+ * Answer the sender of a routed message: complete their /ask while its
+ * token is valid, else reply to their original message (or post a new
+ * message if it was deleted).
+ */
+async function replyToSender(client: Client, context: DiscordRouteContext, reply: string): Promise<void> {
+  if (context.interaction && context.interaction.expiresAt > Date.now()) {
+    await completeInteraction(client, context.interaction, [{ content: reply }]);
+    return;
+  }
+  const channel = await client.channels.fetch(context.channelId).catch(() => null);
+  if (!channel || !channel.isTextBased()) {
+    throw new Error(`Channel ${context.channelId} not found or not text-based`);
+  }
+  const textChannel = channel as TextChannel;
+  const original = await textChannel.messages.fetch(context.messageId).catch(() => null);
+  if (original) {
+    await original.reply(reply);
+  } else {
+    await textChannel.send(reply);
+  }
+}
+
+/**
+ * Create the route queue for inbound messages. Delivered messages (direct
+ * or flushed from the queue) get their thread context stored for replies;
+ * senders of queued messages Maestro rejects are told.
+ */
+export function createInboundRouteQueue(
+  config: GatewayConfig,
+  client: Client,
+  threadStore: ThreadStore
+): InboundRouteQueue {
+  return new RouteQueue<DiscordRouteContext>({
+    maestroUrl: config.amp.maestroUrl,
+    apiKey: config.amp.apiKey,
+    config: config.routeQueue,
+    timeoutMs: config.polling.timeoutMs,
+    sign: (request) => signRouteRequest(request, config.amp.agentAddress, config.signing),
+    onDelivered: (entry, result) => recordDelivery(entry, result, threadStore),
+    onRejected: async (entry, error) => {
+      const { request, context } = entry;
+      logEvent('error', `Queued Discord message not delivered: ${context.userName} -> ${request.to.split('@')[0]}`, {
+        from: context.userName,
+        to: request.to,
+        subject: context.preview,
+        deliveryStatus: 'rejected',
+        error: error.message,
+      });
+      await replyToSender(client, context, rejectedRouteNotice(request, error));
+    },
+  });
+}
+
+/**
+ * Create the review queue for held messages. Approved messages go through
+ * the route queue; rejected senders get a reply to their original message.
+ */
+export function createInboundReviewQueue(
+  config: GatewayConfig,
+  client: Client,
+  routeQueue: InboundRouteQueue
+): InboundReviewQueue {
+  return new ReviewQueue<DiscordRouteContext>({
+    config: config.review,
+    forward: (request, context) => routeQueue.submit(request, context),
+    edit: (request, text, context) => ({
+      ...request,
+      payload: {
+        ...request.payload,
+        message: wrapReviewedDiscordMessage(text, context.user, context.userName, context.trust as TrustLevel),
+      },
+    }),
+    notifyRejected: (entry, reply) => replyToSender(client, entry.context, reply),
+  });
+}
+
+function recordDelivery(
+  entry: QueuedRoute<DiscordRouteContext>,
+  result: AMPRouteResponse,
+  threadStore: ThreadStore
+): void {
+  const { request, context } = entry;
+
+  if (result.id) {
+    threadStore.set(result.id, {
+      channelId: context.channelId,
+      messageId: context.messageId,
+      user: context.user,
+      userName: context.userName,
+      ampMessageId: result.id,
+      createdAt: Date.now(),
+      threadChannelId: context.threadChannelId,
+      interaction: context.interaction,
+    });
+  }
+
+  const agentName = request.to.split('@')[0];
+  console.log(
+    `[-> ${request.to}] Message from ${context.userName} (trust: ${context.trust}): ${context.preview.substring(0, 50)}...`
+  );
+
+  logEvent('inbound', `Discord message routed: ${context.userName} -> ${agentName}`, {
+    from: context.userName,
+    to: request.to,
+    subject: context.preview,
+    ampMessageId: result.id,
+    deliveryStatus: result.status,
+  });
+}
+
+/** The agent a message goes to and the message text without the routing prefix */
+export interface AgentRoute {
+  agent: string;
+  message: string;
+}
 
 /**
  * Parse @AIM:agent-name routing from message text.
  * Allows full AMP addresses like @AIM:agent@tenant.domain
  */
-function parseAgentRouting(
-  text: string,
-  defaultAgent: string
-): { agent: string; message: string } {
+export function parseAgentRouting(text: string, defaultAgent: string): AgentRoute {
   const match = text.match(/@AIM:([a-zA-Z0-9_@.\-]+)/i);
 
   if (match) {
@@ -41,6 +254,61 @@ function parseAgentRouting(
   };
 }
 
+/**
+ * The sender's role IDs: `guildRoleIds` when the message was posted in a
+ * guild, or for a DM their roles in every guild they share with the bot.
+ * Only looked up when tier roles are configured.
+ */
+export async function memberRoleIds(
+  client: Client,
+  userId: string,
+  guildRoleIds: string[] | null,
+  securityConfig: SecurityConfig
+): Promise<string[]> {
+  if (!securityConfig.teamRoleIds?.length && !securityConfig.partnerRoleIds?.length) return [];
+  if (guildRoleIds) return guildRoleIds;
+
+  const roleIds: string[] = [];
+  for (const guild of client.guilds.cache.values()) {
+    const member = await guild.members.fetch(userId).catch(() => null);
+    if (member) roleIds.push(...member.roles.cache.keys());
+  }
+  return roleIds;
+}
+
+/**
+ * Where a message was posted, most specific first: channel, the parent
+ * channel of a thread, guild.
+ */
+export function routeScopes(channelId: string, channel: TextBasedChannel | null, guildId: string | null): string[] {
+  const parentId = channel?.isThread() ? channel.parentId : null;
+  return [channelId, parentId, guildId].filter((id): id is string => !!id);
+}
+
+/**
+ * Start a thread on a guild message for the conversation with its agent.
+ * The thread takes the message's ID. Returns null (the reply goes to the
+ * channel) when the channel has no threads or the bot may not create them.
+ */
+async function startConversationThread(
+  message: Message,
+  text: string,
+  displayName: string
+): Promise<{ id: string; send: (text: string) => Promise<unknown> } | null> {
+  if (!('threads' in message.channel)) return null;
+
+  const topic = text.replace(/@AIM:[a-zA-Z0-9_@.\-]+/i, '').replace(/\s+/g, ' ').trim();
+  try {
+    return await message.startThread({
+      name: (topic || `Conversation with ${displayName}`).substring(0, 100),
+      autoArchiveDuration: ThreadAutoArchiveDuration.OneDay,
+    });
+  } catch (error) {
+    console.warn(`[Discord] Could not start a thread in ${message.channelId}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
 /**
  * Remove bot mention from message text.
  */
@@ -49,38 +317,79 @@ function stripBotMention(text: string, botId: string): string {
 }
 
 /**
- * Send a message to an agent via AMP route API.
+ * Send a message to an agent via AMP route API (or queue it while AI
+ * Maestro is unreachable). Messages the risk policy holds go to the review
+ * queue instead; blocked messages are dropped.
  */
-async function sendToAgent(
-  config: GatewayConfig,
-  targetAddress: string,
-  text: string,
-  channelId: string,
-  messageId: string,
-  displayName: string,
-  discordUserId: string,
-  securityConfig: SecurityConfig,
-  threadStore: ThreadStore
-): Promise<void> {
-  const { sanitized, trust, flags } = sanitizeDiscordMessage(
+async function sendToAgent(options: SendToAgentOptions): Promise<SendOutcome> {
+  const {
+    config,
+    securityConfig,
+    routeQueue,
+    reviewQueue,
+    targetAddress,
+    text,
+    channelId,
+    messageId,
+    displayName,
+    discordUserId,
+    roleIds,
+    interaction,
+    threadChannelId,
+    attachments = [],
+  } = options;
+  const downloaded = attachments.length > 0 ? await downloadAttachments(attachments, config.attachments) : null;
+
+  const canary = issueCanary({
+    source: 'discord',
+    sender: displayName,
+    to: targetAddress,
+    subject: text.substring(0, 80),
+    messageId,
+  });
+  const { sanitized, trust, flags, risk } = sanitizeDiscordMessage(
     text,
     discordUserId,
     displayName,
-    securityConfig
+    securityConfig,
+    config.riskPolicy,
+    { canary, conversation: channelId, roleIds, attachments: attachmentTexts(downloaded?.files ?? []) }
   );
+  if (trust.level === 'operator') rememberOperatorNames(discordUserId, [displayName]);
 
   if (flags.length > 0) {
     console.log(
-      `[SECURITY] ${flags.length} injection pattern(s) flagged from ${displayName} (trust: ${trust.level})`
+      `[SECURITY] ${flags.length} injection pattern(s) flagged from ${displayName} (trust: ${trust.level}, score: ${risk.score}, action: ${risk.action})`
     );
-    logEvent('security', `Injection patterns flagged from ${displayName}`, {
+    logEvent('security', `Injection patterns flagged from ${displayName} (${risk.action})`, {
       from: displayName,
       to: targetAddress,
       subject: text.substring(0, 80),
       securityFlags: flags.map((f) => `${f.category}: ${f.match}`),
+      riskScore: risk.score,
+      policyAction: risk.action,
+      deliveryStatus: risk.action === 'hold' ? 'held' : risk.action === 'block' ? 'blocked' : undefined,
     });
   }
 
+  // Attachments of flagged messages go to quarantine; blocked messages keep none
+  let attachmentInfo: AttachmentInfo[] = downloaded?.skipped ?? [];
+  if (downloaded?.files.length && risk.action !== 'block') {
+    try {
+      const saved = await saveAttachments(
+        config.attachments.dir,
+        targetAddress.split('@')[0],
+        messageId,
+        downloaded.files,
+        risk.action !== 'forward'
+      );
+      attachmentInfo = [...saved, ...attachmentInfo];
+    } catch (error) {
+      console.error('[ATTACHMENTS] Failed to save attachments:', error);
+      logEvent('error', `Failed to save attachments for ${displayName}`, { error: (error as Error).message });
+    }
+  }
+
   const ampRequest: AMPRouteRequest = {
     to: targetAddress,
     subject: `Discord message from ${displayName}`,
@@ -97,97 +406,118 @@ async function sendToAgent(
           bridge_agent: config.amp.agentAddress,
           received_at: new Date().toISOString(),
         },
-        discord: { channelId, messageId, user: displayName },
+        discord: {
+          channelId,
+          messageId,
+          user: displayName,
+          threadChannelId,
+          attachments: attachmentInfo.length > 0 ? attachmentInfo : undefined,
+        },
         security: {
           trust: trust.level,
           source: 'discord',
           scanned: true,
           injection_flags: flags.map((f) => f.category),
-          wrapped: trust.level !== 'operator',
+          wrapped: tierPolicy(trust.level).wrap,
+          risk_score: risk.score,
+          policy_action: risk.action,
+          language: detectLanguage(text),
           scanned_at: new Date().toISOString(),
         },
       },
     },
   };
 
-  const response = await fetch(`${config.amp.maestroUrl}/api/v1/route`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${config.amp.apiKey}`,
-    },
-    body: JSON.stringify(ampRequest),
-    signal: AbortSignal.timeout(config.polling.timeoutMs),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text().catch(() => '');
-    if (response.status === 404) {
-      throw new Error(`agent_not_found: ${targetAddress}`);
-    }
-    if (response.status === 429) {
-      throw new Error(`rate_limited: ${targetAddress}`);
-    }
-    throw new Error(`AMP route failed (${response.status}): ${errorBody}`);
-  }
-
-  const result = await response.json();
+  const routeContext: DiscordRouteContext = {
+    channelId,
+    messageId,
+    user: discordUserId,
+    userName: displayName,
+    trust: trust.level,
+    preview: text.substring(0, 80),
+    interaction,
+    threadChannelId,
+  };
 
-  if (result.id) {
-    threadStore.set(result.id, {
-      channelId,
-      messageId,
-      user: discordUserId,
-      userName: displayName,
-      ampMessageId: result.id,
-      createdAt: Date.now(),
+  if (risk.action === 'hold') {
+    reviewQueue.hold({
+      sender: displayName,
+      text,
+      flags: flags.map((f) => `${f.category}: ${f.match}`),
+      risk,
+      request: ampRequest,
+      context: routeContext,
     });
+    return { status: 'held', risk };
+  }
+  if (risk.action === 'block') {
+    return { status: 'blocked', risk };
   }
 
-  const agentName = targetAddress.split('@')[0];
-  console.log(
-    `[-> ${targetAddress}] Message from ${displayName} (trust: ${trust.level}): ${text.substring(0, 50)}...`
-  );
-
-  logEvent('inbound', `Discord message routed: ${displayName} -> ${agentName}`, {
-    from: displayName,
-    to: targetAddress,
-    subject: text.substring(0, 80),
-    ampMessageId: result.id,
-    deliveryStatus: result.status,
-  });
+  try {
+    return await routeQueue.submit(ampRequest, routeContext);
+  } catch (error) {
+    if (error instanceof AMPRouteError) {
+      if (error.status === 404) {
+        throw new Error(`agent_not_found: ${targetAddress}`);
+      }
+      if (error.status === 429) {
+        throw new Error(`rate_limited: ${targetAddress}`);
+      }
+    }
+    throw error;
+  }
 }
 
 /**
- * Route a Discord message to the appropriate agent via AMP.
+ * Route a Discord message to the appropriate agent via AMP. `reply` answers
+ * the sender right away (denied, held, queued, unknown agent); the agent's
+ * own reply arrives through the outbound poller. Returns the agent's
+ * address when the message was routed, queued or held, else null; only
+ * then is the conversation thread started (thread mode).
  */
-async function routeMessage(
-  config: GatewayConfig,
-  resolver: AgentResolver,
-  securityConfig: SecurityConfig,
-  threadStore: ThreadStore,
-  text: string,
-  channelId: string,
-  messageId: string,
-  displayName: string,
-  discordUserId: string,
-  reply: (text: string) => Promise<void>
-): Promise<void> {
-  const { agent, message } = parseAgentRouting(text, config.amp.defaultAgent);
+export async function routeMessage(options: RouteMessageOptions): Promise<string | null> {
+  const { config, resolver, securityConfig, route, displayName, discordUserId, roleIds, scopes, startThread } = options;
+  let { reply } = options;
+  const { agent, message } = route;
   const { address } = resolver.lookupAgent(agent);
 
+  // May this sender reach the agent from here? (trust tier, channel/guild, tenant)
+  const trust = resolveTrust(discordUserId, securityConfig, roleIds);
+  const routeRequest = {
+    level: trust.level,
+    address,
+    tenant: config.amp.tenant,
+    defaultAgent: resolver.lookupAgent(config.amp.defaultAgent).address,
+    scopes,
+  };
+  const decision = authorizeRoute(routeRequest);
+  if (!decision.allowed) {
+    reportDeniedRoute(displayName, routeRequest, decision, message.substring(0, 80));
+    await reply(config.routeAuthorization.denyReply);
+    return null;
+  }
+
   try {
-    await sendToAgent(
-      config,
-      address,
-      message,
-      channelId,
-      messageId,
-      displayName,
-      discordUserId,
-      securityConfig,
-      threadStore
-    );
+    const outcome = await sendToAgent({ ...options, targetAddress: address, text: message });
+
+    if (outcome.status === 'blocked') {
+      await reply(config.riskPolicy.blockReply);
+      return null;
+    }
+
+    reply = (await startThread?.(address)) ?? reply;
+    if (outcome.status === 'held') {
+      await reply(config.riskPolicy.holdReply);
+      return address;
+    }
+
+    if (outcome.status === 'queued') {
+      await reply(
+        `AI Maestro is temporarily unreachable. Your message to \`${agent}\` is queued and will be delivered as soon as it is back.`
+      );
+    }
+    return address;
   } catch (error) {
     const errMsg = (error as Error).message;
 
@@ -196,12 +526,12 @@ async function routeMessage(
         `Agent \`${agent}\` not found.\n\nUse \`@AIM:agent-name message\` to route to a specific agent.`
       );
       logEvent('error', `Agent not found: ${agent}`, { from: displayName, to: agent });
-      return;
+      return null;
     }
 
     if (errMsg.startsWith('rate_limited:')) {
       await reply(`Agent \`${agent}\` is rate limited. Please try again in a moment.`);
-      return;
+      return null;
     }
 
     throw error;
@@ -209,13 +539,16 @@ async function routeMessage(
 }
 
 /**
- * Register all inbound Discord event handlers.
+ * Register all inbound Discord event handlers. The security config is read
+ * per message, so changes made through the config API apply at once.
  */
 export function registerInboundHandlers(
   client: Client,
   config: GatewayConfig,
   resolver: AgentResolver,
-  securityConfig: SecurityConfig,
+  getSecurityConfig: () => SecurityConfig,
+  routeQueue: InboundRouteQueue,
+  reviewQueue: InboundReviewQueue,
   threadStore: ThreadStore
 ): void {
   client.on('messageCreate', async (message: Message) => {
@@ -223,8 +556,11 @@ export function registerInboundHandlers(
 
     const isDM = !message.guild;
     const isMentioned = message.mentions.has(client.user!);
+    const inThread = message.channel.isThread();
+    // Thread mode: a conversation thread reaches its agent without a mention
+    const threadAgent = config.discord.threadMode && inThread ? threadStore.getThreadAgent(message.channelId) : undefined;
 
-    if (!isDM && !isMentioned) return;
+    if (!isDM && !isMentioned && !threadAgent) return;
 
     const displayName = message.author.displayName || message.author.username;
     let text = message.content;
@@ -233,7 +569,15 @@ export function registerInboundHandlers(
       text = stripBotMention(text, client.user.id);
     }
 
-    if (!text.trim()) return;
+    if (!text.trim() && message.attachments.size === 0) return;
+    if (!text.trim()) {
+      text = `(${message.attachments.size} attachment(s))`;
+    }
+
+    const route: AgentRoute =
+      threadAgent && !/@AIM:/i.test(text)
+        ? { agent: threadAgent, message: text }
+        : parseAgentRouting(text, config.amp.defaultAgent);
 
     const source = isDM ? 'DM' : `#${(message.channel as TextChannel).name || message.channelId}`;
     console.log(`[Discord <-] ${source} from ${displayName}: ${text.substring(0, 50)}...`);
@@ -245,22 +589,52 @@ export function registerInboundHandlers(
         await message.channel.sendTyping().catch(() => {});
       }
 
-      const reply = async (replyText: string) => {
-        await message.reply(replyText);
-      };
+      // Thread mode: a mention in a guild channel starts the conversation
+      // thread once the message is routed, queued or held. The thread takes
+      // the message's ID, so the route can name it up front.
+      const startsThread = config.discord.threadMode && !isDM && !inThread;
+      const threadChannelId = config.discord.threadMode && inThread ? message.channelId : startsThread ? message.id : undefined;
 
-      await routeMessage(
+      const securityConfig = getSecurityConfig();
+      const agentAddress = await routeMessage({
         config,
         resolver,
         securityConfig,
-        threadStore,
-        text,
-        message.channelId,
-        message.id,
+        routeQueue,
+        reviewQueue,
+        route,
+        channelId: message.channelId,
+        messageId: message.id,
         displayName,
-        message.author.id,
-        reply
-      );
+        discordUserId: message.author.id,
+        roleIds: await memberRoleIds(
+          client,
+          message.author.id,
+          message.member ? [...message.member.roles.cache.keys()] : null,
+          securityConfig
+        ),
+        scopes: routeScopes(message.channelId, message.channel, message.guildId),
+        reply: async (replyText) => {
+          await message.reply(replyText);
+        },
+        threadChannelId,
+        attachments: [...message.attachments.values()],
+        startThread: startsThread
+          ? async (agentAddress) => {
+              const thread = await startConversationThread(message, text, displayName);
+              if (!thread) return null;
+              threadStore.setThreadAgent(thread.id, agentAddress);
+              return async (replyText) => {
+                await thread.send(replyText);
+              };
+            }
+          : undefined,
+      });
+
+      // Keep the conversation thread alive while it is used
+      if (config.discord.threadMode && inThread && agentAddress) {
+        threadStore.setThreadAgent(message.channelId, agentAddress);
+      }
     } catch (error) {
       console.error('Error routing message:', error);
       await message.reply('Failed to route message. Please try again.').catch(() => {});
@@ -1,48 +1,72 @@
 /**
- * Discord Gateway - Outbound Response Poller (AMP Protocol)
+ * Discord Gateway - Outbound Response Dispatcher (AMP Protocol)
  *
- * Scans the AMP filesystem inbox for agent responses and posts
- * them back to the originating Discord channel.
+ * Watches the AMP filesystem inbox for agent responses and posts
+ * them back to the originating Discord channel, or to the conversation
+ * thread in thread mode. Replies to /ask complete the deferred interaction
+ * instead, while its token is still valid. Files and embeds in the
+ * response's `context.discord` are posted with it (see rich-reply.ts).
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
-import type { Client, TextChannel } from 'discord.js';
-import type { GatewayConfig, AMPMessage } from './types.js';
+import { InteractionWebhook, type Client, type TextChannel } from 'discord.js';
+import type { GatewayConfig, AMPMessage, AMPRouteRequest, InteractionTarget } from './types.js';
 import type { ThreadStore } from './thread-store.js';
-import { logEvent } from './api/activity-log.js';
+import { parseRichReply, screenReplyFiles, embedFields, buildEmbeds, type ReplyPayload } from './rich-reply.js';
+import {
+  logEvent,
+  timeAmpRoute,
+  signRouteRequest,
+  startInboxWatcher,
+  createOutboundDelivery,
+  sendParts,
+  screenOutbound,
+  reportWrapperLeaks,
+  chunkMarkdown,
+  SignatureVerifier,
+  type DeadLetterStore,
+  type DeliveryAttempt,
+  type DeliveryOutcome,
+} from '@aimaestro/gateway-core';
 
 /** Discord's max message length */
 const DISCORD_MAX_LENGTH = 2000;
 
 /**
- * Split a long message into chunks that fit within Discord's 2000-char limit.
+ * Split the response text into Discord messages (Markdown-aware, see
+ * chunkMarkdown); files and embeds go with the last one.
  */
-function splitMessage(text: string): string[] {
-  if (text.length <= DISCORD_MAX_LENGTH) return [text];
-
-  const chunks: string[] = [];
-  let remaining = text;
-
-  while (remaining.length > 0) {
-    if (remaining.length <= DISCORD_MAX_LENGTH) {
-      chunks.push(remaining);
-      break;
-    }
-
-    let splitAt = remaining.lastIndexOf('\n', DISCORD_MAX_LENGTH);
-    if (splitAt < DISCORD_MAX_LENGTH * 0.5) {
-      splitAt = remaining.lastIndexOf(' ', DISCORD_MAX_LENGTH);
-    }
-    if (splitAt < DISCORD_MAX_LENGTH * 0.5) {
-      splitAt = DISCORD_MAX_LENGTH;
-    }
-
-    chunks.push(remaining.substring(0, splitAt));
-    remaining = remaining.substring(splitAt).trimStart();
+function buildPayloads(
+  text: string,
+  files: ReplyPayload['files'],
+  embeds: ReplyPayload['embeds'],
+  markers: boolean
+): ReplyPayload[] {
+  const payloads: ReplyPayload[] = text
+    ? chunkMarkdown(text, { limit: DISCORD_MAX_LENGTH, markers }).map((content) => ({ content }))
+    : [{}];
+  if (files?.length || embeds?.length) {
+    payloads[payloads.length - 1] = { ...payloads[payloads.length - 1], files, embeds };
   }
+  return payloads;
+}
 
-  return chunks;
+/**
+ * Edit a deferred interaction's reply to the first message and send the
+ * rest as follow-ups. Interaction webhooks authenticate with their token,
+ * not the bot token.
+ */
+export async function completeInteraction(
+  client: Client,
+  target: InteractionTarget,
+  payloads: ReplyPayload[]
+): Promise<void> {
+  const webhook = new InteractionWebhook(client as Client<true>, target.applicationId, target.token);
+  const [first, ...rest] = payloads;
+  await webhook.editMessage('@original', first);
+  for (const payload of rest) {
+    await webhook.send(payload);
+  }
 }
 
 /**
@@ -51,19 +75,31 @@ function splitMessage(text: string): string[] {
 function extractDiscordContext(
   msg: AMPMessage,
   threadStore: ThreadStore
-): { channelId: string; messageId?: string } | null {
+): { channelId: string; messageId?: string; threadChannelId?: string; interaction?: InteractionTarget } | null {
+  const stored = msg.envelope?.in_reply_to ? threadStore.get(msg.envelope.in_reply_to) : null;
+  // A reply to /ask completes the interaction until its token expires
+  const interaction =
+    stored?.interaction && stored.interaction.expiresAt > Date.now() ? stored.interaction : undefined;
+
   // 1. Direct discord context in payload
   const discordCtx = (msg.payload?.context as any)?.discord;
   if (discordCtx?.channelId) {
-    return { channelId: discordCtx.channelId, messageId: discordCtx.messageId };
+    return {
+      channelId: discordCtx.channelId,
+      messageId: discordCtx.messageId,
+      threadChannelId: discordCtx.threadChannelId ?? stored?.threadChannelId,
+      interaction,
+    };
   }
 
   // 2. Thread store lookup via in_reply_to
-  if (msg.envelope?.in_reply_to) {
-    const stored = threadStore.get(msg.envelope.in_reply_to);
-    if (stored) {
-      return { channelId: stored.channelId, messageId: stored.messageId };
-    }
+  if (stored) {
+    return {
+      channelId: stored.channelId,
+      messageId: stored.messageId,
+      threadChannelId: stored.threadChannelId,
+      interaction,
+    };
   }
 
   // 3. Alternative channel_reply format
@@ -76,165 +112,214 @@ function extractDiscordContext(
 }
 
 /**
- * Start the outbound filesystem poller.
+ * Send a notification back to the agent that sent a response via AMP route.
+ */
+async function sendConfirmation(
+  config: GatewayConfig,
+  toAddress: string,
+  subject: string,
+  message: string
+): Promise<void> {
+  const ampRequest: AMPRouteRequest = {
+    to: toAddress,
+    subject,
+    priority: 'low',
+    payload: {
+      type: 'notification',
+      message,
+    },
+  };
+
+  try {
+    await timeAmpRoute(() =>
+      fetch(`${config.amp.maestroUrl}/api/v1/route`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.amp.apiKey}`,
+        },
+        body: JSON.stringify(signRouteRequest(ampRequest, config.amp.agentAddress, config.signing)),
+        signal: AbortSignal.timeout(10000),
+      })
+    );
+  } catch (err) {
+    console.error('[OUTBOUND] Failed to send confirmation:', (err as Error).message);
+  }
+}
+
+/**
+ * Start the outbound inbox watcher.
+ * Failed sends are retried with backoff, then moved to the dead-letter store.
  */
 export function startOutboundPoller(
   config: GatewayConfig,
   client: Client,
-  threadStore: ThreadStore
+  threadStore: ThreadStore,
+  deadLetters: DeadLetterStore
 ): () => void {
-  let isPolling = false;
-  let pollTimeoutId: NodeJS.Timeout | null = null;
-
   function debug(message: string, ...args: unknown[]): void {
     if (config.debug) {
       console.log(`[DEBUG] ${message}`, ...args);
     }
   }
 
-  async function processMessageFile(filePath: string): Promise<boolean> {
-    try {
-      const raw = fs.readFileSync(filePath, 'utf-8');
-      const msg = JSON.parse(raw) as AMPMessage;
+  async function deliverMessage(msg: AMPMessage, filePath: string, attempt: DeliveryAttempt): Promise<DeliveryOutcome> {
+    const discordContext = extractDiscordContext(msg, threadStore);
+    if (!discordContext) {
+      console.log(`[OUTBOUND] No Discord context in ${path.basename(filePath)}`);
+      return { status: 'failed', error: 'No Discord context in message', permanent: true };
+    }
 
-      const discordContext = extractDiscordContext(msg, threadStore);
-      if (!discordContext) {
-        console.log(`[OUTBOUND] No Discord context in ${path.basename(filePath)}, skipping`);
-        return false;
+    const displayName = msg.envelope?.from?.split('@')[0] || 'Agent';
+    const agentAddress = msg.envelope?.from || path.basename(path.dirname(filePath));
+    const responseText = msg.payload?.message || '';
+    let message = typeof responseText === 'string' ? responseText : JSON.stringify(responseText);
+
+    const rich = await parseRichReply((msg.payload?.context as { discord?: unknown } | undefined)?.discord, config.attachments);
+    if ('errors' in rich) {
+      console.warn(`[OUTBOUND] Response from ${displayName} exceeds Discord limits: ${rich.errors.join('; ')}`);
+      logEvent('error', `Agent response not posted to Discord: ${displayName}`, {
+        from: displayName,
+        subject: msg.envelope?.subject || '',
+        ampMessageId: msg.envelope?.id,
+        error: rich.errors.join('; '),
+      });
+      await sendConfirmation(
+        config,
+        agentAddress,
+        'Discord reply not sent',
+        `Your reply could not be posted to Discord:\n${rich.errors.map((e) => `- ${e}`).join('\n')}`
+      );
+      return { status: 'failed', error: `Invalid Discord reply: ${rich.errors.join('; ')}`, permanent: true };
+    }
+    const { files, suppressPrefix } = rich.reply;
+    let textFields = embedFields(rich.reply.embeds);
+
+    // The text and embed texts are screened (and redacted); a hit in a text-like file holds the reply
+    if (!attempt.released) {
+      const details = {
+        from: displayName,
+        to: discordContext.channelId,
+        subject: msg.envelope?.subject || '',
+        ampMessageId: msg.envelope?.id,
+      };
+      const notify = (subject: string, text: string) => sendConfirmation(config, agentAddress, subject, text);
+      // Checked once per response, like the DLP screen: not again on a retry
+      if (!attempt.screened) {
+        reportWrapperLeaks([message, ...Object.values(textFields)].join('\n'), details);
+        const withheld = await screenReplyFiles(rich.reply.texts, { config: config.dlp, details, notify });
+        if (withheld) return withheld;
       }
+      const screened = await screenOutbound({
+        config: config.dlp,
+        fields: { ...textFields, message },
+        details,
+        notify,
+        attempt,
+      });
+      if (screened.status !== 'send') return screened;
+      ({ message, ...textFields } = screened.fields);
+    }
 
-      const displayName = msg.envelope?.from?.split('@')[0] || 'Agent';
-      const responseText = msg.payload?.message || '';
-      const fullResponse = `**[${displayName}]** ${
-        typeof responseText === 'string' ? responseText : JSON.stringify(responseText)
-      }`;
-
-      const channel = await client.channels.fetch(discordContext.channelId).catch(() => null);
-
-      if (channel && channel.isTextBased()) {
-        const textChannel = channel as TextChannel;
-        const chunks = splitMessage(fullResponse);
-
-        if (discordContext.messageId && chunks.length > 0) {
-          try {
-            const originalMessage = await textChannel.messages.fetch(discordContext.messageId).catch(() => null);
-            if (originalMessage) {
-              await originalMessage.reply(chunks[0]);
-              for (let i = 1; i < chunks.length; i++) {
-                await textChannel.send(chunks[i]);
-              }
-              await originalMessage.react('\u2705').catch(() => {});
-            } else {
-              for (const chunk of chunks) {
-                await textChannel.send(chunk);
-              }
-            }
-          } catch {
-            for (const chunk of chunks) {
-              await textChannel.send(chunk);
-            }
-          }
-        } else {
-          for (const chunk of chunks) {
-            await textChannel.send(chunk);
-          }
-        }
-
-        console.log(
-          `[-> Discord] Response from ${displayName} sent to ${discordContext.channelId}`
-        );
+    const embeds = buildEmbeds(rich.reply.embeds, textFields);
+    const hasContent = message.trim() !== '' || files.length > 0 || embeds.length > 0;
+    const fullResponse = suppressPrefix && hasContent ? message : `**[${displayName}]** ${message}`;
+    const payloads = buildPayloads(fullResponse, files, embeds, config.discord.chunkMarkers);
 
+    if (discordContext.interaction) {
+      try {
+        await completeInteraction(client, discordContext.interaction, payloads);
+        console.log(`[-> Discord] Response from ${displayName} completed /ask in ${discordContext.channelId}`);
         logEvent('outbound', `Agent response posted to Discord: ${displayName}`, {
           from: displayName,
           subject: msg.envelope?.subject || '',
           ampMessageId: msg.envelope?.id,
           deliveryStatus: 'delivered',
         });
-      } else {
-        console.log(`[OUTBOUND] Channel ${discordContext.channelId} not found or not text-based`);
+        debug(`Delivered message: ${filePath}`);
+        return { status: 'delivered' };
+      } catch (error) {
+        // Token revoked or interaction deleted: post to the channel instead
+        console.warn(`[OUTBOUND] Failed to complete interaction, posting to channel: ${(error as Error).message}`);
       }
-
-      // Delete processed message file
-      fs.unlinkSync(filePath);
-      debug(`Deleted processed message: ${filePath}`);
-
-      return true;
-    } catch (error) {
-      console.error(`[OUTBOUND] Failed to process ${filePath}:`, error);
-      logEvent('error', `Failed to process outbound message`, {
-        error: (error as Error).message,
-      });
-      return false;
     }
-  }
 
-  async function scanInbox(): Promise<boolean> {
-    if (isPolling) return false;
-    isPolling = true;
-    let foundMessages = false;
+    // Thread mode: post in the conversation thread (the original message is its starter, in the parent),
+    // or in the channel when the thread could not be started
+    const thread = discordContext.threadChannelId
+      ? await client.channels.fetch(discordContext.threadChannelId).catch(() => null)
+      : null;
+    const targetId = thread ? thread.id : discordContext.channelId;
+    const channel = thread ?? (await client.channels.fetch(targetId).catch(() => null));
+
+    if (!channel || !channel.isTextBased()) {
+      console.log(`[OUTBOUND] Channel ${targetId} not found or not text-based`);
+      return {
+        status: 'failed',
+        error: `Channel ${targetId} not found or not text-based`,
+        permanent: true,
+      };
+    }
 
-    try {
-      const inboxDir = config.amp.inboxDir;
+    const textChannel = channel as TextChannel;
 
-      if (!fs.existsSync(inboxDir)) {
-        debug(`Inbox directory does not exist: ${inboxDir}`);
-        return false;
-      }
-
-      const entries = fs.readdirSync(inboxDir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        if (!entry.isDirectory()) continue;
-
-        const senderDir = path.join(inboxDir, entry.name);
-        let files: string[];
-
-        try {
-          files = fs.readdirSync(senderDir).filter((f) => f.endsWith('.json'));
-        } catch {
-          continue;
-        }
-
-        for (const file of files) {
-          const filePath = path.join(senderDir, file);
-          const processed = await processMessageFile(filePath);
-          if (processed) foundMessages = true;
-        }
-
-        // Clean up empty sender directories
-        try {
-          const remaining = fs.readdirSync(senderDir);
-          if (remaining.length === 0) {
-            fs.rmdirSync(senderDir);
-            debug(`Cleaned empty sender dir: ${entry.name}`);
-          }
-        } catch {
-          // Ignore cleanup errors
-        }
-      }
-    } catch (error) {
-      debug('Inbox scan error:', error);
-    } finally {
-      isPolling = false;
+    if (channel.isThread() && channel.archived) {
+      await channel.setArchived(false).catch(() => {});
     }
 
-    return foundMessages;
+    // Payloads posted by an earlier attempt are not posted again
+    const originalMessage =
+      discordContext.messageId && targetId === discordContext.channelId
+        ? await textChannel.messages.fetch(discordContext.messageId).catch(() => null)
+        : null;
+    await sendParts(payloads, attempt, async (payload, index) => {
+      if (index === 0 && originalMessage) {
+        await originalMessage.reply(payload).catch(() => textChannel.send(payload));
+      } else {
+        await textChannel.send(payload);
+      }
+    });
+    await originalMessage?.react('\u2705').catch(() => {});
+
+    console.log(
+      `[-> Discord] Response from ${displayName} sent to ${targetId}`
+    );
+
+    logEvent('outbound', `Agent response posted to Discord: ${displayName}`, {
+      from: displayName,
+      subject: msg.envelope?.subject || '',
+      ampMessageId: msg.envelope?.id,
+      deliveryStatus: 'delivered',
+    });
+
+    debug(`Delivered message: ${filePath}`);
+    return { status: 'delivered' };
   }
 
-  const poll = async () => {
-    await scanInbox();
-    pollTimeoutId = setTimeout(poll, config.polling.intervalMs);
-  };
-
-  poll();
-  console.log(`[OUTBOUND] Filesystem polling started at ${config.polling.intervalMs}ms`);
+  const delivery = createOutboundDelivery({
+    config: config.delivery,
+    deadLetters,
+    verifier: new SignatureVerifier({
+      maestroUrl: config.amp.maestroUrl,
+      apiKey: config.amp.apiKey,
+      config: config.verification,
+    }),
+    deliver: deliverMessage,
+  });
+
+  const stopWatcher = startInboxWatcher({
+    inboxDir: config.amp.inboxDir,
+    rescanIntervalMs: config.polling.intervalMs,
+    debug,
+    onMessage: delivery.handleFile,
+  });
+  console.log(`[OUTBOUND] Watching inbox (rescan every ${config.polling.intervalMs}ms)`);
   console.log(`[OUTBOUND] Inbox: ${config.amp.inboxDir}`);
+  console.log(`[OUTBOUND] Dead letters: ${config.delivery.deadLetterDir}`);
 
   return () => {
-    if (pollTimeoutId) {
-      clearTimeout(pollTimeoutId);
-      pollTimeoutId = null;
-    }
-    console.log('[OUTBOUND] Poller stopped');
+    stopWatcher();
+    delivery.stop();
+    console.log('[OUTBOUND] Inbox watcher stopped');
   };
 }
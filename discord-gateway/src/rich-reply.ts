@@ -0,0 +1,278 @@
+/**
+ * Discord Gateway - Rich Agent Replies
+ *
+ * Besides text, an agent response can carry files and embeds in its
+ * `context.discord`:
+ *
+ *   attachments: [{ name, base64 } | { name, path }, ...]
+ *   embeds:      [{ title, description, url, colour (0xRRGGBB or "#rrggbb"),
+ *                   fields: [{ name, value, inline }], footer }, ...]
+ *   suppressPrefix: true   -> post without the "**[agent]**" prefix
+ *
+ * Files given by path must lie in one of OUTBOUND_ATTACHMENT_DIRS (the
+ * inbound attachments directory by default), outside any quarantine
+ * folder, so a response cannot post arbitrary files from the gateway host.
+ * Entries an agent echoes from the inbound context with a `skipped`
+ * reason are ignored. Everything is checked against Discord's limits
+ * before sending; a response that does not fit is not sent and the agent
+ * is told why. Text-like files (by extension, as for inbound attachments)
+ * are screened for canaries, wrapper markers and secrets like the text;
+ * since a file cannot be redacted, a hit holds the whole reply.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AttachmentBuilder, EmbedBuilder, type BaseMessageOptions } from 'discord.js';
+import {
+  reportWrapperLeaks,
+  screenOutbound,
+  type DlpScreenOptions,
+  type DlpScreenResult,
+} from '@aimaestro/gateway-core';
+import type { GatewayConfig } from './types.js';
+import { attachmentTexts, type DownloadedAttachment } from './attachments.js';
+
+/** Content, files and embeds of one Discord message */
+export type ReplyPayload = Pick<BaseMessageOptions, 'content' | 'files' | 'embeds'>;
+
+export interface AgentAttachment {
+  name?: string;
+  base64?: string;
+  path?: string;
+  description?: string;
+}
+
+export interface AgentEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+  colour?: number | string;
+  color?: number | string;
+  fields?: Array<{ name?: string; value?: string; inline?: boolean }>;
+  footer?: string;
+}
+
+export interface RichReply {
+  files: AttachmentBuilder[];
+  /** Text of the text-like files, for screenReplyFiles */
+  texts: Array<{ name: string; text: string }>;
+  embeds: AgentEmbed[];
+  suppressPrefix: boolean;
+}
+
+/** Discord's limits for bot messages */
+const MAX_FILES = 10;
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_EMBEDS = 10;
+const MAX_EMBED_TOTAL_CHARS = 6000;
+const MAX_TITLE = 256;
+const MAX_DESCRIPTION = 4096;
+const MAX_FIELDS = 25;
+const MAX_FIELD_NAME = 256;
+const MAX_FIELD_VALUE = 1024;
+const MAX_FOOTER = 2048;
+
+/**
+ * Read and validate the files and embeds of an agent response. Returns
+ * the problems found instead when anything exceeds Discord's limits or a
+ * file cannot be used.
+ */
+export async function parseRichReply(
+  discordCtx: unknown,
+  limits: GatewayConfig['attachments']
+): Promise<{ reply: RichReply } | { errors: string[] }> {
+  const ctx = (discordCtx ?? {}) as { attachments?: unknown; embeds?: unknown; suppressPrefix?: unknown };
+  const attachments = Array.isArray(ctx.attachments)
+    ? (ctx.attachments as Array<AgentAttachment & { skipped?: string }>).filter((a) => !a?.skipped)
+    : [];
+  const embeds = Array.isArray(ctx.embeds) ? (ctx.embeds as AgentEmbed[]) : [];
+  const errors: string[] = [];
+
+  if (attachments.length > MAX_FILES) errors.push(`${attachments.length} attachments, at most ${MAX_FILES} allowed`);
+  const files: LoadedFile[] = [];
+  for (const [i, attachment] of attachments.slice(0, MAX_FILES).entries()) {
+    const result = await loadAttachment(attachment, limits.outboundDirs);
+    if (typeof result === 'string') errors.push(`attachment ${i + 1}: ${result}`);
+    else files.push(result);
+  }
+
+  if (embeds.length > MAX_EMBEDS) errors.push(`${embeds.length} embeds, at most ${MAX_EMBEDS} allowed`);
+  let totalChars = 0;
+  for (const [i, embed] of embeds.entries()) {
+    const problems = validateEmbed(embed);
+    errors.push(...problems.map((p) => `embed ${i + 1}: ${p}`));
+    totalChars += embedTexts(embed).reduce((sum, text) => sum + text.length, 0);
+  }
+  if (totalChars > MAX_EMBED_TOTAL_CHARS) {
+    errors.push(`embeds have ${totalChars} characters, at most ${MAX_EMBED_TOTAL_CHARS} allowed`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    reply: {
+      files: files.map((file) => {
+        const builder = new AttachmentBuilder(file.content, { name: file.name });
+        if (file.description) builder.setDescription(file.description);
+        return builder;
+      }),
+      texts: attachmentTexts(files),
+      embeds,
+      suppressPrefix: ctx.suppressPrefix === true,
+    },
+  };
+}
+
+type LoadedFile = DownloadedAttachment & { description?: string };
+
+async function loadAttachment(attachment: AgentAttachment, allowedDirs: string[]): Promise<LoadedFile | string> {
+  if (!attachment || typeof attachment !== 'object') return 'must be an object';
+
+  let content: Buffer;
+  let name = attachment.name;
+  if (typeof attachment.base64 === 'string') {
+    content = Buffer.from(attachment.base64, 'base64');
+  } else if (typeof attachment.path === 'string') {
+    let realPath: string;
+    try {
+      realPath = await fs.promises.realpath(attachment.path);
+    } catch {
+      return `file ${attachment.path} not found`;
+    }
+    if (!(await isInside(realPath, allowedDirs))) {
+      return `file ${attachment.path} is outside the allowed attachment directories`;
+    }
+    if (realPath.split(path.sep).includes('quarantine')) return `file ${attachment.path} is quarantined`;
+    const stat = await fs.promises.stat(realPath);
+    if (!stat.isFile()) return `${attachment.path} is not a file`;
+    if (stat.size > MAX_FILE_BYTES) return `${stat.size} bytes, at most ${MAX_FILE_BYTES} allowed`;
+    content = await fs.promises.readFile(realPath);
+    name = name || path.basename(realPath);
+  } else {
+    return 'needs base64 content or a path';
+  }
+
+  if (!name) return 'needs a name';
+  if (content.length > MAX_FILE_BYTES) return `${content.length} bytes, at most ${MAX_FILE_BYTES} allowed`;
+
+  // No MIME type is given; text-like files are told by their extension
+  return { name, type: 'application/octet-stream', size: content.length, content, description: attachment.description };
+}
+
+async function isInside(realPath: string, dirs: string[]): Promise<boolean> {
+  for (const dir of dirs) {
+    const realDir = await fs.promises.realpath(dir).catch(() => null);
+    if (realDir && realPath.startsWith(realDir + path.sep)) return true;
+  }
+  return false;
+}
+
+/**
+ * Screen the text-like files of a reply before it is sent. Leaked canaries
+ * or wrapper markers hold the reply, and so do DLP findings under the
+ * redact action (a hold or block action applies as configured). Returns
+ * null when the files may be sent.
+ */
+export async function screenReplyFiles(
+  texts: RichReply['texts'],
+  options: Omit<DlpScreenOptions<Record<string, string>>, 'fields' | 'attempt'>
+): Promise<Exclude<DlpScreenResult<unknown>, { status: 'send' }> | null> {
+  const leaking = texts.filter((file) => reportWrapperLeaks(file.text, options.details).length > 0);
+  if (leaking.length > 0) {
+    return { status: 'held', reason: `Wrapper leak in ${leaking.map((file) => file.name).join(', ')}` };
+  }
+
+  const { config } = options;
+  const screened = await screenOutbound({
+    ...options,
+    config: { ...config, action: config.action === 'redact' ? 'hold' : config.action },
+    fields: Object.fromEntries(texts.map((file, i) => [`file${i}`, file.text])),
+  });
+  return screened.status === 'send' ? null : screened;
+}
+
+function validateEmbed(embed: AgentEmbed): string[] {
+  const problems: string[] = [];
+  const tooLong = (label: string, value: string | undefined, max: number) => {
+    if (value !== undefined && typeof value !== 'string') problems.push(`${label} must be text`);
+    else if (value && value.length > max) problems.push(`${label} has ${value.length} characters, at most ${max} allowed`);
+  };
+
+  if (!embed || typeof embed !== 'object') return ['must be an object'];
+  tooLong('title', embed.title, MAX_TITLE);
+  tooLong('description', embed.description, MAX_DESCRIPTION);
+  tooLong('footer', embed.footer, MAX_FOOTER);
+  if (!embed.title && !embed.description && !embed.fields?.length) problems.push('needs a title, description or fields');
+  if (embed.url !== undefined && !/^https?:\/\//.test(String(embed.url))) problems.push('url must be http(s)');
+  if (embedColour(embed) === null) problems.push('colour must be 0xRRGGBB or "#rrggbb"');
+
+  const fields = embed.fields ?? [];
+  if (!Array.isArray(fields)) return [...problems, 'fields must be a list'];
+  if (fields.length > MAX_FIELDS) problems.push(`${fields.length} fields, at most ${MAX_FIELDS} allowed`);
+  for (const [i, field] of fields.entries()) {
+    if (!field?.name || !field?.value) problems.push(`field ${i + 1} needs a name and a value`);
+    tooLong(`field ${i + 1} name`, field?.name, MAX_FIELD_NAME);
+    tooLong(`field ${i + 1} value`, field?.value, MAX_FIELD_VALUE);
+  }
+  return problems;
+}
+
+/** The embed's colour as a number, undefined when unset, null when invalid */
+function embedColour(embed: AgentEmbed): number | undefined | null {
+  const colour = embed.colour ?? embed.color;
+  if (colour === undefined) return undefined;
+  if (typeof colour === 'number') return Number.isInteger(colour) && colour >= 0 && colour <= 0xffffff ? colour : null;
+  if (typeof colour !== 'string') return null;
+  const match = /^#?([0-9a-f]{6})$/i.exec(colour);
+  return match ? parseInt(match[1], 16) : null;
+}
+
+/** Every text of an embed (for the character limit) */
+function embedTexts(embed: AgentEmbed): string[] {
+  return [
+    embed.title,
+    embed.description,
+    embed.footer,
+    ...(Array.isArray(embed.fields) ? embed.fields : []).flatMap((f) => [f?.name, f?.value]),
+  ].filter((t): t is string => typeof t === 'string');
+}
+
+/**
+ * Embed texts keyed for the outbound screen ("embed0.title",
+ * "embed0.field1.value", ...).
+ */
+export function embedFields(embeds: AgentEmbed[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  embeds.forEach((embed, i) => {
+    if (embed.title) fields[`embed${i}.title`] = embed.title;
+    if (embed.description) fields[`embed${i}.description`] = embed.description;
+    if (embed.footer) fields[`embed${i}.footer`] = embed.footer;
+    (embed.fields ?? []).forEach((field, j) => {
+      fields[`embed${i}.field${j}.name`] = field.name ?? '';
+      fields[`embed${i}.field${j}.value`] = field.value ?? '';
+    });
+  });
+  return fields;
+}
+
+/**
+ * Build the embeds, taking their texts from `fields` (as screened) when
+ * given.
+ */
+export function buildEmbeds(embeds: AgentEmbed[], fields: Record<string, string> = embedFields(embeds)): EmbedBuilder[] {
+  return embeds.map((embed, i) => {
+    const builder = new EmbedBuilder();
+    if (embed.title) builder.setTitle(fields[`embed${i}.title`]);
+    if (embed.description) builder.setDescription(fields[`embed${i}.description`]);
+    if (embed.footer) builder.setFooter({ text: fields[`embed${i}.footer`] });
+    if (embed.url) builder.setURL(embed.url);
+    const colour = embedColour(embed);
+    if (typeof colour === 'number') builder.setColor(colour);
+    const embedFieldList = (embed.fields ?? []).map((field, j) => ({
+      name: fields[`embed${i}.field${j}.name`],
+      value: fields[`embed${i}.field${j}.value`],
+      inline: field.inline === true,
+    }));
+    if (embedFieldList.length > 0) builder.addFields(embedFieldList);
+    return builder;
+  });
+}
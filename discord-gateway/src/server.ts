@@ -10,15 +10,36 @@ import * as path from 'path';
 import { timingSafeEqual } from 'crypto';
 import express, { Request, Response, NextFunction } from 'express';
 import { Client, GatewayIntentBits, Partials } from 'discord.js';
+import {
+  DeadLetterStore,
+  configureActivityLog,
+  configureMetrics,
+  configureScanner,
+  configureCanaries,
+  configureConversationWindow,
+  configureTrustTiers,
+  configureRouteAuthorization,
+  checkSigningKey,
+  registerGauge,
+  renderMetrics,
+  countInboxFiles,
+  getInjectionRules,
+  watchInjectionRules,
+  METRICS_CONTENT_TYPE,
+} from '@aimaestro/gateway-core';
 import { loadConfig } from './config.js';
-import { loadSecurityConfig, type SecurityConfig } from './content-security.js';
+import { loadSecurityConfig, loadOperatorNames, type SecurityConfig } from './content-security.js';
 import { createAgentResolver } from './agent-resolver.js';
 import { ThreadStore } from './thread-store.js';
-import { registerInboundHandlers } from './inbound.js';
+import { registerInboundHandlers, createInboundRouteQueue, createInboundReviewQueue } from './inbound.js';
 import { startOutboundPoller } from './outbound.js';
+import { registerCommandHandlers, registerSlashCommands } from './commands.js';
 import { createConfigRouter } from './api/config-api.js';
 import { createActivityRouter } from './api/activity-api.js';
 import { createStatsRouter } from './api/stats-api.js';
+import { createDeadLetterRouter } from './api/dead-letter-api.js';
+import { createSecurityRulesRouter } from './api/security-rules-api.js';
+import { createReviewRouter } from './api/review-api.js';
 import type { GatewayConfig } from './types.js';
 
 function authMiddleware(adminToken: string) {
@@ -48,6 +69,25 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Persist activity events (JSONL by default) before anything else logs
+  configureActivityLog(config.activity);
+  configureMetrics({ gateway: 'discord-gateway' });
+  configureScanner(config.scanner);
+  configureCanaries(config.canary);
+  configureConversationWindow(config.conversation);
+  configureTrustTiers(config.trustTiers);
+  configureRouteAuthorization(config.routeAuthorization);
+
+  // Injection rules: the rules file if present (reloaded on change), else built-in
+  let stopRulesWatcher: () => void;
+  try {
+    stopRulesWatcher = watchInjectionRules(config.injectionRules);
+  } catch (err) {
+    console.error('[FATAL] Failed to load injection rules:', (err as Error).message);
+    process.exit(1);
+  }
+  const ruleSet = getInjectionRules();
+
   console.log('========================================');
   console.log('AI Maestro - Discord Gateway (AMP)');
   console.log('========================================');
@@ -58,8 +98,15 @@ async function main(): Promise<void> {
   console.log(`Maestro: ${config.amp.maestroUrl}`);
   console.log(`Inbox: ${config.amp.inboxDir}`);
   console.log(`Poll interval: ${config.polling.intervalMs}ms`);
-  console.log(`Security: ${securityConfig.operatorDiscordIds.length} operator Discord ID(s) whitelisted`);
+  console.log(`Route queue: ${config.routeQueue.dir}`);
+  console.log(`Review queue: ${config.review.dir}`);
+  console.log(`Signing: ${checkSigningKey(config.signing) ? config.signing.privateKeyPath : config.signing.enabled ? 'key unavailable, unsigned' : 'off'}`);
+  console.log(`Security: ${securityConfig.operatorDiscordIds.length} operator Discord ID(s) whitelisted, ${securityConfig.teamRoleIds?.length ?? 0} team / ${securityConfig.partnerRoleIds?.length ?? 0} partner role(s)`);
+  console.log(`Injection rules: ${ruleSet.rules.length} (${ruleSet.source === 'file' ? ruleSet.file : 'built-in'})`);
+  console.log(`Language packs: ${ruleSet.languages.length > 0 ? ruleSet.languages.join(', ') : 'none'}`);
+  console.log(`Thread mode: ${config.discord.threadMode ? 'on' : 'off'}`);
   console.log(`Debug: ${config.debug}`);
+  console.log(`Activity log: ${config.activity.store === 'jsonl' ? config.activity.dir : 'memory'}`);
 
   // Create Discord.js client
   const client = new Client({
@@ -85,20 +132,46 @@ async function main(): Promise<void> {
   threadStore.load(threadStorePath);
   threadStore.startCleanup(60000);
 
+  // Queue inbound messages locally while AI Maestro is unreachable
+  const routeQueue = createInboundRouteQueue(config, client, threadStore);
+
+  // Hold messages the risk policy flags for operator review
+  const reviewQueue = createInboundReviewQueue(config, client, routeQueue);
+
   // Register Discord event handlers
-  registerInboundHandlers(client, config, resolver, securityConfig, threadStore);
+  registerInboundHandlers(client, config, resolver, () => securityConfig, routeQueue, reviewQueue, threadStore);
+  registerCommandHandlers(client, config, resolver, () => securityConfig, routeQueue, reviewQueue, threadStore);
 
   // Discord ready event
   client.once('ready', () => {
     console.log(`Connected to Discord as ${client.user?.tag}`);
     console.log(`  Serving ${client.guilds.cache.size} guild(s)`);
+    // Operator names, so look-alike display names can be flagged
+    loadOperatorNames(client, securityConfig).catch(() => {});
+    registerSlashCommands(client, config);
   });
 
   // Login to Discord
   await client.login(config.discord.botToken);
 
   // Start polling AMP inbox for agent responses
-  const stopPoller = startOutboundPoller(config, client, threadStore);
+  const deadLetters = new DeadLetterStore(config.delivery.deadLetterDir, config.amp.inboxDir);
+  const stopPoller = startOutboundPoller(config, client, threadStore, deadLetters);
+
+  registerGauge('gateway_thread_store_size', 'Discord contexts kept for routing agent replies', () => threadStore.size());
+  registerGauge('gateway_inbox_backlog', 'Outbound message files waiting in the AMP inbox', () =>
+    countInboxFiles(config.amp.inboxDir)
+  );
+  registerGauge('gateway_route_queue_size', 'Inbound messages queued while AI Maestro is unreachable', () =>
+    routeQueue.size()
+  );
+  registerGauge('gateway_review_queue_size', 'Inbound messages held for operator review', () => reviewQueue.size());
+  registerGauge('gateway_maestro_circuit_open', 'Whether routing to AI Maestro is paused (1) or not (0)', () =>
+    routeQueue.circuitState() === 'open' ? 1 : 0
+  );
+  registerGauge('gateway_platform_connected', 'Whether the Discord client is connected (1) or not (0)', () =>
+    client.isReady() ? 1 : 0
+  );
 
   // Express server for health checks and management APIs
   const httpApp = express();
@@ -118,12 +191,19 @@ async function main(): Promise<void> {
         agent: config.amp.agentAddress,
         maestro: config.amp.maestroUrl,
         tenant: config.amp.tenant,
+        circuit: routeQueue.circuitState(),
+        queued: routeQueue.size(),
       },
       threads: threadStore.size(),
       timestamp: new Date().toISOString(),
     });
   });
 
+  // Prometheus scrape endpoint (unauthenticated like /health; the server binds to localhost)
+  httpApp.get('/metrics', (_req, res) => {
+    res.set('Content-Type', METRICS_CONTENT_TYPE).send(renderMetrics());
+  });
+
   httpApp.use('/api', authMiddleware(config.adminToken));
 
   httpApp.use(
@@ -133,12 +213,16 @@ async function main(): Promise<void> {
       () => securityConfig,
       (newConfig) => {
         securityConfig = newConfig;
+        loadOperatorNames(client, newConfig).catch(() => {});
       },
       config.adminToken
     )
   );
 
   httpApp.use('/api/activity', createActivityRouter());
+  httpApp.use('/api/dead-letters', createDeadLetterRouter(deadLetters, config.adminToken));
+  httpApp.use('/api/security', createSecurityRulesRouter(config.injectionRules, config.adminToken));
+  httpApp.use('/api/review', createReviewRouter(reviewQueue, config.adminToken));
 
   httpApp.use(
     '/api/stats',
@@ -155,13 +239,18 @@ async function main(): Promise<void> {
   console.log('');
   console.log('Endpoints:');
   console.log('  GET  /health        - Health check');
+  console.log('  GET  /metrics       - Prometheus metrics');
   console.log('  GET  /api/config    - Gateway config');
   console.log('  GET  /api/stats     - Gateway metrics');
   console.log('  GET  /api/activity  - Activity log');
+  console.log('  GET  /api/dead-letters - Undelivered outbound messages');
+  console.log('  GET  /api/security/rules - Injection rules (PUT to replace)');
+  console.log('  GET  /api/review    - Messages held for review');
   console.log('========================================');
   console.log('');
   console.log('Gateway ready! (AMP Protocol)');
   console.log('  - DM the bot or @mention in channels');
+  console.log('  - Slash commands: /ask, /agents, /status');
   console.log('  - Use @AIM:agent-name to route to specific agents');
   console.log('  - Messages routed via AMP protocol');
   console.log('  - Responses delivered via filesystem inbox');
@@ -175,6 +264,8 @@ async function main(): Promise<void> {
     console.log(`\n[SHUTDOWN] Received ${signal}, shutting down...`);
 
     stopPoller();
+    stopRulesWatcher();
+    routeQueue.stop();
     threadStore.stopCleanup();
     threadStore.save(threadStorePath);
     console.log('[SHUTDOWN] Thread store saved');
@@ -3,6 +3,10 @@
  *
  * Maps AMP message IDs to Discord channel context so agent replies
  * can be routed back to the correct Discord channel and message.
+ *
+ * In thread mode it also remembers which agent each Discord thread talks
+ * to, so messages in the thread reach it without another @mention. A
+ * thread is forgotten once it has been quiet for the TTL.
  */
 
 import * as fs from 'fs';
@@ -10,8 +14,15 @@ import type { ThreadContext } from './types.js';
 
 const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
+/** The agent a Discord thread talks to */
+interface ThreadAgent {
+  agent: string;
+  lastActiveAt: number;
+}
+
 export class ThreadStore {
   private store = new Map<string, ThreadContext>();
+  private threadAgents = new Map<string, ThreadAgent>();
   private cleanupIntervalId: ReturnType<typeof setInterval> | null = null;
   private ttlMs: number;
 
@@ -48,6 +59,28 @@ export class ThreadStore {
     return undefined;
   }
 
+  /**
+   * Remember (or refresh) the agent a Discord thread talks to.
+   */
+  setThreadAgent(threadChannelId: string, agent: string): void {
+    this.threadAgents.set(threadChannelId, { agent, lastActiveAt: Date.now() });
+  }
+
+  /**
+   * The agent a Discord thread talks to, if it has been active within the TTL.
+   */
+  getThreadAgent(threadChannelId: string): string | undefined {
+    const entry = this.threadAgents.get(threadChannelId);
+    if (!entry) return undefined;
+
+    if (Date.now() - entry.lastActiveAt > this.ttlMs) {
+      this.threadAgents.delete(threadChannelId);
+      return undefined;
+    }
+
+    return entry.agent;
+  }
+
   cleanup(): void {
     const now = Date.now();
     for (const [key, ctx] of this.store) {
@@ -55,6 +88,11 @@ export class ThreadStore {
         this.store.delete(key);
       }
     }
+    for (const [key, entry] of this.threadAgents) {
+      if (now - entry.lastActiveAt > this.ttlMs) {
+        this.threadAgents.delete(key);
+      }
+    }
   }
 
   startCleanup(intervalMs: number = 60000): void {
@@ -75,10 +113,11 @@ export class ThreadStore {
 
   clear(): void {
     this.store.clear();
+    this.threadAgents.clear();
   }
 
   save(filePath: string): void {
-    const data = Object.fromEntries(this.store);
+    const data = { contexts: Object.fromEntries(this.store), threadAgents: Object.fromEntries(this.threadAgents) };
     try {
       fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
     } catch (err) {
@@ -90,14 +129,22 @@ export class ThreadStore {
     try {
       if (!fs.existsSync(filePath)) return;
       const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      // Files written before thread mode hold the contexts only
+      const contexts = data.contexts && typeof data.contexts === 'object' ? data.contexts : data;
       const now = Date.now();
-      for (const [key, ctx] of Object.entries(data)) {
+      for (const [key, ctx] of Object.entries(contexts)) {
         const context = ctx as ThreadContext;
         if (now - context.createdAt < this.ttlMs) {
           this.store.set(key, context);
         }
       }
-      console.log(`[ThreadStore] Loaded ${this.store.size} thread(s) from ${filePath}`);
+      for (const [key, value] of Object.entries(data.threadAgents ?? {})) {
+        const entry = value as ThreadAgent;
+        if (now - entry.lastActiveAt < this.ttlMs) {
+          this.threadAgents.set(key, entry);
+        }
+      }
+      console.log(`[ThreadStore] Loaded ${this.store.size} thread(s) and ${this.threadAgents.size} conversation thread(s) from ${filePath}`);
     } catch (err) {
       console.error('[ThreadStore] Failed to load:', err);
     }
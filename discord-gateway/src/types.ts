@@ -2,6 +2,23 @@
  * Discord Gateway - Type Definitions (AMP Protocol)
  */
 
+import type {
+  DeliveryConfig,
+  ActivityLogConfig,
+  RouteQueueConfig,
+  SigningConfig,
+  VerificationConfig,
+  InjectionRulesConfig,
+  ScannerConfig,
+  CanaryConfig,
+  ConversationWindowConfig,
+  RiskPolicyConfig,
+  TrustTierConfig,
+  RouteAuthorizationConfig,
+  ReviewQueueConfig,
+  DlpConfig,
+} from '@aimaestro/gateway-core';
+
 // ---------------------------------------------------------------------------
 // Gateway Configuration
 // ---------------------------------------------------------------------------
@@ -10,6 +27,12 @@ export interface GatewayConfig {
   port: number;
   discord: {
     botToken: string;
+    /** Guilds that get the slash commands directly; global registration when empty */
+    commandGuildIds: string[];
+    /** Start a Discord thread for each @mention in a guild channel and reply there */
+    threadMode: boolean;
+    /** End each part of a split response with a "(1/3)" marker */
+    chunkMarkers: boolean;
   };
   amp: {
     apiKey: string;
@@ -27,6 +50,30 @@ export interface GatewayConfig {
     intervalMs: number;
     timeoutMs: number;
   };
+  delivery: DeliveryConfig;
+  routeQueue: RouteQueueConfig;
+  signing: SigningConfig;
+  verification: VerificationConfig;
+  injectionRules: InjectionRulesConfig;
+  scanner: ScannerConfig;
+  canary: CanaryConfig;
+  conversation: ConversationWindowConfig;
+  riskPolicy: RiskPolicyConfig;
+  trustTiers: TrustTierConfig;
+  routeAuthorization: RouteAuthorizationConfig;
+  review: ReviewQueueConfig;
+  attachments: {
+    /** Root of the per-agent attachment folders (inbox/ and quarantine/) */
+    dir: string;
+    /** Larger attachments are skipped */
+    maxBytes: number;
+    /** MIME types that are downloaded ("image/*" matches a family); others are skipped */
+    allowedTypes: string[];
+    /** Directories agents may attach files from by path in their replies */
+    outboundDirs: string[];
+  };
+  dlp: DlpConfig;
+  activity: ActivityLogConfig;
   debug: boolean;
   adminToken: string;
 }
@@ -35,61 +82,14 @@ export interface GatewayConfig {
 // AMP Protocol Types
 // ---------------------------------------------------------------------------
 
-export interface AMPEnvelope {
-  version: string;
-  id: string;
-  from: string;
-  to: string;
-  subject: string;
-  priority: 'urgent' | 'high' | 'normal' | 'low';
-  timestamp: string;
-  signature: string | null;
-  in_reply_to?: string | null;
-  thread_id?: string;
-  expires_at?: string | null;
-}
-
-export interface AMPPayload {
-  type: string;
-  message: string;
-  context?: Record<string, unknown> | null;
-}
-
-export interface AMPMessage {
-  envelope: AMPEnvelope;
-  payload: AMPPayload;
-  metadata?: {
-    status?: string;
-    queued_at?: string;
-    delivery_attempts?: number;
-  };
-  local?: {
-    received_at?: string;
-    delivery_method?: string;
-    status?: string;
-  };
-}
-
-export interface AMPRouteRequest {
-  to: string;
-  subject: string;
-  priority?: 'urgent' | 'high' | 'normal' | 'low';
-  in_reply_to?: string | null;
-  payload: {
-    type: string;
-    message: string;
-    context?: Record<string, unknown>;
-  };
-}
-
-export interface AMPRouteResponse {
-  id: string;
-  status: 'delivered' | 'queued' | 'failed';
-  method?: string;
-  delivered_at?: string;
-  error?: string;
-  message?: string;
-}
+export type {
+  AMPPriority,
+  AMPEnvelope,
+  AMPPayload,
+  AMPMessage,
+  AMPRouteRequest,
+  AMPRouteResponse,
+} from '@aimaestro/gateway-core';
 
 // ---------------------------------------------------------------------------
 // Thread Context (maps AMP message IDs to Discord channels)
@@ -102,6 +102,18 @@ export interface ThreadContext {
   userName: string;
   ampMessageId: string;
   createdAt: number;
+  /** Discord thread the conversation continues in (thread mode); replies are posted there */
+  threadChannelId?: string;
+  /** Set for /ask: the reply completes the deferred interaction */
+  interaction?: InteractionTarget;
+}
+
+/** A deferred slash command reply, completed by the outbound poller */
+export interface InteractionTarget {
+  applicationId: string;
+  token: string;
+  /** Interaction tokens stop working 15 minutes after the command */
+  expiresAt: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -107,6 +107,8 @@ export function createConfigRouter(
     const secConfig = getSecurityConfig();
     res.json({
       operatorEmails: secConfig.operatorEmails,
+      teamDomains: secConfig.teamDomains ?? [],
+      partnerDomains: secConfig.partnerDomains ?? [],
     });
   });
 
@@ -116,12 +118,21 @@ export function createConfigRouter(
     }
 
     const { operatorEmails } = req.body;
+    const current = getSecurityConfig();
+    const teamDomains = req.body.teamDomains ?? current.teamDomains ?? [];
+    const partnerDomains = req.body.partnerDomains ?? current.partnerDomains ?? [];
 
     if (!Array.isArray(operatorEmails)) {
       return res.status(400).json({ error: 'operatorEmails must be an array' });
     }
+    if (!Array.isArray(teamDomains) || !Array.isArray(partnerDomains)) {
+      return res.status(400).json({ error: 'teamDomains and partnerDomains must be arrays' });
+    }
 
-    const normalized = operatorEmails.map((e: string) => e.trim().toLowerCase()).filter(Boolean);
+    const normalize = (values: string[]) => values.map((e: string) => String(e).trim().toLowerCase()).filter(Boolean);
+    const normalized = normalize(operatorEmails);
+    const teamNormalized = normalize(teamDomains);
+    const partnerNormalized = normalize(partnerDomains);
 
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     const invalidEmails = normalized.filter((e: string) => !emailRegex.test(e));
@@ -129,12 +140,24 @@ export function createConfigRouter(
       return res.status(400).json({ error: `Invalid email address(es): ${invalidEmails.join(', ')}` });
     }
 
-    const newSecConfig: SecurityConfig = { operatorEmails: normalized };
+    const domainRegex = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+    const invalidDomains = [...teamNormalized, ...partnerNormalized].filter((d: string) => !domainRegex.test(d));
+    if (invalidDomains.length > 0) {
+      return res.status(400).json({ error: `Invalid domain(s): ${invalidDomains.join(', ')}` });
+    }
+
+    const newSecConfig: SecurityConfig = {
+      operatorEmails: normalized,
+      teamDomains: teamNormalized,
+      partnerDomains: partnerNormalized,
+    };
     updateSecurityConfig(newSecConfig);
 
     await updateEnvVariable('OPERATOR_EMAILS', normalized.join(','));
+    await updateEnvVariable('TEAM_EMAIL_DOMAINS', teamNormalized.join(','));
+    await updateEnvVariable('PARTNER_EMAIL_DOMAINS', partnerNormalized.join(','));
 
-    res.json({ ok: true, operatorEmails: normalized });
+    res.json({ ok: true, operatorEmails: normalized, teamDomains: teamNormalized, partnerDomains: partnerNormalized });
   });
 
   router.get('/outbound', async (req: Request, res: Response) => {
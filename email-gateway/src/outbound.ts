@@ -1,7 +1,7 @@
 /**
- * Outbound Email - Mandrill Send + AMP Filesystem Inbox Polling
+ * Outbound Email - Mandrill Send + AMP Inbox Watcher
  *
- * Scans the gateway's AMP filesystem inbox for outbound email requests,
+ * Watches the gateway's AMP filesystem inbox for outbound email requests,
  * then sends them via the Mandrill transactional API.
  * Sends confirmations back to requesting agents via AMP route.
  *
@@ -26,10 +26,22 @@
  * }
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
 import type { GatewayConfig, AMPMessage, AMPRouteRequest } from './types.js';
-import { logEvent } from './api/activity-log.js';
+import {
+  logEvent,
+  timeAmpRoute,
+  signRouteRequest,
+  startInboxWatcher,
+  createOutboundDelivery,
+  screenOutbound,
+  reportWrapperLeaks,
+  SignatureVerifier,
+  type DeadLetter,
+  type DeadLetterStore,
+  type DeliveryAttempt,
+  type DeliveryOutcome,
+} from '@aimaestro/gateway-core';
 
 interface EmailAttachment {
   type: string;
@@ -131,20 +143,45 @@ async function sendConfirmation(
   };
 
   try {
-    await fetch(`${config.amp.maestroUrl}/api/v1/route`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.amp.apiKey}`,
-      },
-      body: JSON.stringify(ampRequest),
-      signal: AbortSignal.timeout(10000),
-    });
+    await timeAmpRoute(() =>
+      fetch(`${config.amp.maestroUrl}/api/v1/route`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.amp.apiKey}`,
+        },
+        body: JSON.stringify(signRouteRequest(ampRequest, config.amp.agentAddress, config.signing)),
+        signal: AbortSignal.timeout(10000),
+      })
+    );
   } catch (err) {
     console.error('[OUTBOUND] Failed to send confirmation:', (err as Error).message);
   }
 }
 
+/**
+ * Reply to the sender of an inbound email that the risk policy held or
+ * blocked, or that Maestro rejected once queued. Errors are logged, not thrown.
+ */
+export async function sendPolicyReply(
+  config: GatewayConfig,
+  inbound: { from: string; to: string; subject: string; messageId?: string },
+  body: string
+): Promise<void> {
+  try {
+    await sendViaMandrill(config, {
+      from: inbound.to,
+      to: inbound.from,
+      subject: `Re: ${inbound.subject}`,
+      body,
+      inReplyTo: inbound.messageId,
+    });
+    console.log(`[OUTBOUND] Policy reply sent to ${inbound.from}`);
+  } catch (err) {
+    console.error(`[OUTBOUND] Failed to send policy reply to ${inbound.from}:`, (err as Error).message);
+  }
+}
+
 /**
  * Check if an AMP message is an outbound email request.
  */
@@ -184,145 +221,149 @@ function extractReplyPayload(msg: AMPMessage): EmailReplyPayload | null {
 }
 
 /**
- * Scan the AMP filesystem inbox for outbound email requests.
+ * Deliver one outbound email request from the AMP inbox.
+ * Messages that are not email requests are skipped.
  */
-async function scanInbox(config: GatewayConfig): Promise<void> {
-  const inboxDir = config.amp.inboxDir;
-  if (!inboxDir || !fs.existsSync(inboxDir)) return;
+async function deliverMessage(
+  config: GatewayConfig,
+  msg: AMPMessage,
+  filePath: string,
+  attempt: DeliveryAttempt
+): Promise<DeliveryOutcome> {
+  if (!isEmailReplyMessage(msg)) return { status: 'skipped' };
+
+  const fromAddress = msg.envelope?.from || path.basename(path.dirname(filePath));
+
+  let reply = extractReplyPayload(msg);
+  if (!reply) {
+    console.error(`[OUTBOUND] Could not extract reply payload from ${filePath}`);
+    return { status: 'failed', error: 'Could not extract emailReply payload', permanent: true };
+  }
+
+  // Attachments are sent as they are; only the text fields are scanned
+  if (!attempt.released) {
+    // Checked once per response, like the DLP screen: not again on a retry
+    if (!attempt.screened) {
+      reportWrapperLeaks([reply.subject, reply.body, reply.html].filter(Boolean).join('\n'), {
+        from: reply.from,
+        to: reply.to,
+        ampMessageId: msg.envelope?.id,
+      });
+    }
+    const screened = await screenOutbound({
+      config: config.dlp,
+      fields: { subject: reply.subject, body: reply.body, html: reply.html },
+      details: { from: reply.from, to: reply.to, subject: reply.subject, ampMessageId: msg.envelope?.id },
+      notify: (subject, text) => sendConfirmation(config, fromAddress, subject, text),
+      attempt,
+    });
+    if (screened.status !== 'send') return screened;
+    reply = { ...reply, ...screened.fields };
+  }
+
+  const attachCount = reply.attachments?.length || 0;
+  const ccInfo = reply.cc ? ` (CC: ${reply.cc})` : '';
+  console.log(`[OUTBOUND] Sending: ${reply.from} -> ${reply.to}${ccInfo} | ${reply.subject}${attachCount > 0 ? ` (${attachCount} attachment${attachCount > 1 ? 's' : ''})` : ''}`);
 
-  let senderDirs: string[];
+  let result: MandrillSendResult;
   try {
-    senderDirs = fs.readdirSync(inboxDir).filter(d => {
-      const full = path.join(inboxDir, d);
-      return fs.statSync(full).isDirectory();
+    const results = await sendViaMandrill(config, reply);
+    result = results[0];
+  } catch (err) {
+    console.error(`[OUTBOUND] Error sending email:`, (err as Error).message);
+    logEvent('error', `Email send error: ${reply.to}`, {
+      from: reply.from,
+      to: reply.to,
+      error: (err as Error).message,
     });
-  } catch {
-    return;
+    return { status: 'failed', error: (err as Error).message };
   }
 
-  for (const senderDir of senderDirs) {
-    const senderPath = path.join(inboxDir, senderDir);
-    let files: string[];
-    try {
-      files = fs.readdirSync(senderPath).filter(f => f.endsWith('.json'));
-    } catch {
-      continue;
-    }
+  if (result.status !== 'sent' && result.status !== 'queued') {
+    console.error(`[OUTBOUND] Mandrill rejected: ${result.status} - ${result.reject_reason}`);
 
-    for (const file of files) {
-      const filePath = path.join(senderPath, file);
-      let msg: AMPMessage;
-      try {
-        msg = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-      } catch {
-        console.error(`[OUTBOUND] Failed to parse ${filePath}`);
-        continue;
-      }
-
-      const fromAddress = msg.envelope?.from || senderDir;
-
-      if (isEmailReplyMessage(msg)) {
-        const reply = extractReplyPayload(msg);
-        if (!reply) {
-          console.error(`[OUTBOUND] Could not extract reply payload from ${filePath}`);
-          // Delete bad message to prevent re-processing
-          try { fs.unlinkSync(filePath); } catch {}
-          continue;
-        }
-
-        const attachCount = reply.attachments?.length || 0;
-        const ccInfo = reply.cc ? ` (CC: ${reply.cc})` : '';
-        console.log(`[OUTBOUND] Sending: ${reply.from} -> ${reply.to}${ccInfo} | ${reply.subject}${attachCount > 0 ? ` (${attachCount} attachment${attachCount > 1 ? 's' : ''})` : ''}`);
-
-        try {
-          const results = await sendViaMandrill(config, reply);
-          const result = results[0];
-
-          if (result.status === 'sent' || result.status === 'queued') {
-            console.log(`[OUTBOUND] Sent successfully (${result.status}): ${result._id || 'no-id'}`);
-
-            logEvent('outbound', `Email sent: ${reply.from} -> ${reply.to}`, {
-              from: reply.from,
-              to: reply.to,
-              subject: reply.subject,
-              ampMessageId: msg.envelope?.id,
-              deliveryStatus: result.status,
-            });
-
-            await sendConfirmation(
-              config,
-              fromAddress,
-              `[EMAIL-SENT] ${reply.subject}`,
-              `Email sent to ${reply.to}\nSubject: ${reply.subject}\nStatus: ${result.status}\nMandrill ID: ${result._id || 'n/a'}`
-            );
-          } else {
-            console.error(`[OUTBOUND] Mandrill rejected: ${result.status} - ${result.reject_reason}`);
-
-            logEvent('error', `Email rejected by Mandrill: ${reply.to}`, {
-              from: reply.from,
-              to: reply.to,
-              subject: reply.subject,
-              error: `${result.status}: ${result.reject_reason}`,
-            });
-
-            await sendConfirmation(
-              config,
-              fromAddress,
-              `[EMAIL-FAILED] ${reply.subject}`,
-              `Failed to send email to ${reply.to}\nStatus: ${result.status}\nReason: ${result.reject_reason || 'unknown'}`
-            );
-          }
-        } catch (err) {
-          console.error(`[OUTBOUND] Error sending email:`, (err as Error).message);
-          logEvent('error', `Email send error: ${reply.to}`, {
-            from: reply.from,
-            to: reply.to,
-            error: (err as Error).message,
-          });
-        }
-      }
-
-      // Delete processed message file
-      try {
-        fs.unlinkSync(filePath);
-      } catch {}
-    }
+    logEvent('error', `Email rejected by Mandrill: ${reply.to}`, {
+      from: reply.from,
+      to: reply.to,
+      subject: reply.subject,
+      error: `${result.status}: ${result.reject_reason}`,
+    });
 
-    // Clean up empty sender directories
-    try {
-      const remaining = fs.readdirSync(senderPath);
-      if (remaining.length === 0) {
-        fs.rmdirSync(senderPath);
-      }
-    } catch {}
+    return {
+      status: 'failed',
+      error: `Mandrill ${result.status}: ${result.reject_reason || 'unknown'}`,
+      permanent: true,
+    };
   }
+
+  console.log(`[OUTBOUND] Sent successfully (${result.status}): ${result._id || 'no-id'}`);
+
+  logEvent('outbound', `Email sent: ${reply.from} -> ${reply.to}`, {
+    from: reply.from,
+    to: reply.to,
+    subject: reply.subject,
+    ampMessageId: msg.envelope?.id,
+    deliveryStatus: result.status,
+  });
+
+  await sendConfirmation(
+    config,
+    fromAddress,
+    `[EMAIL-SENT] ${reply.subject}`,
+    `Email sent to ${reply.to}\nSubject: ${reply.subject}\nStatus: ${result.status}\nMandrill ID: ${result._id || 'n/a'}`
+  );
+
+  return { status: 'delivered' };
 }
 
 /**
- * Start the outbound polling loop.
- * Scans the AMP filesystem inbox for email requests.
+ * Tell the requesting agent that its email was given up on.
  */
-export function startOutboundPoller(config: GatewayConfig): () => void {
-  let pollTimeoutId: NodeJS.Timeout | null = null;
-
-  const poll = async () => {
-    try {
-      await scanInbox(config);
-    } catch (err) {
-      console.error('[OUTBOUND] Poll error:', (err as Error).message);
-    }
-    pollTimeoutId = setTimeout(poll, config.outbound.pollIntervalMs);
-  };
+async function notifyDeadLetter(config: GatewayConfig, record: DeadLetter): Promise<void> {
+  const msg = record.message;
+  if (!msg || !isEmailReplyMessage(msg)) return;
+
+  const fromAddress = msg.envelope?.from || record.originalPath.split(path.sep)[0];
+  const to = msg.payload?.context?.emailReply?.to || 'unknown';
+  const subject = msg.payload?.context?.emailReply?.subject || msg.envelope?.subject || '';
+
+  await sendConfirmation(
+    config,
+    fromAddress,
+    `[EMAIL-FAILED] ${subject}`,
+    `Failed to send email to ${to}\nReason: ${record.reason}\nAttempts: ${record.attempts}\nDead letter: ${record.id}`
+  );
+}
 
-  // Initial poll after short delay
-  pollTimeoutId = setTimeout(poll, 5000);
-  console.log(`[OUTBOUND] Starting filesystem poller (interval: ${config.outbound.pollIntervalMs}ms)`);
+/**
+ * Start the outbound inbox watcher.
+ * Dispatches AMP inbox files for email requests as they arrive. Failed
+ * sends are retried with backoff, then moved to the dead-letter store.
+ */
+export function startOutboundPoller(config: GatewayConfig, deadLetters: DeadLetterStore): () => void {
+  const delivery = createOutboundDelivery({
+    config: config.delivery,
+    deadLetters,
+    verifier: new SignatureVerifier({
+      maestroUrl: config.amp.maestroUrl,
+      apiKey: config.amp.apiKey,
+      config: config.verification,
+    }),
+    deliver: (msg, filePath, attempt) => deliverMessage(config, msg, filePath, attempt),
+    onDeadLetter: (record) => notifyDeadLetter(config, record),
+  });
+
+  const stopWatcher = startInboxWatcher({
+    inboxDir: config.amp.inboxDir,
+    rescanIntervalMs: config.outbound.pollIntervalMs,
+    initialDelayMs: 5000,
+    onMessage: delivery.handleFile,
+  });
+  console.log(`[OUTBOUND] Watching inbox (rescan every ${config.outbound.pollIntervalMs}ms)`);
 
   return () => {
-    if (pollTimeoutId) {
-      clearTimeout(pollTimeoutId);
-      pollTimeoutId = null;
-    }
-    console.log('[OUTBOUND] Poller stopped');
+    stopWatcher();
+    delivery.stop();
+    console.log('[OUTBOUND] Inbox watcher stopped');
   };
 }
@@ -2,7 +2,7 @@
  * AI Maestro - Email Gateway (AMP Protocol)
  *
  * Receives Mandrill inbound webhooks and routes emails to AI Maestro agents
- * via AMP protocol. Polls filesystem inbox for outbound email requests and
+ * via AMP protocol. Watches filesystem inbox for outbound email requests and
  * sends via Mandrill API. Serves management UI as a static SPA.
  *
  * URL pattern: https://email.{tenant}.{EMAIL_BASE_DOMAIN}/inbound
@@ -15,12 +15,50 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { loadConfig } from './config.js';
 import { resolveRoute } from './router.js';
-import { startOutboundPoller } from './outbound.js';
-import { loadSecurityConfig, sanitizeEmail, type SecurityConfig, type EmailAuthResult } from './content-security.js';
-import { logEvent } from './api/activity-log.js';
+import { startOutboundPoller, sendPolicyReply } from './outbound.js';
+import {
+  loadSecurityConfig,
+  sanitizeEmail,
+  wrapReviewedEmailBody,
+  rememberOperatorEmails,
+  type SecurityConfig,
+  type EmailAuthResult,
+} from './content-security.js';
+import {
+  logEvent,
+  issueCanary,
+  tierPolicy,
+  rememberOperatorNames,
+  RouteQueue,
+  ReviewQueue,
+  rejectedRouteNotice,
+  signRouteRequest,
+  checkSigningKey,
+  DeadLetterStore,
+  configureActivityLog,
+  configureMetrics,
+  configureScanner,
+  configureCanaries,
+  configureConversationWindow,
+  configureTrustTiers,
+  detectLanguage,
+  registerGauge,
+  renderMetrics,
+  countInboxFiles,
+  getInjectionRules,
+  watchInjectionRules,
+  METRICS_CONTENT_TYPE,
+  type AMPRouteError,
+  type QueuedRoute,
+  type RouteSubmitResult,
+  type RiskAssessment,
+} from '@aimaestro/gateway-core';
 import { createConfigRouter } from './api/config-api.js';
 import { createActivityRouter } from './api/activity-api.js';
 import { createStatsRouter } from './api/stats-api.js';
+import { createDeadLetterRouter } from './api/dead-letter-api.js';
+import { createSecurityRulesRouter } from './api/security-rules-api.js';
+import { createReviewRouter } from './api/review-api.js';
 import type { GatewayConfig, AMPRouteRequest, AMPRouteResponse } from './types.js';
 
 const __filename_local = fileURLToPath(import.meta.url);
@@ -122,7 +160,105 @@ async function saveAttachments(
 }
 
 /**
- * Forward an inbound email to an AI Maestro agent via AMP route.
+ * Persisted with each route request for the activity log once it is
+ * delivered, and to bounce it to the sender if Maestro rejects it
+ */
+interface EmailRouteContext {
+  from: string;
+  to: string;
+  displayName: string;
+  subject: string;
+  tenant: string;
+  messageId: string | null;
+  /** SPF or DKIM passed, so a reply cannot land on a spoofed address */
+  senderVerified: boolean;
+}
+
+/** Held emails also keep the sender's name for the edited body */
+interface EmailReviewContext extends EmailRouteContext {
+  fromName: string | null;
+}
+
+/**
+ * Replace the text body of a held email with the operator's edit. The HTML
+ * body is dropped, since it would still carry the original content.
+ */
+function withEditedBody(request: AMPRouteRequest, text: string, context: EmailReviewContext): AMPRouteRequest {
+  const email = request.payload.context?.email ?? {};
+  return {
+    ...request,
+    payload: {
+      ...request.payload,
+      context: {
+        ...request.payload.context,
+        email: { ...email, textBody: wrapReviewedEmailBody(text, context.from, context.fromName), htmlBody: null },
+      },
+    },
+  };
+}
+
+function recordDelivery(entry: QueuedRoute<EmailRouteContext>, result: AMPRouteResponse): void {
+  const { context } = entry;
+  if (config.debug) {
+    console.log(`  AMP message ID: ${result.id || 'unknown'}`);
+  }
+
+  logEvent('inbound', `Email routed via AMP: ${context.from} -> ${context.displayName}`, {
+    from: context.from,
+    to: context.to,
+    subject: context.subject,
+    tenant: context.tenant,
+    ampMessageId: result.id,
+    deliveryStatus: result.status,
+  });
+}
+
+/**
+ * Conversation key for an email: the first Message-Id in References (the
+ * thread root), else In-Reply-To, else the email's own Message-Id.
+ */
+function emailThreadKey(msg: { headers?: Record<string, unknown> }): string | undefined {
+  const headers = msg.headers || {};
+  return [headers['References'], headers['In-Reply-To'], headers['Message-Id']]
+    .map((h) => (typeof h === 'string' ? h.trim().split(/\s+/)[0] : ''))
+    .find(Boolean);
+}
+
+/** Routed (or queued) to Maestro, or stopped by the risk policy */
+type ForwardOutcome = RouteSubmitResult | { status: 'held' | 'blocked'; risk: RiskAssessment };
+
+/**
+ * Maestro rejected a queued email: log it and bounce it to the sender, if
+ * SPF or DKIM vouch for the address.
+ */
+async function recordRejection(entry: QueuedRoute<EmailRouteContext>, error: AMPRouteError): Promise<void> {
+  const { request, context } = entry;
+  logEvent('error', `Queued email not delivered: ${context.from} -> ${context.displayName}`, {
+    from: context.from,
+    to: context.to,
+    subject: context.subject,
+    tenant: context.tenant,
+    deliveryStatus: 'rejected',
+    error: error.message,
+  });
+
+  if (!context.senderVerified) {
+    console.log(`[ROUTE-QUEUE] Not bouncing to unverified sender ${context.from}`);
+    return;
+  }
+  await sendPolicyReply(
+    config,
+    { from: context.from, to: context.to, subject: context.subject, messageId: context.messageId ?? undefined },
+    rejectedRouteNotice(request, error)
+  );
+}
+
+/**
+ * Forward an inbound email to an AI Maestro agent via AMP route, or queue it
+ * while AI Maestro is unreachable. Emails the risk policy holds go to the
+ * review queue instead; blocked emails are dropped. The sender is told only
+ * if SPF or DKIM vouch for the address (so spoofed senders don't turn the
+ * gateway into a backscatter source).
  */
 async function forwardToAgent(
   tenant: string,
@@ -131,26 +267,43 @@ async function forwardToAgent(
   displayName: string,
   msg: any,
   authResult?: EmailAuthResult
-): Promise<void> {
+): Promise<ForwardOutcome> {
   const attachments = msg.attachments || {};
   const attachmentCount = Object.keys(attachments).length;
 
-  const sanitized = sanitizeEmail(msg, securityConfig, authResult);
+  const canary = issueCanary({
+    source: 'email',
+    sender: msg.from_email,
+    to: agentAddress,
+    subject: msg.subject,
+    messageId: msg.headers?.['Message-Id'],
+  });
+  const sanitized = sanitizeEmail(msg, securityConfig, authResult, config.riskPolicy, {
+    canary,
+    conversation: emailThreadKey(msg),
+  });
+  if (sanitized.trust.level === 'operator') rememberOperatorNames(msg.from_email.toLowerCase(), [msg.from_name]);
+  const { risk } = sanitized;
   const hasSecurityFlags = sanitized.flags.length > 0;
 
   if (hasSecurityFlags) {
-    console.log(`  [SECURITY] ${sanitized.flags.length} injection pattern(s) flagged (trust: ${sanitized.trust.level})`);
+    console.log(
+      `  [SECURITY] ${sanitized.flags.length} injection pattern(s) flagged (trust: ${sanitized.trust.level}, score: ${risk.score}, action: ${risk.action})`
+    );
     for (const flag of sanitized.flags) {
       console.log(`    - ${flag.category}: "${flag.match}"`);
     }
-    logEvent('security', `Injection patterns flagged in email from ${msg.from_email}`, {
+    logEvent('security', `Injection patterns flagged in email from ${msg.from_email} (${risk.action})`, {
       from: msg.from_email,
       to: toEmail,
       subject: msg.subject,
       tenant,
       securityFlags: sanitized.flags.map((f: any) => `${f.category}: ${f.match}`),
+      riskScore: risk.score,
+      policyAction: risk.action,
+      deliveryStatus: risk.action === 'hold' ? 'held' : risk.action === 'block' ? 'blocked' : undefined,
     });
-  } else if (sanitized.trust.level !== 'operator') {
+  } else if (tierPolicy(sanitized.trust.level).wrap) {
     console.log(`  [SECURITY] Content wrapped (trust: ${sanitized.trust.level})`);
   }
 
@@ -210,40 +363,47 @@ async function forwardToAgent(
           source: 'email',
           scanned: true,
           injection_flags: hasSecurityFlags ? sanitized.flags.map((f: any) => f.category) : [],
+          risk_score: risk.score,
+          policy_action: risk.action,
+          language: detectLanguage(`${msg.subject}\n${msg.textBody}`),
           scanned_at: new Date().toISOString(),
         },
       },
     },
   };
 
-  const response = await fetch(`${config.amp.maestroUrl}/api/v1/route`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.amp.apiKey}`,
-    },
-    body: JSON.stringify(ampRequest),
-    signal: AbortSignal.timeout(10000),
-  });
-
-  if (!response.ok) {
-    const body = await response.text();
-    throw new Error(`AMP route failed (${response.status}): ${body}`);
-  }
-
-  const result = await response.json() as AMPRouteResponse;
-  if (config.debug) {
-    console.log(`  AMP message ID: ${result.id || 'unknown'}`);
-  }
-
-  logEvent('inbound', `Email routed via AMP: ${msg.from_email} -> ${displayName}`, {
+  const routeContext: EmailRouteContext = {
     from: msg.from_email,
     to: toEmail,
+    displayName,
     subject: msg.subject,
     tenant,
-    ampMessageId: result.id,
-    deliveryStatus: result.status,
-  });
+    messageId: msg.headers?.['Message-Id'] || null,
+    senderVerified: authResult?.spf === 'pass' || authResult?.dkim?.valid === true,
+  };
+
+  if (risk.action === 'hold' || risk.action === 'block') {
+    if (risk.action === 'hold') {
+      reviewQueue.hold({
+        sender: msg.from_email,
+        text: msg.text || msg.html || '',
+        flags: sanitized.flags.map((f) => `${f.category}: ${f.match}`),
+        risk,
+        request: ampRequest,
+        context: { ...routeContext, fromName: msg.from_name || null },
+      });
+    }
+    if (routeContext.senderVerified) {
+      await sendPolicyReply(
+        config,
+        { from: msg.from_email, to: toEmail, subject: msg.subject, messageId: msg.headers?.['Message-Id'] },
+        risk.action === 'hold' ? config.riskPolicy.holdReply : config.riskPolicy.blockReply
+      );
+    }
+    return { status: risk.action === 'hold' ? 'held' : 'blocked', risk };
+  }
+
+  return routeQueue.submit(ampRequest, routeContext);
 }
 
 function extractTenant(hostname: string): string {
@@ -270,9 +430,57 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Persist activity events (JSONL by default) before anything else logs
+  configureActivityLog(configLoaded.activity);
+  configureMetrics({ gateway: 'email-gateway' });
+  configureScanner(configLoaded.scanner);
+  configureCanaries(configLoaded.canary);
+  configureConversationWindow(configLoaded.conversation);
+  configureTrustTiers(configLoaded.trustTiers);
+
+  // Injection rules: the rules file if present (reloaded on change), else built-in
+  let stopRulesWatcher: () => void;
+  try {
+    stopRulesWatcher = watchInjectionRules(configLoaded.injectionRules);
+  } catch (err) {
+    console.error('[FATAL] Failed to load injection rules:', (err as Error).message);
+    process.exit(1);
+  }
+  const ruleSet = getInjectionRules();
+
   // Assign to module-level vars for use in handlers
   config = configLoaded;
   securityConfig = secConfigLoaded;
+  rememberOperatorEmails(securityConfig);
+
+  // Queue inbound emails locally while AI Maestro is unreachable
+  routeQueue = new RouteQueue<EmailRouteContext>({
+    maestroUrl: config.amp.maestroUrl,
+    apiKey: config.amp.apiKey,
+    config: config.routeQueue,
+    sign: (request) => signRouteRequest(request, config.amp.agentAddress, config.signing),
+    onDelivered: recordDelivery,
+    onRejected: recordRejection,
+  });
+
+  // Hold emails the risk policy flags for operator review
+  reviewQueue = new ReviewQueue<EmailReviewContext>({
+    config: config.review,
+    forward: (request, context) => routeQueue.submit(request, context),
+    edit: withEditedBody,
+    notifyRejected: async (entry, reply) => {
+      const { context } = entry;
+      if (!context.senderVerified) {
+        console.log(`[REVIEW] Not replying to unverified sender ${context.from}`);
+        return;
+      }
+      await sendPolicyReply(
+        config,
+        { from: context.from, to: context.to, subject: context.subject, messageId: context.messageId ?? undefined },
+        reply
+      );
+    },
+  });
 
   const ALLOWED_TENANTS = new Set(Object.keys(config.mandrill.webhookKeys));
 
@@ -286,17 +494,40 @@ async function main(): Promise<void> {
     next();
   });
 
+  // Prometheus scrape endpoint (unauthenticated like /health; the server binds to localhost)
+  registerGauge('gateway_inbox_backlog', 'Outbound message files waiting in the AMP inbox', () =>
+    countInboxFiles(config.amp.inboxDir)
+  );
+  registerGauge('gateway_route_queue_size', 'Inbound emails queued while AI Maestro is unreachable', () =>
+    routeQueue.size()
+  );
+  registerGauge('gateway_review_queue_size', 'Inbound emails held for operator review', () => reviewQueue.size());
+  registerGauge('gateway_maestro_circuit_open', 'Whether routing to AI Maestro is paused (1) or not (0)', () =>
+    routeQueue.circuitState() === 'open' ? 1 : 0
+  );
+  app.get('/metrics', (req: Request, res: Response) => {
+    res.set('Content-Type', METRICS_CONTENT_TYPE).send(renderMetrics());
+  });
+
   // Management API routes
   app.use('/api', authMiddleware(config.adminToken));
 
   app.use('/api/config', createConfigRouter(
     () => config,
     () => securityConfig,
-    (newConfig) => { securityConfig = newConfig; },
+    (newConfig) => {
+      securityConfig = newConfig;
+      rememberOperatorEmails(newConfig);
+    },
     config.adminToken
   ));
 
+  const deadLetters = new DeadLetterStore(config.delivery.deadLetterDir, config.amp.inboxDir);
+
   app.use('/api/activity', createActivityRouter());
+  app.use('/api/dead-letters', createDeadLetterRouter(deadLetters, config.adminToken));
+  app.use('/api/security', createSecurityRulesRouter(config.injectionRules, config.adminToken));
+  app.use('/api/review', createReviewRouter(reviewQueue, config.adminToken));
   app.use('/api/stats', createStatsRouter(() => config));
 
   // Health check
@@ -312,6 +543,8 @@ async function main(): Promise<void> {
         agent: config.amp.agentAddress,
         maestro: config.amp.maestroUrl,
         tenant: config.amp.tenant,
+        circuit: routeQueue.circuitState(),
+        queued: routeQueue.size(),
       },
       timestamp: new Date().toISOString(),
     });
@@ -366,7 +599,10 @@ async function main(): Promise<void> {
       console.log(`[${tenant}] Received ${events.length} email event(s)`);
 
       let routed = 0;
+      let queued = 0;
       let unroutable = 0;
+      let held = 0;
+      let blocked = 0;
 
       for (const event of events) {
         if (event.event !== 'inbound') continue;
@@ -391,9 +627,18 @@ async function main(): Promise<void> {
         if (route) {
           console.log(`  Route: ${route.agentAddress} (${route.matchType})`);
           try {
-            await forwardToAgent(tenant, toEmail, route.agentAddress, route.displayName, msg, authResult);
-            console.log(`  Forwarded via AMP`);
-            routed++;
+            const outcome = await forwardToAgent(tenant, toEmail, route.agentAddress, route.displayName, msg, authResult);
+            if (outcome.status === 'held' || outcome.status === 'blocked') {
+              console.log(`  Not forwarded: ${outcome.status} by risk policy (score ${outcome.risk.score})`);
+              if (outcome.status === 'held') held++;
+              else blocked++;
+            } else if (outcome.status === 'queued') {
+              console.log(`  AI Maestro unreachable, queued (position ${outcome.position})`);
+              queued++;
+            } else {
+              console.log(`  Forwarded via AMP`);
+              routed++;
+            }
           } catch (err) {
             console.error(`  Failed to forward via AMP:`, err);
             logEvent('error', `Failed to forward email from ${msg.from_email}`, {
@@ -417,8 +662,10 @@ async function main(): Promise<void> {
         }
       }
 
-      console.log(`[${tenant}] Processed: ${routed} routed, ${unroutable} unroutable`);
-      res.status(200).json({ received: true, events: events.length, routed, unroutable });
+      console.log(
+        `[${tenant}] Processed: ${routed} routed, ${queued} queued, ${held} held, ${blocked} blocked, ${unroutable} unroutable`
+      );
+      res.status(200).json({ received: true, events: events.length, routed, queued, held, blocked, unroutable });
 
     } catch (error) {
       console.error(`[${tenant}] Error processing webhook:`, error);
@@ -435,7 +682,7 @@ async function main(): Promise<void> {
   app.use(express.static(uiDistPath));
 
   app.get('*', (req: Request, res: Response) => {
-    if (req.path.startsWith('/api/') || req.path === '/inbound' || req.path === '/health') {
+    if (req.path.startsWith('/api/') || req.path === '/inbound' || req.path === '/health' || req.path === '/metrics') {
       return res.status(404).json({ error: 'Not found' });
     }
     res.sendFile(path.join(uiDistPath, 'index.html'), (err) => {
@@ -472,16 +719,26 @@ async function main(): Promise<void> {
     console.log(`Webhook keys: ${Object.keys(config.mandrill.webhookKeys).length}`);
     console.log(`Routes: ${Object.keys(config.routing.routes).length} explicit, ${Object.keys(config.routing.defaults).length} defaults`);
     console.log(`Outbound poll: ${config.outbound.pollIntervalMs}ms`);
-    console.log(`Security: ${securityConfig.operatorEmails.length} operator email(s) whitelisted`);
+    console.log(`Route queue: ${config.routeQueue.dir}`);
+    console.log(`Review queue: ${config.review.dir}`);
+    console.log(`Signing: ${checkSigningKey(config.signing) ? config.signing.privateKeyPath : config.signing.enabled ? 'key unavailable, unsigned' : 'off'}`);
+    console.log(`Security: ${securityConfig.operatorEmails.length} operator email(s) whitelisted, ${securityConfig.teamDomains?.length ?? 0} team / ${securityConfig.partnerDomains?.length ?? 0} partner domain(s)`);
+    console.log(`Injection rules: ${ruleSet.rules.length} (${ruleSet.source === 'file' ? ruleSet.file : 'built-in'})`);
+    console.log(`Language packs: ${ruleSet.languages.length > 0 ? ruleSet.languages.join(', ') : 'none'}`);
     console.log(`Debug: ${config.debug}`);
+    console.log(`Activity log: ${config.activity.store === 'jsonl' ? config.activity.dir : 'memory'}`);
     console.log('');
     console.log('Endpoints:');
     console.log('  GET  /health        - Health check');
+    console.log('  GET  /metrics       - Prometheus metrics');
     console.log('  HEAD /inbound       - Mandrill validation');
     console.log('  POST /inbound       - Mandrill webhook');
     console.log('  GET  /api/config    - Gateway config');
     console.log('  GET  /api/stats     - Gateway metrics');
     console.log('  GET  /api/activity  - Activity log');
+    console.log('  GET  /api/dead-letters - Undelivered outbound messages');
+    console.log('  GET  /api/security/rules - Injection rules (PUT to replace)');
+    console.log('  GET  /api/review    - Emails held for review');
     console.log('  GET  /              - Management UI');
     console.log('========================================');
     console.log('');
@@ -489,12 +746,14 @@ async function main(): Promise<void> {
   });
 
   // Start outbound poller
-  const stopPoller = startOutboundPoller(config);
+  const stopPoller = startOutboundPoller(config, deadLetters);
 
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     console.log(`\n[SHUTDOWN] Received ${signal}, shutting down...`);
     stopPoller();
+    stopRulesWatcher();
+    routeQueue.stop();
     server.close(() => {
       console.log('[SHUTDOWN] HTTP server closed');
       process.exit(0);
@@ -512,6 +771,8 @@ async function main(): Promise<void> {
 // Module-level config refs (set in main())
 let config: GatewayConfig;
 let securityConfig: SecurityConfig;
+let routeQueue: RouteQueue<EmailRouteContext>;
+let reviewQueue: ReviewQueue<EmailReviewContext>;
 
 main().catch((err) => {
   console.error('Fatal error:', err);
@@ -4,6 +4,7 @@ import Layout from './components/Layout'
 import Dashboard from './pages/Dashboard'
 import Routing from './pages/Routing'
 import Security from './pages/Security'
+import Review from './pages/Review'
 import Activity from './pages/Activity'
 
 export default function App() {
@@ -16,6 +17,7 @@ export default function App() {
         <Route path="/" element={<Dashboard />} />
         <Route path="/routing" element={<Routing />} />
         <Route path="/security" element={<Security />} />
+        <Route path="/review" element={<Review />} />
         <Route path="/activity" element={<Activity />} />
       </Route>
       <Route path="*" element={<Navigate to="/" replace />} />
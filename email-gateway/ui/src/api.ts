@@ -26,3 +26,17 @@ export function patchAPI<T = unknown>(path: string, data: unknown): Promise<T> {
     body: JSON.stringify(data),
   })
 }
+
+export function putAPI<T = unknown>(path: string, data: unknown): Promise<T> {
+  return fetchAPI<T>(path, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  })
+}
+
+export function postAPI<T = unknown>(path: string, data?: unknown): Promise<T> {
+  return fetchAPI<T>(path, {
+    method: 'POST',
+    body: data === undefined ? undefined : JSON.stringify(data),
+  })
+}
@@ -1,10 +1,11 @@
 import { NavLink } from 'react-router-dom'
-import { LayoutDashboard, Route, Shield, ScrollText, Mail } from 'lucide-react'
+import { LayoutDashboard, Route, Shield, Inbox, ScrollText, Mail } from 'lucide-react'
 
 const navItems = [
   { to: '/', label: 'Dashboard', icon: LayoutDashboard },
   { to: '/routing', label: 'Routing', icon: Route },
   { to: '/security', label: 'Security', icon: Shield },
+  { to: '/review', label: 'Review', icon: Inbox },
   { to: '/activity', label: 'Activity', icon: ScrollText },
 ]
 
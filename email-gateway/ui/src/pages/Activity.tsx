@@ -16,6 +16,8 @@ interface ActivityEvent {
     tenant?: string
     routeMatch?: string
     securityFlags?: string[]
+    riskScore?: number
+    policyAction?: string
     error?: string
   }
 }
@@ -262,6 +264,9 @@ function EventDetails({ event, onClose }: { event: ActivityEvent; onClose: () =>
         {event.details.routeMatch && (
           <Detail label="Route Match" value={event.details.routeMatch} />
         )}
+        {event.details.policyAction && (
+          <Detail label="Risk" value={`${event.details.riskScore ?? 0} (${event.details.policyAction})`} />
+        )}
         {event.details.error && (
           <Detail label="Error" value={event.details.error} />
         )}
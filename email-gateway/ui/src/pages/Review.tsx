@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react'
+import { fetchAPI, postAPI } from '../api'
+import DataTable, { Column } from '../components/DataTable'
+import Modal from '../components/Modal'
+import EmptyState from '../components/EmptyState'
+import { Inbox, RefreshCw } from 'lucide-react'
+
+interface HeldSummary {
+  id: string
+  heldAt: string
+  sender: string
+  to: string
+  subject: string
+  score: number
+  flags: string[]
+}
+
+interface HeldMessage {
+  id: string
+  heldAt: string
+  sender: string
+  text: string
+  flags: string[]
+  risk: { score: number; action: string }
+  request: { to: string; subject: string }
+}
+
+/**
+ * Turn a failed request into something readable: the API answers with
+ * { error, details? } on 4xx/5xx.
+ */
+function describeError(err: unknown): string {
+  const message = (err as Error).message
+  const body = message.slice(message.indexOf(':') + 1).trim()
+  try {
+    const parsed = JSON.parse(body) as { error?: string; details?: string }
+    return [parsed.error, parsed.details].filter(Boolean).join(': ') || message
+  } catch {
+    return message
+  }
+}
+
+export default function Review() {
+  const [held, setHeld] = useState<HeldSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<HeldMessage | null>(null)
+  const [text, setText] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  async function loadData() {
+    try {
+      const data = await fetchAPI<{ held: HeldSummary[] }>('/review')
+      setHeld(data.held)
+    } catch (err) {
+      console.error('Failed to load review queue:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function openMessage(row: HeldSummary) {
+    try {
+      const message = await fetchAPI<HeldMessage>(`/review/${encodeURIComponent(row.id)}`)
+      setSelected(message)
+      setText(message.text)
+      setReason('')
+      setError('')
+    } catch (err) {
+      console.error('Failed to load held message:', err)
+      loadData()
+    }
+  }
+
+  function closeModal() {
+    setSelected(null)
+    setError('')
+  }
+
+  async function decide(action: 'approve' | 'edit' | 'reject') {
+    if (!selected) return
+    const id = encodeURIComponent(selected.id)
+    setSaving(true)
+    setError('')
+    try {
+      if (action === 'edit') {
+        await postAPI(`/review/${id}/edit`, { message: text })
+      } else if (action === 'reject') {
+        await postAPI(`/review/${id}/reject`, reason.trim() ? { reason: reason.trim() } : {})
+      } else {
+        await postAPI(`/review/${id}/approve`)
+      }
+      closeModal()
+      loadData()
+    } catch (err) {
+      console.error(`Failed to ${action} held message:`, err)
+      setError(describeError(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl animate-pulse">
+        <div className="h-6 w-32 bg-gray-800 rounded mb-6" />
+        <div className="h-64 bg-gray-800/30 rounded-lg" />
+      </div>
+    )
+  }
+
+  const edited = selected !== null && text !== selected.text
+
+  const columns: Column<HeldSummary>[] = [
+    {
+      key: 'time',
+      header: 'Held',
+      className: 'w-36',
+      render: (m) => (
+        <span className="text-xs text-gray-500 font-mono">
+          {new Date(m.heldAt).toLocaleString()}
+        </span>
+      ),
+    },
+    {
+      key: 'from',
+      header: 'From',
+      className: 'w-48',
+      render: (m) => <span className="text-xs font-mono">{m.sender}</span>,
+    },
+    {
+      key: 'to',
+      header: 'Agent',
+      className: 'w-40',
+      render: (m) => <span className="text-xs font-mono">{m.to.split('@')[0]}</span>,
+    },
+    {
+      key: 'flags',
+      header: 'Flags',
+      render: (m) => (
+        <div className="flex flex-wrap gap-1">
+          {m.flags.map((flag, i) => (
+            <span key={i} className="text-[10px] px-1.5 py-0.5 bg-amber-500/10 text-amber-400 rounded">
+              {flag}
+            </span>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: 'score',
+      header: 'Score',
+      className: 'w-16 text-right',
+      render: (m) => <span className="text-xs font-mono text-red-400">{m.score}</span>,
+    },
+  ]
+
+  return (
+    <div className="max-w-5xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-100">Review</h2>
+          <p className="text-sm text-gray-500">Emails held by the risk policy until an operator decides</p>
+        </div>
+        <button
+          onClick={loadData}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-gray-400 bg-gray-800 border border-gray-700 rounded-md hover:text-gray-200"
+        >
+          <RefreshCw size={12} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="bg-gray-900/50 border border-gray-800 rounded-lg">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+          <h3 className="text-sm font-medium text-gray-200">Held Emails</h3>
+          <span className="text-xs text-gray-500">{held.length} waiting</span>
+        </div>
+        <div className="p-4">
+          {held.length === 0 ? (
+            <EmptyState
+              icon={Inbox}
+              title="Nothing to review"
+              description="Emails whose risk score reaches the hold threshold (RISK_HOLD_SCORE) wait here."
+            />
+          ) : (
+            <DataTable
+              columns={columns}
+              data={held}
+              keyExtractor={(m) => m.id}
+              onRowClick={openMessage}
+            />
+          )}
+        </div>
+      </div>
+
+      <Modal
+        open={selected !== null}
+        onClose={closeModal}
+        title="Held Email"
+        footer={
+          <>
+            <button
+              onClick={() => decide('reject')}
+              disabled={saving}
+              className="mr-auto px-3 py-1.5 text-xs font-medium text-red-400 bg-red-500/10 border border-red-500/20 rounded-md hover:bg-red-500/20 disabled:opacity-50"
+            >
+              Reject
+            </button>
+            <button
+              onClick={closeModal}
+              className="px-3 py-1.5 text-xs text-gray-400 hover:text-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => decide(edited ? 'edit' : 'approve')}
+              disabled={saving || !text.trim()}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Sending...' : edited ? 'Forward Edited' : 'Approve'}
+            </button>
+          </>
+        }
+      >
+        {selected && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+              <Detail label="From" value={selected.sender} />
+              <Detail label="To" value={selected.request.to} />
+              <Detail label="Held" value={new Date(selected.heldAt).toLocaleString()} />
+              <Detail label="Risk score" value={String(selected.risk.score)} />
+            </div>
+            <p className="text-xs text-gray-400">{selected.request.subject}</p>
+            <div className="flex flex-wrap gap-1">
+              {selected.flags.map((flag, i) => (
+                <span key={i} className="text-[10px] px-1.5 py-0.5 bg-amber-500/10 text-amber-400 rounded">
+                  {flag}
+                </span>
+              ))}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Body (edit to forward a cleaned-up version)</label>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={10}
+                className="w-full px-3 py-2 text-xs font-mono bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Rejection reason (optional, sent to the sender)</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="w-full px-3 py-2 text-sm bg-gray-800 border border-gray-700 rounded-md text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            {error && <p className="text-xs text-red-400 whitespace-pre-line">{error}</p>}
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
+
+function Detail({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <span className="text-gray-500">{label}:</span>{' '}
+      <span className="text-gray-300 font-mono">{value}</span>
+    </div>
+  )
+}
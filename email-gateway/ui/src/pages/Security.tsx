@@ -1,13 +1,59 @@
-import { useEffect, useState } from 'react'
-import { fetchAPI, patchAPI } from '../api'
+import { useEffect, useState, FormEvent } from 'react'
+import { fetchAPI, patchAPI, putAPI } from '../api'
 import DataTable, { Column } from '../components/DataTable'
+import Modal from '../components/Modal'
 import EmptyState from '../components/EmptyState'
-import { Shield, Plus, Trash2, AlertTriangle, UserCheck, Users, Globe, ArrowRight } from 'lucide-react'
+import { Shield, Plus, Trash2, Pencil, AlertTriangle, UserCheck, Users, Globe, ArrowRight, ListChecks } from 'lucide-react'
 
 interface SecurityConfig {
   operatorEmails: string[]
 }
 
+type RuleSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+interface InjectionRule {
+  category: string
+  label: string
+  regex: string
+  flags: string
+  severity: RuleSeverity
+  enabled: boolean
+}
+
+interface RuleSet {
+  source: 'builtin' | 'file'
+  file: string | null
+  loadedAt: string
+  rules: InjectionRule[]
+  languages: string[]
+}
+
+const SEVERITIES: RuleSeverity[] = ['low', 'medium', 'high', 'critical']
+
+const severityStyles: Record<RuleSeverity, string> = {
+  low: 'bg-gray-500/10 text-gray-400',
+  medium: 'bg-amber-500/10 text-amber-400',
+  high: 'bg-orange-500/10 text-orange-400',
+  critical: 'bg-red-500/10 text-red-400',
+}
+
+const emptyRule: InjectionRule = { category: '', label: '', regex: '', flags: 'i', severity: 'medium', enabled: true }
+
+/**
+ * Turn a failed PUT into something readable: the API answers 400 with
+ * { error, details: [...] } when the rule set does not validate.
+ */
+function describeRuleError(err: unknown): string {
+  const message = (err as Error).message
+  const body = message.slice(message.indexOf(':') + 1).trim()
+  try {
+    const parsed = JSON.parse(body) as { error?: string; details?: string[] }
+    return parsed.details?.join('\n') || parsed.error || message
+  } catch {
+    return message
+  }
+}
+
 interface ActivityEvent {
   id: string
   timestamp: string
@@ -27,6 +73,11 @@ export default function Security() {
   const [loading, setLoading] = useState(true)
   const [newEmail, setNewEmail] = useState('')
   const [saving, setSaving] = useState(false)
+  const [ruleSet, setRuleSet] = useState<RuleSet | null>(null)
+  /** Index of the rule being edited, 'new' when adding, null when the modal is closed */
+  const [editing, setEditing] = useState<number | 'new' | null>(null)
+  const [ruleForm, setRuleForm] = useState<InjectionRule>(emptyRule)
+  const [ruleError, setRuleError] = useState('')
 
   useEffect(() => {
     loadData()
@@ -34,12 +85,14 @@ export default function Security() {
 
   async function loadData() {
     try {
-      const [secData, activityData] = await Promise.all([
+      const [secData, activityData, rulesData] = await Promise.all([
         fetchAPI<SecurityConfig>('/config/security'),
         fetchAPI<{ events: ActivityEvent[] }>('/activity?type=security&limit=20'),
+        fetchAPI<RuleSet>('/security/rules'),
       ])
       setConfig(secData)
       setFlaggedEvents(activityData.events)
+      setRuleSet(rulesData)
     } catch (err) {
       console.error('Failed to load security config:', err)
     } finally {
@@ -81,6 +134,56 @@ export default function Security() {
     }
   }
 
+  async function saveRules(rules: InjectionRule[]): Promise<boolean> {
+    setSaving(true)
+    setRuleError('')
+    try {
+      const result = await putAPI<RuleSet>('/security/rules', { rules })
+      setRuleSet(result)
+      return true
+    } catch (err) {
+      console.error('Failed to save injection rules:', err)
+      setRuleError(describeRuleError(err))
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  function openRuleModal(index: number | 'new') {
+    if (!ruleSet) return
+    setRuleForm(index === 'new' ? emptyRule : ruleSet.rules[index])
+    setRuleError('')
+    setEditing(index)
+  }
+
+  function closeRuleModal() {
+    setEditing(null)
+    setRuleForm(emptyRule)
+    setRuleError('')
+  }
+
+  async function handleRuleSubmit(e?: FormEvent) {
+    e?.preventDefault()
+    if (!ruleSet || editing === null) return
+    const rules = editing === 'new'
+      ? [...ruleSet.rules, ruleForm]
+      : ruleSet.rules.map((r, i) => (i === editing ? ruleForm : r))
+    if (await saveRules(rules)) closeRuleModal()
+  }
+
+  function toggleRule(index: number) {
+    if (!ruleSet) return
+    saveRules(ruleSet.rules.map((r, i) => (i === index ? { ...r, enabled: !r.enabled } : r)))
+  }
+
+  function deleteRule(index: number) {
+    if (!ruleSet) return
+    const rule = ruleSet.rules[index]
+    if (!confirm(`Delete rule "${rule.label}"?`)) return
+    saveRules(ruleSet.rules.filter((_, i) => i !== index))
+  }
+
   if (loading) {
     return (
       <div className="max-w-5xl animate-pulse">
@@ -132,6 +235,75 @@ export default function Security() {
     },
   ]
 
+  const ruleRows = (ruleSet?.rules ?? []).map((rule, index) => ({ ...rule, index }))
+
+  const ruleColumns: Column<typeof ruleRows[0]>[] = [
+    {
+      key: 'enabled',
+      header: 'On',
+      className: 'w-12',
+      render: (r) => (
+        <input
+          type="checkbox"
+          checked={r.enabled}
+          disabled={saving}
+          onChange={() => toggleRule(r.index)}
+          className="accent-blue-500"
+        />
+      ),
+    },
+    {
+      key: 'rule',
+      header: 'Rule',
+      render: (r) => (
+        <div>
+          <p className={`text-xs ${r.enabled ? 'text-gray-200' : 'text-gray-500'}`}>{r.label}</p>
+          <p className="text-[10px] text-gray-500">{r.category}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'regex',
+      header: 'Pattern',
+      render: (r) => (
+        <span className="text-[11px] font-mono text-gray-400 break-all">
+          /{r.regex}/{r.flags}
+        </span>
+      ),
+    },
+    {
+      key: 'severity',
+      header: 'Severity',
+      className: 'w-20',
+      render: (r) => (
+        <span className={`text-[10px] px-1.5 py-0.5 rounded ${severityStyles[r.severity]}`}>{r.severity}</span>
+      ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-20 text-right',
+      render: (r) => (
+        <div className="flex items-center justify-end gap-1">
+          <button
+            onClick={() => openRuleModal(r.index)}
+            disabled={saving}
+            className="p-1 text-gray-500 hover:text-gray-300 disabled:opacity-50"
+          >
+            <Pencil size={13} />
+          </button>
+          <button
+            onClick={() => deleteRule(r.index)}
+            disabled={saving}
+            className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-50"
+          >
+            <Trash2 size={13} />
+          </button>
+        </div>
+      ),
+    },
+  ]
+
   return (
     <div className="max-w-5xl">
       <div className="mb-6">
@@ -231,6 +403,54 @@ export default function Security() {
         </div>
       </div>
 
+      {/* Injection Rules */}
+      {ruleSet && (
+        <div className="bg-gray-900/50 border border-gray-800 rounded-lg mb-4">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+            <div>
+              <h3 className="text-sm font-medium text-gray-200">Injection Rules</h3>
+              <p className="text-[10px] text-gray-500 font-mono">
+                {ruleSet.source === 'file' ? ruleSet.file : 'Built-in rules (saving creates the rules file)'}
+              </p>
+              <p className="text-[10px] text-gray-500">
+                Language packs: {ruleSet.languages.length > 0 ? ruleSet.languages.join(', ') : 'none'} (SCAN_LANGUAGES)
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-gray-500">
+                {ruleSet.rules.filter((r) => r.enabled).length} of {ruleSet.rules.length} enabled
+              </span>
+              <button
+                onClick={() => openRuleModal('new')}
+                className="flex items-center gap-1 px-2.5 py-1 text-xs text-blue-400 bg-blue-500/10 border border-blue-500/20 rounded-md hover:bg-blue-500/20 transition-colors"
+              >
+                <Plus size={12} />
+                Add Rule
+              </button>
+            </div>
+          </div>
+          <div className="p-4">
+            {ruleError && editing === null && (
+              <p className="mb-3 text-xs text-red-400 whitespace-pre-line">{ruleError}</p>
+            )}
+            {ruleRows.length === 0 ? (
+              <EmptyState
+                icon={ListChecks}
+                title="No injection rules"
+                description="Messages from external senders are wrapped but not scanned."
+                action={{ label: 'Add Rule', onClick: () => openRuleModal('new') }}
+              />
+            ) : (
+              <DataTable
+                columns={ruleColumns}
+                data={ruleRows}
+                keyExtractor={(r) => String(r.index)}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Flagged Messages */}
       <div className="bg-gray-900/50 border border-gray-800 rounded-lg">
         <div className="px-4 py-3 border-b border-gray-800">
@@ -252,6 +472,99 @@ export default function Security() {
           )}
         </div>
       </div>
+
+      {/* Modal for add/edit rule */}
+      <Modal
+        open={editing !== null}
+        onClose={closeRuleModal}
+        title={editing === 'new' ? 'Add Injection Rule' : 'Edit Injection Rule'}
+        footer={
+          <>
+            <button
+              onClick={closeRuleModal}
+              className="px-3 py-1.5 text-xs text-gray-400 hover:text-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleRuleSubmit()}
+              disabled={saving || !ruleForm.category || !ruleForm.label || !ruleForm.regex}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </>
+        }
+      >
+        <form onSubmit={handleRuleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Category</label>
+              <input
+                type="text"
+                value={ruleForm.category}
+                onChange={(e) => setRuleForm({ ...ruleForm, category: e.target.value })}
+                placeholder="instruction_override"
+                className="w-full px-3 py-2 text-sm bg-gray-800 border border-gray-700 rounded-md text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Label</label>
+              <input
+                type="text"
+                value={ruleForm.label}
+                onChange={(e) => setRuleForm({ ...ruleForm, label: e.target.value })}
+                placeholder="ignore instructions"
+                className="w-full px-3 py-2 text-sm bg-gray-800 border border-gray-700 rounded-md text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Regex</label>
+            <input
+              type="text"
+              value={ruleForm.regex}
+              onChange={(e) => setRuleForm({ ...ruleForm, regex: e.target.value })}
+              placeholder="ignore\s+previous\s+instructions"
+              className="w-full px-3 py-2 text-sm font-mono bg-gray-800 border border-gray-700 rounded-md text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Flags</label>
+              <input
+                type="text"
+                value={ruleForm.flags}
+                onChange={(e) => setRuleForm({ ...ruleForm, flags: e.target.value })}
+                placeholder="i"
+                className="w-full px-3 py-2 text-sm font-mono bg-gray-800 border border-gray-700 rounded-md text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Severity</label>
+              <select
+                value={ruleForm.severity}
+                onChange={(e) => setRuleForm({ ...ruleForm, severity: e.target.value as RuleSeverity })}
+                className="w-full px-3 py-2 text-sm bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:outline-none focus:border-blue-500"
+              >
+                {SEVERITIES.map((s) => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 mt-5 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={ruleForm.enabled}
+                onChange={(e) => setRuleForm({ ...ruleForm, enabled: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Enabled
+            </label>
+          </div>
+          {ruleError && <p className="text-xs text-red-400 whitespace-pre-line">{ruleError}</p>}
+        </form>
+      </Modal>
     </div>
   )
 }
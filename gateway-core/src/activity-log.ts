@@ -0,0 +1,251 @@
+/**
+ * Activity log
+ *
+ * Tracks gateway events for monitoring, diagnostics and the management UI.
+ * One schema for every gateway. Events go to a pluggable store (see
+ * activity-store.ts): an in-memory ring buffer until the gateway calls
+ * configureActivityLog(), then the configured durable store.
+ */
+
+import crypto from 'crypto';
+import {
+  MemoryActivityStore,
+  JsonlActivityStore,
+  type ActivityStore,
+  type ActivityTimeRange,
+} from './activity-store.js';
+import { eventsTotal } from './metrics.js';
+import type { RuleSeverity } from './injection-rules.js';
+
+export interface ActivityEvent {
+  id: string;
+  timestamp: string;
+  type: 'inbound' | 'outbound' | 'error' | 'security';
+  summary: string;
+  details: {
+    from?: string;
+    to?: string;
+    subject?: string;
+    tenant?: string;
+    routeMatch?: string;
+    securityFlags?: string[];
+    error?: string;
+    ampMessageId?: string;
+    deliveryStatus?: string;
+    /** Risk score and policy action for scanned inbound content (see risk-policy.ts) */
+    riskScore?: number;
+    policyAction?: string;
+    /** Severity of a security event that is not scored (e.g. a leaked canary) */
+    severity?: RuleSeverity;
+    /** Platform id of the inbound message an outbound security event traces back to */
+    inboundMessageId?: string;
+  };
+}
+
+export interface ActivityLogConfig {
+  /** 'jsonl' persists to `dir`; 'memory' keeps the last 500 events only */
+  store: 'jsonl' | 'memory';
+  dir: string;
+  retentionDays: number;
+  maxBytes: number;
+}
+
+export interface ActivityQuery extends ActivityTimeRange {
+  limit?: number;
+  type?: ActivityEvent['type'];
+  search?: string;
+  ampMessageId?: string;
+  tenant?: string;
+  /** Injection category, matched against "category: match" security flags */
+  securityCategory?: string;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+}
+
+export interface ActivityPage {
+  events: ActivityEvent[];
+  /** Pass as `cursor` to get the next (older) page; null on the last page */
+  nextCursor: string | null;
+}
+
+let store: ActivityStore = new MemoryActivityStore();
+
+/**
+ * Switch the activity log to the configured store. Events logged before
+ * this call (e.g. during config bootstrap) are carried over.
+ */
+export function configureActivityLog(config: ActivityLogConfig): void {
+  let next: ActivityStore = new MemoryActivityStore();
+  if (config.store === 'jsonl') {
+    try {
+      next = new JsonlActivityStore(config.dir, { retentionDays: config.retentionDays, maxBytes: config.maxBytes });
+    } catch (err) {
+      console.error(`[ACTIVITY] Cannot use ${config.dir}, keeping events in memory:`, (err as Error).message);
+    }
+  }
+
+  const earlier = [...store.scan({})].reverse();
+  for (const event of earlier) {
+    next.append(event);
+  }
+
+  store.close();
+  store = next;
+}
+
+/**
+ * Add an event to the activity log.
+ */
+export function logEvent(
+  type: ActivityEvent['type'],
+  summary: string,
+  details: ActivityEvent['details'] = {}
+): ActivityEvent {
+  const event: ActivityEvent = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    type,
+    summary,
+    details,
+  };
+
+  store.append(event);
+  countEvent(event);
+
+  return event;
+}
+
+/**
+ * Feed gateway_events_total. The agent is the recipient of inbound and
+ * security events and the sender of outbound ones; error events do not say
+ * which side the agent is on. Security events count once per flagged category.
+ */
+function countEvent(event: ActivityEvent): void {
+  const { details } = event;
+  let agent: string | undefined;
+  if (event.type === 'inbound' || event.type === 'security') agent = details.to;
+  else if (event.type === 'outbound') agent = details.from;
+
+  // "category: match"; split on ': ' since categories may contain ':' (encoded:...)
+  const categories = new Set((details.securityFlags ?? []).map((flag) => flag.split(': ')[0].trim()));
+  if (categories.size === 0) categories.add('none');
+
+  for (const category of categories) {
+    eventsTotal.inc({ type: event.type, agent: agent || 'unknown', category });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+function encodeCursor(event: ActivityEvent): string {
+  return Buffer.from(`${event.timestamp}|${event.id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { timestamp: string; id: string } | null {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString('utf-8').split('|');
+  if (!timestamp || !id || Number.isNaN(Date.parse(timestamp))) return null;
+  return { timestamp, id };
+}
+
+function matches(e: ActivityEvent, query: ActivityQuery): boolean {
+  if (query.type && e.type !== query.type) return false;
+  if (query.ampMessageId && e.details.ampMessageId !== query.ampMessageId) return false;
+  if (query.tenant && e.details.tenant !== query.tenant) return false;
+
+  if (query.securityCategory) {
+    const prefix = `${query.securityCategory}:`;
+    if (!e.details.securityFlags?.some((flag) => flag.startsWith(prefix))) return false;
+  }
+
+  if (query.search) {
+    const q = query.search.toLowerCase();
+    const hit =
+      e.summary.toLowerCase().includes(q) ||
+      e.details.from?.toLowerCase().includes(q) ||
+      e.details.to?.toLowerCase().includes(q) ||
+      e.details.subject?.toLowerCase().includes(q);
+    if (!hit) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Query events, newest first, with filters and cursor pagination.
+ */
+export function queryEvents(query: ActivityQuery = {}): ActivityPage {
+  const limit = query.limit || 100;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+  let until = query.until;
+  if (cursor && (!until || cursor.timestamp < until)) {
+    until = cursor.timestamp;
+  }
+
+  const events: ActivityEvent[] = [];
+  let skipping = cursor !== null;
+
+  for (const e of store.scan({ since: query.since, until })) {
+    // Resume strictly after the cursor event (timestamps can tie)
+    if (skipping && cursor) {
+      if (e.timestamp === cursor.timestamp) {
+        if (e.id === cursor.id) skipping = false;
+        continue;
+      }
+      skipping = false;
+    }
+
+    if (!matches(e, query)) continue;
+
+    if (events.length === limit) {
+      return { events, nextCursor: encodeCursor(events[events.length - 1]) };
+    }
+    events.push(e);
+  }
+
+  return { events, nextCursor: null };
+}
+
+/**
+ * Get recent events with optional filtering.
+ */
+export function getEvents(
+  options: {
+    limit?: number;
+    type?: ActivityEvent['type'];
+    search?: string;
+  } = {}
+): ActivityEvent[] {
+  return queryEvents(options).events;
+}
+
+/**
+ * Get aggregate stats for today (UTC), computed from the store.
+ */
+export function getTodayStats(): {
+  inbound: number;
+  outbound: number;
+  errors: number;
+  security: number;
+  total: number;
+} {
+  const today = new Date().toISOString().slice(0, 10);
+  const counts = { inbound: 0, outbound: 0, errors: 0, security: 0, total: 0 };
+  for (const e of store.scan({ since: today })) {
+    counts.total++;
+    if (e.type === 'inbound') counts.inbound++;
+    else if (e.type === 'outbound') counts.outbound++;
+    else if (e.type === 'error') counts.errors++;
+    else if (e.type === 'security') counts.security++;
+  }
+  return counts;
+}
+
+/**
+ * Get total event count.
+ */
+export function getEventCount(): number {
+  return store.count();
+}
@@ -0,0 +1,218 @@
+/**
+ * Activity log storage backends
+ *
+ * - MemoryActivityStore: ring buffer, resets on restart (used until the
+ *   gateway configures a durable store, and for ACTIVITY_STORE=memory)
+ * - JsonlActivityStore: append-only JSONL, one file per UTC day
+ *   (`activity-YYYY-MM-DD.jsonl`), pruned by age and total size
+ *
+ * A backend only has to append events and replay them newest-first within
+ * a time range; filtering, pagination and stats live in activity-log.ts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ActivityEvent } from './activity-log.js';
+
+export interface ActivityTimeRange {
+  /** Inclusive lower bound (ISO timestamp) */
+  since?: string;
+  /** Inclusive upper bound (ISO timestamp) */
+  until?: string;
+}
+
+export interface ActivityStore {
+  append(event: ActivityEvent): void;
+  /** Replay events newest first, restricted to the time range */
+  scan(range: ActivityTimeRange): Iterable<ActivityEvent>;
+  /** Number of events currently retained */
+  count(): number;
+  close(): void;
+}
+
+function inRange(timestamp: string, range: ActivityTimeRange): boolean {
+  if (range.since && timestamp < range.since) return false;
+  if (range.until && timestamp > range.until) return false;
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// In-memory ring buffer
+// ---------------------------------------------------------------------------
+
+export class MemoryActivityStore implements ActivityStore {
+  private readonly events: ActivityEvent[] = [];
+
+  constructor(private readonly maxEvents: number = 500) {}
+
+  append(event: ActivityEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+  }
+
+  *scan(range: ActivityTimeRange): Iterable<ActivityEvent> {
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      if (inRange(this.events[i].timestamp, range)) yield this.events[i];
+    }
+  }
+
+  count(): number {
+    return this.events.length;
+  }
+
+  close(): void {}
+}
+
+// ---------------------------------------------------------------------------
+// Append-only JSONL files
+// ---------------------------------------------------------------------------
+
+export interface JsonlRetention {
+  /** Delete day files older than this many days */
+  retentionDays: number;
+  /** Delete the oldest day files while the total exceeds this many bytes */
+  maxBytes: number;
+}
+
+const FILE_PATTERN = /^activity-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface DayFile {
+  day: string;
+  name: string;
+  bytes: number;
+  lines: number;
+}
+
+export class JsonlActivityStore implements ActivityStore {
+  /** Day files, oldest first */
+  private files: DayFile[] = [];
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly dir: string,
+    private readonly retention: JsonlRetention
+  ) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.files = this.loadIndex();
+    this.prune();
+    this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL_MS);
+    this.pruneTimer.unref();
+  }
+
+  append(event: ActivityEvent): void {
+    const day = event.timestamp.slice(0, 10);
+    const line = JSON.stringify(event) + '\n';
+    const name = `activity-${day}.jsonl`;
+
+    try {
+      fs.appendFileSync(path.join(this.dir, name), line);
+    } catch (err) {
+      console.error('[ACTIVITY] Failed to persist event:', (err as Error).message);
+      return;
+    }
+
+    let file = this.files.find((f) => f.day === day);
+    if (!file) {
+      file = { day, name, bytes: 0, lines: 0 };
+      this.files.push(file);
+      this.files.sort((a, b) => a.day.localeCompare(b.day));
+    }
+    file.bytes += Buffer.byteLength(line);
+    file.lines++;
+
+    if (this.totalBytes() > this.retention.maxBytes) {
+      this.prune();
+    }
+  }
+
+  *scan(range: ActivityTimeRange): Iterable<ActivityEvent> {
+    const sinceDay = range.since?.slice(0, 10);
+    const untilDay = range.until?.slice(0, 10);
+
+    for (let f = this.files.length - 1; f >= 0; f--) {
+      const file = this.files[f];
+      if (untilDay && file.day > untilDay) continue;
+      if (sinceDay && file.day < sinceDay) break;
+
+      let lines: string[];
+      try {
+        lines = fs.readFileSync(path.join(this.dir, file.name), 'utf-8').split('\n');
+      } catch {
+        continue;
+      }
+
+      for (let i = lines.length - 1; i >= 0; i--) {
+        if (!lines[i]) continue;
+        let event: ActivityEvent;
+        try {
+          event = JSON.parse(lines[i]) as ActivityEvent;
+        } catch {
+          // Skip a torn line from a crash mid-write
+          continue;
+        }
+        if (inRange(event.timestamp, range)) yield event;
+      }
+    }
+  }
+
+  count(): number {
+    return this.files.reduce((sum, f) => sum + f.lines, 0);
+  }
+
+  close(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  /**
+   * Drop day files past the retention age, then the oldest files until the
+   * total size fits. The current day's file is never deleted.
+   */
+  prune(): void {
+    const today = new Date().toISOString().slice(0, 10);
+    const cutoffDay = new Date(Date.now() - this.retention.retentionDays * 86_400_000)
+      .toISOString()
+      .slice(0, 10);
+
+    while (this.files.length > 0) {
+      const oldest = this.files[0];
+      if (oldest.day >= today) break;
+      const tooOld = oldest.day < cutoffDay;
+      const tooBig = this.totalBytes() > this.retention.maxBytes;
+      if (!tooOld && !tooBig) break;
+
+      try {
+        fs.unlinkSync(path.join(this.dir, oldest.name));
+      } catch {
+        // Already removed
+      }
+      this.files.shift();
+      console.log(`[ACTIVITY] Pruned ${oldest.name} (${tooOld ? 'retention age' : 'size limit'})`);
+    }
+  }
+
+  private totalBytes(): number {
+    return this.files.reduce((sum, f) => sum + f.bytes, 0);
+  }
+
+  private loadIndex(): DayFile[] {
+    const files: DayFile[] = [];
+    for (const name of fs.readdirSync(this.dir)) {
+      const match = name.match(FILE_PATTERN);
+      if (!match) continue;
+      const contents = fs.readFileSync(path.join(this.dir, name), 'utf-8');
+      files.push({
+        day: match[1],
+        name,
+        bytes: Buffer.byteLength(contents),
+        lines: contents.split('\n').filter(Boolean).length,
+      });
+    }
+    return files.sort((a, b) => a.day.localeCompare(b.day));
+  }
+}
@@ -4,6 +4,10 @@
  * On first boot (no AMP_API_KEY), registers the gateway as an AMP bridge
  * agent with the provider. Generates Ed25519 keys, calls /api/v1/register,
  * and persists everything to ~/.agent-messaging/ and the .env file.
+ *
+ * Agent files live under ~/.agent-messaging/agents/{agentId}/ and
+ * .index.json maps the agent name to that directory, which is how every
+ * gateway's config resolves its inbox.
  */
 
 import * as crypto from 'crypto';
@@ -101,7 +105,7 @@ async function registerAgent(
 }
 
 /**
- * Save agent config and keys to ~/.agent-messaging/agents/{name}/
+ * Save agent config and keys to ~/.agent-messaging/agents/{agentId}/
  */
 function saveAgentFiles(
   agentName: string,
@@ -113,7 +117,7 @@ function saveAgentFiles(
   publicKeyPem: string,
   privateKeyPem: string
 ): string {
-  const agentDir = path.join(process.env.HOME || '/root', '.agent-messaging', 'agents', agentName);
+  const agentDir = path.join(process.env.HOME || '/root', '.agent-messaging', 'agents', agentId);
   const keysDir = path.join(agentDir, 'keys');
   const msgsDir = path.join(agentDir, 'messages');
   const inboxDir = path.join(msgsDir, 'inbox');
@@ -168,7 +172,7 @@ function saveAgentFiles(
 /**
  * Update .index.json to map agent name → directory name.
  */
-function updateIndex(agentName: string): void {
+function updateIndex(agentName: string, agentId: string): void {
   const agentsDir = path.join(process.env.HOME || '/root', '.agent-messaging', 'agents');
   const indexPath = path.join(agentsDir, '.index.json');
 
@@ -179,7 +183,7 @@ function updateIndex(agentName: string): void {
     // New index
   }
 
-  index[agentName] = agentName;
+  index[agentName] = agentId;
   fs.writeFileSync(indexPath, JSON.stringify(index, null, 2));
 }
 
@@ -259,8 +263,8 @@ export async function bootstrapAMP(options: BootstrapOptions): Promise<Bootstrap
     publicKeyPem,
     privateKeyPem
   );
-  updateIndex(options.agentName);
-  console.log(`[BOOTSTRAP] Saved agent files to ~/.agent-messaging/agents/${options.agentName}/`);
+  updateIndex(options.agentName, result.agent_id);
+  console.log(`[BOOTSTRAP] Saved agent files to ~/.agent-messaging/agents/${result.agent_id}/`);
 
   // 5. Persist to .env
   persistToEnv(options.envFile, result.api_key, result.address, tenant, inboxDir);
@@ -0,0 +1,122 @@
+/**
+ * Gateway Core - AMP Message Signing
+ *
+ * Signs route requests with the bridge agent's Ed25519 key (generated by
+ * amp-bootstrap.ts as keys/private.pem) so receiving agents can verify that
+ * a message really came from the gateway.
+ *
+ * AMP signing input (one line, fields joined with "|"):
+ *
+ *   from|to|subject|priority|in_reply_to|payload_hash
+ *
+ * - priority defaults to "normal", in_reply_to to "" when absent
+ * - payload_hash = base64(SHA-256(canonical JSON of the payload)), where
+ *   canonical JSON has object keys sorted recursively and no whitespace
+ *
+ * The signature is the base64 Ed25519 signature of that input.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type { AMPPayload, AMPPriority, AMPRouteRequest } from './types.js';
+
+export interface SigningConfig {
+  /** Sign outbound route requests (default on) */
+  enabled: boolean;
+  /** PEM-encoded Ed25519 private key (keys/private.pem of the bridge agent) */
+  privateKeyPath: string;
+}
+
+/** Envelope fields covered by the signature */
+export interface SignedFields {
+  from: string;
+  to: string;
+  subject: string;
+  priority?: AMPPriority;
+  in_reply_to?: string | null;
+}
+
+/**
+ * JSON with object keys sorted recursively and no insignificant whitespace.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+/**
+ * Build the AMP signing input for a message.
+ */
+export function signingInput(fields: SignedFields, payload: AMPPayload | AMPRouteRequest['payload']): string {
+  const payloadHash = crypto.createHash('sha256').update(canonicalJson(payload)).digest('base64');
+  return [
+    fields.from,
+    fields.to,
+    fields.subject,
+    fields.priority || 'normal',
+    fields.in_reply_to || '',
+    payloadHash,
+  ].join('|');
+}
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+/** Loaded keys by path; null records a key that could not be loaded */
+const keys = new Map<string, crypto.KeyObject | null>();
+
+function loadPrivateKey(keyPath: string): crypto.KeyObject | null {
+  if (keys.has(keyPath)) return keys.get(keyPath)!;
+
+  let key: crypto.KeyObject | null = null;
+  try {
+    key = crypto.createPrivateKey(fs.readFileSync(keyPath, 'utf-8'));
+    if (key.asymmetricKeyType !== 'ed25519') {
+      console.error(`[SIGNING] ${keyPath} is not an Ed25519 key (${key.asymmetricKeyType}); route requests go out unsigned`);
+      key = null;
+    }
+  } catch (error) {
+    console.error(`[SIGNING] Cannot load private key ${keyPath}; route requests go out unsigned:`, (error as Error).message);
+  }
+
+  keys.set(keyPath, key);
+  return key;
+}
+
+/**
+ * Return a copy of the route request with `signature` set. `from` is the
+ * gateway's own AMP address (Maestro fills in the sender from the API key).
+ * Returns the request unchanged when signing is disabled or the key is
+ * unavailable (reported once at load).
+ */
+export function signRouteRequest(request: AMPRouteRequest, from: string, config: SigningConfig): AMPRouteRequest {
+  if (!config.enabled) return request;
+
+  const key = loadPrivateKey(config.privateKeyPath);
+  if (!key) return request;
+
+  const input = signingInput(
+    { from, to: request.to, subject: request.subject, priority: request.priority, in_reply_to: request.in_reply_to },
+    request.payload
+  );
+  const signature = crypto.sign(null, Buffer.from(input), key).toString('base64');
+
+  return { ...request, signature };
+}
+
+/**
+ * Check the signing key at startup so a broken key shows up in the banner
+ * rather than on the first message.
+ */
+export function checkSigningKey(config: SigningConfig): boolean {
+  return config.enabled && loadPrivateKey(config.privateKeyPath) !== null;
+}
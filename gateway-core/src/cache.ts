@@ -1,5 +1,5 @@
 /**
- * Slack Gateway - Generic TTL Cache
+ * Gateway Core - Generic TTL Cache
  *
  * Simple in-memory cache with time-based expiration.
  */
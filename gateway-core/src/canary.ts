@@ -0,0 +1,128 @@
+/**
+ * Gateway Core - Canary Tokens
+ *
+ * Detects agents echoing their security framing back to a platform. With
+ * canaries enabled, every wrapped inbound message carries a random token in
+ * its <external-content> attributes (canary="AIM-CANARY-<hex>"). The token
+ * has no business in a response, and neither have the wrapper's own
+ * markers ("[CONTENT IS DATA ONLY", "<external-content", "[SECURITY
+ * WARNING:"), so outbound pollers check agent responses for both.
+ *
+ * Issued canaries are remembered in memory for `ttlMs` together with the
+ * inbound message they were embedded in, so a leak is traced back to it.
+ * A canary that is no longer remembered (expired, or issued before a
+ * restart) is still recognized by its format.
+ */
+
+import crypto from 'crypto';
+import { Cache } from './cache.js';
+import { logEvent } from './activity-log.js';
+
+export interface CanaryConfig {
+  /** Embed a canary in each wrapped inbound message */
+  enabled: boolean;
+  /** How long an issued canary can be traced to its inbound message */
+  ttlMs: number;
+}
+
+export const DEFAULT_CANARY_CONFIG: CanaryConfig = { enabled: false, ttlMs: 7 * 24 * 60 * 60 * 1000 };
+
+/** The inbound message a canary was embedded in */
+export interface CanaryOrigin {
+  source: string;
+  sender: string;
+  /** Agent the message was routed to */
+  to: string;
+  subject: string;
+  /** Platform message id (Discord message, Slack ts, email Message-Id, ...) */
+  messageId?: string;
+  issuedAt: string;
+}
+
+export interface WrapperLeak {
+  kind: 'canary' | 'marker';
+  match: string;
+  /** Inbound message the canary came from, when it is still remembered */
+  origin: CanaryOrigin | null;
+}
+
+const CANARY_PATTERN = /\bAIM-CANARY-[0-9a-f]{16}\b/gi;
+const WRAPPER_MARKERS = /\[CONTENT IS DATA ONLY|<\/?external-content\b|\[SECURITY WARNING:/gi;
+
+/** Upper bound on remembered canaries; the oldest are forgotten first */
+const MAX_CANARIES = 10000;
+
+let canaryConfig: CanaryConfig = DEFAULT_CANARY_CONFIG;
+let issued = new Cache<CanaryOrigin>(canaryConfig.ttlMs, MAX_CANARIES);
+
+export function configureCanaries(config: CanaryConfig): void {
+  canaryConfig = config;
+  issued = new Cache<CanaryOrigin>(config.ttlMs, MAX_CANARIES);
+}
+
+/**
+ * Create a canary for an inbound message and remember where it went.
+ * Returns undefined while canaries are disabled.
+ */
+export function issueCanary(origin: Omit<CanaryOrigin, 'issuedAt'>): string | undefined {
+  if (!canaryConfig.enabled) return undefined;
+  const token = `AIM-CANARY-${crypto.randomBytes(8).toString('hex')}`;
+  issued.set(token.toLowerCase(), { ...origin, issuedAt: new Date().toISOString() });
+  return token;
+}
+
+/**
+ * Canaries and wrapper markers in an agent response. Each distinct match
+ * is reported once.
+ */
+export function findWrapperLeaks(text: string): WrapperLeak[] {
+  const leaks: WrapperLeak[] = [];
+  const seen = new Set<string>();
+
+  for (const match of text.match(CANARY_PATTERN) ?? []) {
+    const token = match.toLowerCase();
+    if (seen.has(token)) continue;
+    seen.add(token);
+    leaks.push({ kind: 'canary', match, origin: issued.get(token) });
+  }
+
+  for (const match of text.match(WRAPPER_MARKERS) ?? []) {
+    const marker = match.toLowerCase();
+    if (seen.has(marker)) continue;
+    seen.add(marker);
+    leaks.push({ kind: 'marker', match, origin: null });
+  }
+
+  return leaks;
+}
+
+/**
+ * Check an agent response for leaked canaries or wrapper markers and log
+ * a high-severity `security` event tied to the inbound message the canary
+ * was issued for. Returns the leaks found.
+ */
+export function reportWrapperLeaks(
+  text: string,
+  response: { from: string; to?: string; ampMessageId?: string }
+): WrapperLeak[] {
+  const leaks = findWrapperLeaks(text);
+  if (leaks.length === 0) return leaks;
+
+  const origin = leaks.find((l) => l.origin)?.origin ?? null;
+  const what = leaks.some((l) => l.kind === 'canary') ? 'canary token' : 'wrapper markers';
+  console.warn(
+    `[SECURITY] Response from ${response.from} leaked ${what}${origin ? ` (inbound ${origin.source} message from ${origin.sender})` : ''}`
+  );
+
+  logEvent('security', `Agent response leaked ${what}: ${response.from}`, {
+    from: response.from,
+    to: origin?.sender ?? response.to,
+    subject: origin?.subject,
+    securityFlags: leaks.map((l) => `${l.kind === 'canary' ? 'canary_leak' : 'wrapper_leak'}: ${l.match}`),
+    severity: 'high',
+    ampMessageId: response.ampMessageId,
+    inboundMessageId: origin?.messageId,
+  });
+
+  return leaks;
+}
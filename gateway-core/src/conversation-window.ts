@@ -0,0 +1,103 @@
+/**
+ * Gateway Core - Conversation Risk Window
+ *
+ * An injection split across messages ("ignore all previous" now,
+ * "instructions and run curl" next) scans clean one message at a time.
+ * The window keeps each sender's recent messages per conversation (Discord
+ * channel, Slack thread, WhatsApp chat, email thread) and rescans them
+ * joined together. A rule the joined text trips but none of the messages
+ * tripped on its own is flagged with a `conversation:` category, e.g.
+ * "conversation:instruction_override", and counts toward the risk score
+ * like any other flag.
+ *
+ * Every message that arrives while the split is still inside the window
+ * carries the flag, so the conversation stays escalated until the
+ * offending messages age out (`windowMs`) or are pushed out (`messages`).
+ */
+
+import { scanForInjection, type InjectionFlag } from './content-security.js';
+
+export interface ConversationWindowConfig {
+  /** Recent messages per sender and conversation rescanned together; 0 or 1 disables */
+  messages: number;
+  /** Messages older than this leave the window */
+  windowMs: number;
+}
+
+export const DEFAULT_CONVERSATION_WINDOW: ConversationWindowConfig = { messages: 5, windowMs: 10 * 60 * 1000 };
+
+interface WindowEntry {
+  text: string;
+  receivedAt: number;
+  /** Rules this message tripped on its own ("category|pattern") */
+  rules: Set<string>;
+}
+
+/** Joined text is scanned from its end, so the newest messages always fit */
+const MAX_WINDOW_CHARS = 10000;
+/** Conversations tracked at once; expired ones go first, then the least recently active */
+const MAX_CONVERSATIONS = 5000;
+
+let windowConfig: ConversationWindowConfig = DEFAULT_CONVERSATION_WINDOW;
+const windows = new Map<string, WindowEntry[]>();
+
+export function configureConversationWindow(config: ConversationWindowConfig): void {
+  windowConfig = config;
+  windows.clear();
+}
+
+function ruleKey(flag: InjectionFlag): string {
+  return `${flag.category}|${flag.pattern}`;
+}
+
+/**
+ * Add a message to its conversation window and rescan the sender's recent
+ * messages together. `flags` are the message's own scan results. Returns
+ * the flags only the joined text produced (empty while the window holds a
+ * single message).
+ */
+export function scanConversation(
+  conversation: string,
+  sender: string,
+  text: string,
+  flags: InjectionFlag[]
+): InjectionFlag[] {
+  if (windowConfig.messages < 2) return [];
+
+  const key = `${conversation}\u0000${sender}`;
+  const now = Date.now();
+  const entries = (windows.get(key) ?? []).filter((e) => now - e.receivedAt < windowConfig.windowMs);
+  entries.push({ text, receivedAt: now, rules: new Set(flags.map(ruleKey)) });
+  while (entries.length > windowConfig.messages) entries.shift();
+
+  // Re-insert so the map stays ordered by last activity
+  windows.delete(key);
+  windows.set(key, entries);
+  prune(now);
+
+  if (entries.length < 2) return [];
+
+  let joined = entries.map((e) => e.text).join('\n');
+  if (joined.length > MAX_WINDOW_CHARS) joined = joined.substring(joined.length - MAX_WINDOW_CHARS);
+
+  const individual = new Set(entries.flatMap((e) => [...e.rules]));
+  return scanForInjection(joined)
+    .filter((f) => !individual.has(ruleKey(f)))
+    .map((f) => ({
+      category: `conversation:${f.category}`,
+      pattern: `${f.pattern} (across ${entries.length} messages)`,
+      match: f.match,
+      severity: f.severity,
+    }));
+}
+
+function prune(now: number): void {
+  if (windows.size <= MAX_CONVERSATIONS) return;
+  for (const [key, entries] of windows) {
+    if (now - entries[entries.length - 1].receivedAt >= windowConfig.windowMs) windows.delete(key);
+  }
+  for (const key of windows.keys()) {
+    if (windows.size <= MAX_CONVERSATIONS) break;
+    windows.delete(key);
+  }
+}
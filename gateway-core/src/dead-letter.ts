@@ -0,0 +1,205 @@
+/**
+ * Gateway Core - Dead-Letter Store
+ *
+ * Outbound messages that could not be delivered (permanent failure, or
+ * retries exhausted) are moved out of the AMP inbox into a dead-letter
+ * directory together with the failure reason. Operators can list them,
+ * move them back into the inbox for another attempt, or discard them.
+ *
+ * Responses held by outbound DLP are stored here too (`held: true`).
+ * Retrying one releases it: the next delivery of that file skips the DLP
+ * check. Releases are kept in `<deadLetterDir>/released.json` so they
+ * survive a restart.
+ *
+ * Layout: one JSON record per message, `<deadLetterDir>/<id>.json`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AMPMessage } from './types.js';
+
+export interface DeadLetter {
+  id: string;
+  /** Path of the original message file, relative to the inbox (sender/file.json) */
+  originalPath: string;
+  reason: string;
+  attempts: number;
+  failedAt: string;
+  /** Parsed AMP message, or null if the file was not valid JSON */
+  message: AMPMessage | null;
+  /** Original file contents, kept only when the message could not be parsed */
+  raw?: string;
+  /** Held by outbound DLP rather than failed */
+  held?: boolean;
+}
+
+export interface DeadLetterSummary {
+  id: string;
+  originalPath: string;
+  reason: string;
+  attempts: number;
+  failedAt: string;
+  from: string;
+  subject: string;
+  held: boolean;
+}
+
+/** Dead-letter ids are generated from sender + file name; reject anything else */
+const ID_PATTERN = /^[\w.@+-]+$/;
+const RELEASED_FILE = 'released.json';
+
+export class DeadLetterStore {
+  constructor(
+    private readonly deadLetterDir: string,
+    private readonly inboxDir: string
+  ) {}
+
+  /**
+   * Move an inbox file into the dead-letter directory.
+   * Returns the stored record, or null if the file no longer exists.
+   */
+  add(filePath: string, reason: string, attempts: number, held = false): DeadLetter | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let message: AMPMessage | null = null;
+    try {
+      message = JSON.parse(raw) as AMPMessage;
+    } catch {
+      // Keep the raw contents instead
+    }
+
+    const originalPath = path.relative(this.inboxDir, filePath);
+    const record: DeadLetter = {
+      id: this.nextId(originalPath),
+      originalPath,
+      reason,
+      attempts,
+      failedAt: new Date().toISOString(),
+      message,
+      ...(message ? {} : { raw }),
+      ...(held ? { held } : {}),
+    };
+
+    fs.mkdirSync(this.deadLetterDir, { recursive: true });
+    fs.writeFileSync(this.recordPath(record.id), JSON.stringify(record, null, 2));
+    fs.unlinkSync(filePath);
+
+    return record;
+  }
+
+  /**
+   * List dead letters, newest first.
+   */
+  list(): DeadLetterSummary[] {
+    if (!fs.existsSync(this.deadLetterDir)) return [];
+
+    const summaries: DeadLetterSummary[] = [];
+    for (const file of fs.readdirSync(this.deadLetterDir)) {
+      if (!file.endsWith('.json') || file === RELEASED_FILE) continue;
+      const record = this.get(file.slice(0, -'.json'.length));
+      if (!record) continue;
+      summaries.push({
+        id: record.id,
+        originalPath: record.originalPath,
+        reason: record.reason,
+        attempts: record.attempts,
+        failedAt: record.failedAt,
+        from: record.message?.envelope?.from || '',
+        subject: record.message?.envelope?.subject || '',
+        held: record.held === true,
+      });
+    }
+
+    return summaries.sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+  }
+
+  count(): number {
+    return this.list().length;
+  }
+
+  get(id: string): DeadLetter | null {
+    if (!ID_PATTERN.test(id) || `${id}.json` === RELEASED_FILE) return null;
+    try {
+      return JSON.parse(fs.readFileSync(this.recordPath(id), 'utf-8')) as DeadLetter;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Move a dead letter back into the inbox so the gateway picks it up again.
+   * The file is written under a temporary name and renamed into place so
+   * the inbox watcher never sees a partial file. A held record is released.
+   */
+  retry(id: string): boolean {
+    const record = this.get(id);
+    if (!record) return false;
+
+    const target = path.join(this.inboxDir, record.originalPath);
+    if (!target.startsWith(this.inboxDir + path.sep)) return false;
+
+    if (record.held) {
+      this.writeReleased([...this.readReleased().filter((p) => p !== record.originalPath), record.originalPath]);
+    }
+
+    const contents = record.message ? JSON.stringify(record.message, null, 2) : (record.raw ?? '');
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    const tmpPath = `${target}.tmp`;
+    fs.writeFileSync(tmpPath, contents);
+    fs.renameSync(tmpPath, target);
+    fs.unlinkSync(this.recordPath(id));
+
+    return true;
+  }
+
+  /**
+   * True (once) if `filePath` is a held response an operator released.
+   */
+  consumeRelease(filePath: string): boolean {
+    const released = this.readReleased();
+    const originalPath = path.relative(this.inboxDir, filePath);
+    if (!released.includes(originalPath)) return false;
+    this.writeReleased(released.filter((p) => p !== originalPath));
+    return true;
+  }
+
+  discard(id: string): boolean {
+    if (!this.get(id)) return false;
+    fs.unlinkSync(this.recordPath(id));
+    return true;
+  }
+
+  private readReleased(): string[] {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.deadLetterDir, RELEASED_FILE), 'utf-8')) as string[];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeReleased(released: string[]): void {
+    fs.mkdirSync(this.deadLetterDir, { recursive: true });
+    fs.writeFileSync(path.join(this.deadLetterDir, RELEASED_FILE), JSON.stringify(released));
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.deadLetterDir, `${id}.json`);
+  }
+
+  private nextId(originalPath: string): string {
+    const base = originalPath
+      .replace(/\.json$/, '')
+      .replace(/[\\/]/g, '--')
+      .replace(/[^\w.@+-]/g, '_');
+    let id = base;
+    for (let n = 2; fs.existsSync(this.recordPath(id)); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Gateway Core - Operator Impersonation
+ *
+ * Trust comes from platform IDs, never from names, but agents still read
+ * `sender="..."`. An external user who calls themselves after an operator
+ * is flagged: each gateway remembers the names its operators appear under
+ * (fetched from the platform, learned from their messages, or derived from
+ * operator email addresses) and compares every non-operator display name
+ * against them.
+ *
+ * Names are compared by skeleton (see nameSkeleton in
+ * unicode-obfuscation.ts), so homoglyphs, accents, spacing and "0 for o"
+ * spellings do not help; one further edit is tolerated for longer names.
+ */
+
+import type { InjectionFlag } from './content-security.js';
+import { nameSkeleton } from './unicode-obfuscation.js';
+
+interface OperatorName {
+  name: string;
+  skeleton: string;
+}
+
+/** Skeletons shorter than this are too generic to compare ("Al", "Jo") */
+const MIN_SKELETON_LENGTH = 3;
+/** From this skeleton length on, one substituted/added/removed character still matches */
+const FUZZY_MIN_LENGTH = 5;
+
+const operatorNames = new Map<string, OperatorName[]>();
+
+/**
+ * Record the names an operator is known under (platform name, nickname,
+ * email From-name, ...). Empty names and duplicates are ignored.
+ */
+export function rememberOperatorNames(operatorId: string, names: Array<string | null | undefined>): void {
+  const known = operatorNames.get(operatorId) ?? [];
+  for (const name of names) {
+    if (!name?.trim()) continue;
+    const skeleton = nameSkeleton(name);
+    if (skeleton.length < MIN_SKELETON_LENGTH || known.some((n) => n.skeleton === skeleton)) continue;
+    known.push({ name: name.trim(), skeleton });
+  }
+  operatorNames.set(operatorId, known);
+}
+
+/** Forget all operator names (e.g. before reloading the operator list) */
+export function clearOperatorNames(): void {
+  operatorNames.clear();
+}
+
+/**
+ * Flag a non-operator display name that equals or closely resembles an
+ * operator's. Returns null when it resembles none.
+ */
+export function detectImpersonation(displayName: string | null | undefined): InjectionFlag | null {
+  if (!displayName) return null;
+  const skeleton = nameSkeleton(displayName);
+  if (skeleton.length < MIN_SKELETON_LENGTH) return null;
+
+  for (const names of operatorNames.values()) {
+    for (const operator of names) {
+      if (skeleton === operator.skeleton) {
+        const identical = displayName.trim().toLowerCase() === operator.name.toLowerCase();
+        return {
+          category: 'impersonation',
+          pattern: `${identical ? 'same name as' : 'look-alike of'} operator "${operator.name}"`,
+          match: displayName,
+          severity: 'high',
+        };
+      }
+      if (operator.skeleton.length >= FUZZY_MIN_LENGTH && withinOneEdit(skeleton, operator.skeleton)) {
+        return {
+          category: 'impersonation',
+          pattern: `close to operator "${operator.name}"`,
+          match: displayName,
+          severity: 'high',
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/** True if `a` becomes `b` with at most one substitution, insertion or deletion */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (a.length < b.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
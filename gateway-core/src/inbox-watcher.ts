@@ -0,0 +1,310 @@
+/**
+ * Gateway Core - Event-Driven AMP Inbox Watcher
+ *
+ * Watches the AMP filesystem inbox (inboxDir/<sender>/<id>.json) with
+ * fs.watch (inotify on Linux) and dispatches each message file to the
+ * gateway's handler. A periodic full rescan runs as a safety net for
+ * missed events, filesystems without watch support, and an inbox
+ * directory that does not exist yet.
+ *
+ * Guarantees:
+ * - Each message file is dispatched exactly once while it exists. If the
+ *   handler leaves the file in place it is not dispatched again; a file
+ *   that is deleted and later re-created under the same name is new.
+ * - Files are only dispatched once they have settled: size and mtime must
+ *   be unchanged across a settle delay, so partially written files are
+ *   never read. Writers that use atomic rename (write `x.tmp`, rename to
+ *   `x.json`) are picked up immediately after the settle check.
+ * - Dispatch is serial, in the order files settle. A handler that leaves
+ *   the file for a retry returns a delay; the file is queued again once it
+ *   has passed, so retries run in the same serial queue.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface InboxWatcherOptions {
+  /** AMP inbox root (contains one directory per sender) */
+  inboxDir: string;
+  /**
+   * Called once per settled message file. Responsible for deleting it, or
+   * returns a delay in ms after which the file is dispatched again (a retry).
+   */
+  onMessage: (filePath: string) => Promise<number | void>;
+  /** Interval of the safety-net full rescan */
+  rescanIntervalMs: number;
+  /** How long a file's size/mtime must stay unchanged before dispatch (default 250) */
+  settleMs?: number;
+  /** Delay before the first full scan (default 0) */
+  initialDelayMs?: number;
+  /** Debug logger; receives the same arguments as console.log */
+  debug?: (message: string, ...args: unknown[]) => void;
+}
+
+const DEFAULT_SETTLE_MS = 250;
+
+interface FileSnapshot {
+  size: number;
+  mtimeMs: number;
+}
+
+function snapshot(filePath: string): FileSnapshot | null {
+  try {
+    const stat = fs.statSync(filePath);
+    if (!stat.isFile()) return null;
+    return { size: stat.size, mtimeMs: stat.mtimeMs };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start watching the inbox. Returns a cleanup function that stops the
+ * watcher, the rescan timer and any pending settle checks.
+ */
+export function startInboxWatcher(options: InboxWatcherOptions): () => void {
+  const { inboxDir, onMessage, rescanIntervalMs } = options;
+  const settleMs = options.settleMs ?? DEFAULT_SETTLE_MS;
+  const debug = options.debug ?? (() => {});
+
+  /** Files handed to onMessage (or queued for it) that still exist */
+  const dispatched = new Set<string>();
+  /** Files waiting for their settle check */
+  const settling = new Map<string, NodeJS.Timeout>();
+  /** Files waiting for a retry the handler asked for */
+  const retrying = new Map<string, NodeJS.Timeout>();
+  const queue: string[] = [];
+
+  let watcher: fs.FSWatcher | null = null;
+  let rescanTimeoutId: NodeJS.Timeout | null = null;
+  let isDraining = false;
+  let stopped = false;
+
+  // -------------------------------------------------------------------------
+  // Dispatch
+  // -------------------------------------------------------------------------
+
+  async function drain(): Promise<void> {
+    if (isDraining) return;
+    isDraining = true;
+
+    try {
+      while (queue.length > 0 && !stopped) {
+        const filePath = queue.shift()!;
+        try {
+          const retryInMs = await onMessage(filePath);
+          if (typeof retryInMs === 'number') scheduleRetry(filePath, retryInMs);
+        } catch (error) {
+          console.error(`[INBOX] Handler failed for ${filePath}:`, error);
+        }
+        // Forget handled files so a later file with the same name is new
+        if (!fs.existsSync(filePath)) {
+          forget(filePath);
+        }
+      }
+    } finally {
+      isDraining = false;
+    }
+  }
+
+  function enqueue(filePath: string): void {
+    dispatched.add(filePath);
+    queue.push(filePath);
+    drain();
+  }
+
+  function scheduleRetry(filePath: string, delayMs: number): void {
+    const timeoutId = setTimeout(() => {
+      retrying.delete(filePath);
+      if (!stopped) enqueue(filePath);
+    }, delayMs);
+    retrying.set(filePath, timeoutId);
+  }
+
+  /** Drop a file that is gone, with its pending retry */
+  function forget(filePath: string): void {
+    dispatched.delete(filePath);
+    clearTimeout(retrying.get(filePath));
+    retrying.delete(filePath);
+  }
+
+  // -------------------------------------------------------------------------
+  // Settle check
+  // -------------------------------------------------------------------------
+
+  function consider(filePath: string): void {
+    if (stopped) return;
+    if (!filePath.endsWith('.json')) return;
+    if (dispatched.has(filePath) || settling.has(filePath)) return;
+
+    const before = snapshot(filePath);
+    if (!before) return;
+    scheduleSettle(filePath, before);
+  }
+
+  function scheduleSettle(filePath: string, before: FileSnapshot): void {
+    const timeoutId = setTimeout(() => {
+      settling.delete(filePath);
+      if (stopped) return;
+
+      const after = snapshot(filePath);
+      if (!after) return;
+
+      if (after.size !== before.size || after.mtimeMs !== before.mtimeMs) {
+        debug(`Inbox file still being written: ${filePath}`);
+        scheduleSettle(filePath, after);
+        return;
+      }
+
+      enqueue(filePath);
+    }, settleMs);
+
+    settling.set(filePath, timeoutId);
+  }
+
+  // -------------------------------------------------------------------------
+  // Full scan (startup + safety net)
+  // -------------------------------------------------------------------------
+
+  function scanSenderDir(senderDir: string): void {
+    let files: string[];
+    try {
+      files = fs.readdirSync(senderDir).filter((f) => f.endsWith('.json'));
+    } catch {
+      return;
+    }
+    for (const file of files) {
+      consider(path.join(senderDir, file));
+    }
+  }
+
+  function fullScan(): void {
+    if (!fs.existsSync(inboxDir)) {
+      debug(`Inbox directory does not exist: ${inboxDir}`);
+      return;
+    }
+
+    // Drop bookkeeping for files that have since been removed
+    for (const filePath of dispatched) {
+      if (!queue.includes(filePath) && !fs.existsSync(filePath)) {
+        forget(filePath);
+      }
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(inboxDir, { withFileTypes: true });
+    } catch (error) {
+      debug('Inbox scan error:', error);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const senderDir = path.join(inboxDir, entry.name);
+      scanSenderDir(senderDir);
+
+      // Clean up empty sender directories (leave freshly created ones for their writer)
+      try {
+        const isStale = Date.now() - fs.statSync(senderDir).mtimeMs > rescanIntervalMs;
+        if (isStale && fs.readdirSync(senderDir).length === 0) {
+          fs.rmdirSync(senderDir);
+          debug(`Cleaned empty sender dir: ${entry.name}`);
+        }
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // fs.watch
+  // -------------------------------------------------------------------------
+
+  function ensureWatcher(): void {
+    if (watcher || stopped || !fs.existsSync(inboxDir)) return;
+
+    try {
+      watcher = fs.watch(inboxDir, { recursive: true }, (_eventType, filename) => {
+        if (!filename) {
+          // Some platforms omit the name; fall back to a full scan
+          fullScan();
+          return;
+        }
+        const fullPath = path.join(inboxDir, filename.toString());
+        if (fullPath.endsWith('.json')) {
+          if (fs.existsSync(fullPath)) {
+            consider(fullPath);
+          } else if (!queue.includes(fullPath)) {
+            // Deleted or moved away: a file re-created under this name is new
+            forget(fullPath);
+          }
+          return;
+        }
+        // A new sender directory: files may land before the watch covers it
+        try {
+          if (fs.statSync(fullPath).isDirectory()) scanSenderDir(fullPath);
+        } catch {
+          // Removed before we could look at it
+        }
+      });
+      watcher.on('error', (error) => {
+        console.error('[INBOX] Watcher error, relying on rescan until re-attached:', error.message);
+        watcher?.close();
+        watcher = null;
+      });
+      debug(`Watching inbox: ${inboxDir}`);
+    } catch (error) {
+      console.error('[INBOX] fs.watch unavailable, using rescan only:', (error as Error).message);
+      watcher = null;
+    }
+  }
+
+  const rescan = () => {
+    ensureWatcher();
+    fullScan();
+    if (!stopped) {
+      rescanTimeoutId = setTimeout(rescan, rescanIntervalMs);
+    }
+  };
+
+  rescanTimeoutId = setTimeout(rescan, options.initialDelayMs ?? 0);
+
+  return () => {
+    stopped = true;
+    if (rescanTimeoutId) {
+      clearTimeout(rescanTimeoutId);
+      rescanTimeoutId = null;
+    }
+    for (const timeoutId of [...settling.values(), ...retrying.values()]) {
+      clearTimeout(timeoutId);
+    }
+    settling.clear();
+    retrying.clear();
+    watcher?.close();
+    watcher = null;
+  };
+}
+
+/**
+ * Number of message files currently waiting in the inbox (all senders).
+ */
+export function countInboxFiles(inboxDir: string): number {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(inboxDir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  let count = 0;
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    try {
+      count += fs.readdirSync(path.join(inboxDir, entry.name)).filter((f) => f.endsWith('.json')).length;
+    } catch {
+      // Removed mid-scan
+    }
+  }
+  return count;
+}
@@ -0,0 +1,32 @@
+/**
+ * @aimaestro/gateway-core
+ *
+ * Shared building blocks imported by every AI Maestro gateway.
+ */
+
+export * from './types.js';
+export * from './content-security.js';
+export * from './payload-decoder.js';
+export * from './unicode-obfuscation.js';
+export * from './injection-rules.js';
+export * from './language-packs.js';
+export * from './impersonation.js';
+export * from './canary.js';
+export * from './conversation-window.js';
+export * from './risk-policy.js';
+export * from './trust-tiers.js';
+export * from './route-authorization.js';
+export * from './activity-log.js';
+export * from './activity-store.js';
+export * from './amp-bootstrap.js';
+export * from './amp-signing.js';
+export * from './cache.js';
+export * from './inbox-watcher.js';
+export * from './dead-letter.js';
+export * from './outbound-delivery.js';
+export * from './outbound-dlp.js';
+export * from './message-chunker.js';
+export * from './metrics.js';
+export * from './route-queue.js';
+export * from './review-queue.js';
+export * from './signature-verification.js';
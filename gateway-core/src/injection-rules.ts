@@ -0,0 +1,358 @@
+/**
+ * Gateway Core - Injection Rule Sets
+ *
+ * The prompt injection scanner (content-security.ts) runs whatever rule set
+ * is active here. Gateways start with the built-in rules below; when a rules
+ * file exists it replaces them, and it is reloaded whenever it changes.
+ *
+ * Rules file (YAML or JSON):
+ *
+ *   rules:
+ *     - category: instruction_override
+ *       label: ignore instructions
+ *       regex: 'ignore\s+(all\s+)?previous\s+instructions'
+ *       flags: i            # optional, default "i"
+ *       severity: high      # low | medium | high | critical (default medium)
+ *       enabled: true       # optional, default true
+ *
+ * A file is validated as a whole before it is applied. An invalid file at
+ * startup is an error; an invalid edit while running is reported and the
+ * previous rules stay active.
+ *
+ * The enabled language packs (language-packs.ts) are compiled in after the
+ * active rules, whichever source those come from.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { logEvent } from './activity-log.js';
+import { INJECTION_LANGUAGES, LANGUAGE_PACKS, type InjectionLanguage } from './language-packs.js';
+import { stripLatinMarks } from './unicode-obfuscation.js';
+
+export type RuleSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export const RULE_SEVERITIES: RuleSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export interface InjectionRule {
+  category: string;
+  label: string;
+  /** Regular expression source (no delimiters) */
+  regex: string;
+  /** RegExp flags; only i, m, s and u are allowed */
+  flags: string;
+  severity: RuleSeverity;
+  enabled: boolean;
+}
+
+export interface InjectionRulesConfig {
+  /** YAML/JSON rules file; built-in rules are used while it does not exist */
+  file: string;
+}
+
+export interface RuleSetInfo {
+  source: 'builtin' | 'file';
+  file: string | null;
+  loadedAt: string;
+  rules: InjectionRule[];
+  /** Language packs scanned in addition to `rules` */
+  languages: InjectionLanguage[];
+}
+
+/** An enabled rule with its compiled regex, as used by the scanner */
+export interface CompiledRule {
+  category: string;
+  label: string;
+  severity: RuleSeverity;
+  regex: RegExp;
+}
+
+/**
+ * The rules file failed validation. `errors` has one entry per problem.
+ */
+export class RuleValidationError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid injection rules: ${errors.join('; ')}`);
+    this.name = 'RuleValidationError';
+  }
+}
+
+const ALLOWED_FLAGS = /^[imsu]*$/;
+const MAX_REGEX_LENGTH = 500;
+const RELOAD_DEBOUNCE_MS = 200;
+
+// ---------------------------------------------------------------------------
+// Built-in rules
+// ---------------------------------------------------------------------------
+
+function builtin(category: string, label: string, regex: RegExp, severity: RuleSeverity): InjectionRule {
+  return { category, label, regex: regex.source, flags: regex.flags, severity, enabled: true };
+}
+
+export const BUILTIN_INJECTION_RULES: InjectionRule[] = [
+  // Instruction Override
+  builtin('instruction_override', 'ignore instructions', /ignore\s+(all\s+|your\s+)?(previous\s+|prior\s+)?(instructions|prompts|rules|guidelines)/i, 'high'),
+  builtin('instruction_override', 'disregard instructions', /disregard\s+(all\s+|your\s+)?(previous\s+|prior\s+)?(instructions|prompts|rules|guidelines)/i, 'high'),
+  builtin('instruction_override', 'forget instructions', /forget\s+(all\s+|your\s+)?(previous\s+|prior\s+)?(instructions|prompts|rules|guidelines)/i, 'high'),
+  builtin('instruction_override', 'new identity', /you\s+are\s+now\b/i, 'medium'),
+  builtin('instruction_override', 'act as', /\bact\s+as\s+if\b/i, 'low'),
+  builtin('instruction_override', 'pretend', /\bpretend\s+(you\s+are|to\s+be)\b/i, 'medium'),
+  builtin('instruction_override', 'new instructions', /\bnew\s+instructions\s*:/i, 'high'),
+  builtin('instruction_override', 'override', /\bfrom\s+now\s+on\b/i, 'low'),
+
+  // System Prompt Extraction
+  builtin('system_prompt_extraction', 'system prompt', /\bsystem\s+prompt\b/i, 'medium'),
+  builtin('system_prompt_extraction', 'reveal instructions', /reveal\s+your\s+(instructions|prompt|rules|system)/i, 'high'),
+  builtin('system_prompt_extraction', 'show instructions', /show\s+me\s+your\s+(prompt|instructions|rules|system)/i, 'high'),
+  builtin('system_prompt_extraction', 'what are your rules', /what\s+are\s+your\s+(instructions|rules|guidelines)/i, 'medium'),
+
+  // Command Injection
+  builtin('command_injection', 'curl command', /\bcurl\b.{0,30}https?:/i, 'high'),
+  builtin('command_injection', 'wget', /\bwget\s+/i, 'medium'),
+  builtin('command_injection', 'rm -rf', /\brm\s+-rf\b/i, 'critical'),
+  builtin('command_injection', 'sudo', /\bsudo\s+/i, 'medium'),
+  builtin('command_injection', 'ssh', /\bssh\s+\S+@/i, 'medium'),
+  builtin('command_injection', 'eval/exec', /\b(eval|exec)\s*\(/i, 'medium'),
+  builtin('command_injection', 'file read', /\bcat\s+[~\/]/i, 'medium'),
+  builtin('command_injection', 'fetch call', /\bfetch\s*\(\s*["']https?:/i, 'medium'),
+
+  // Data Exfiltration
+  builtin('data_exfiltration', 'send data', /send\s+(this|the|all|every|my)\s+.{0,20}(to|via)\b/i, 'medium'),
+  builtin('data_exfiltration', 'forward data', /forward\s+(this|the|all|every)\s+.{0,20}(to|via)\b/i, 'medium'),
+  builtin('data_exfiltration', 'upload', /upload\s+.{0,30}\s+to\s+/i, 'medium'),
+  builtin('data_exfiltration', 'exfil encoding', /\bbase64\b.{0,30}\b(send|post|upload|curl)\b/i, 'high'),
+
+  // Role Manipulation
+  builtin('role_manipulation', 'mode switch', /\b(switch|change)\s+to\s+\w+\s+mode\b/i, 'low'),
+  builtin('role_manipulation', 'enable mode', /\benable\s+\w+\s+mode\b/i, 'low'),
+  builtin('role_manipulation', 'jailbreak', /\bjailbreak\b/i, 'high'),
+  builtin('role_manipulation', 'DAN', /\bDAN\b/i, 'medium'),
+
+  // Simpler "act as" pattern
+  builtin('instruction_override', 'act as', /\bact\s+as\s+(?:a|an|the)\b/i, 'low'),
+];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Validate a parsed rules document: either `{ rules: [...] }` or a bare
+ * array. Fills in defaults and throws RuleValidationError listing every
+ * problem found.
+ */
+export function validateRules(data: unknown): InjectionRule[] {
+  const list = Array.isArray(data) ? data : (data as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) {
+    throw new RuleValidationError(['expected a "rules" list']);
+  }
+
+  const errors: string[] = [];
+  const rules: InjectionRule[] = [];
+
+  list.forEach((raw, index) => {
+    const where = `rule ${index + 1}`;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    const r = raw as Record<string, unknown>;
+    const problems: string[] = [];
+
+    if (!isNonEmptyString(r.category)) problems.push('category is required');
+    if (!isNonEmptyString(r.label)) problems.push('label is required');
+
+    const flags = r.flags === undefined ? 'i' : r.flags;
+    if (typeof flags !== 'string' || !ALLOWED_FLAGS.test(flags)) {
+      problems.push('flags may only contain i, m, s and u');
+    }
+
+    if (!isNonEmptyString(r.regex)) {
+      problems.push('regex is required');
+    } else if (r.regex.length > MAX_REGEX_LENGTH) {
+      problems.push(`regex is longer than ${MAX_REGEX_LENGTH} characters`);
+    } else if (typeof flags === 'string' && ALLOWED_FLAGS.test(flags)) {
+      try {
+        new RegExp(r.regex, flags);
+      } catch (error) {
+        problems.push(`regex does not compile: ${(error as Error).message}`);
+      }
+    }
+
+    const severity = r.severity === undefined ? 'medium' : r.severity;
+    if (!RULE_SEVERITIES.includes(severity as RuleSeverity)) {
+      problems.push(`severity must be one of ${RULE_SEVERITIES.join(', ')}`);
+    }
+
+    if (r.enabled !== undefined && typeof r.enabled !== 'boolean') {
+      problems.push('enabled must be true or false');
+    }
+
+    if (problems.length > 0) {
+      const name = isNonEmptyString(r.label) ? ` (${r.label})` : '';
+      errors.push(`${where}${name}: ${problems.join(', ')}`);
+      return;
+    }
+
+    rules.push({
+      category: (r.category as string).trim(),
+      label: (r.label as string).trim(),
+      regex: r.regex as string,
+      flags: flags as string,
+      severity: severity as RuleSeverity,
+      enabled: r.enabled !== false,
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new RuleValidationError(errors);
+  }
+  return rules;
+}
+
+/**
+ * Compile the enabled rules plus the enabled language packs. Sources are
+ * normalized like scanned text (NFKD, no accents on Latin letters).
+ */
+function compile(rules: InjectionRule[], languages: InjectionLanguage[]): CompiledRule[] {
+  return [...rules, ...languages.flatMap((language) => LANGUAGE_PACKS[language])]
+    .filter((r) => r.enabled)
+    .map((r) => ({
+      category: r.category,
+      label: r.label,
+      severity: r.severity,
+      regex: new RegExp(stripLatinMarks(r.regex.normalize('NFKD')), r.flags),
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// Active rule set
+// ---------------------------------------------------------------------------
+
+let active: RuleSetInfo = {
+  source: 'builtin',
+  file: null,
+  loadedAt: new Date().toISOString(),
+  rules: BUILTIN_INJECTION_RULES,
+  languages: INJECTION_LANGUAGES,
+};
+let compiled: CompiledRule[] = compile(BUILTIN_INJECTION_RULES, INJECTION_LANGUAGES);
+/** Raw content of the file the active rules came from, to skip no-op reloads */
+let activeContent: string | null = null;
+
+function activate(info: Omit<RuleSetInfo, 'loadedAt' | 'languages'>, content: string | null): void {
+  compiled = compile(info.rules, active.languages);
+  active = { ...info, loadedAt: new Date().toISOString(), languages: active.languages };
+  activeContent = content;
+}
+
+/**
+ * Choose which language packs are scanned (all of them until called).
+ */
+export function setLanguagePacks(languages: InjectionLanguage[]): void {
+  compiled = compile(active.rules, languages);
+  active = { ...active, languages };
+}
+
+/** The active rule set, including disabled rules */
+export function getInjectionRules(): RuleSetInfo {
+  return active;
+}
+
+/** Enabled rules, compiled. Used by scanForInjection(). */
+export function getCompiledRules(): CompiledRule[] {
+  return compiled;
+}
+
+/**
+ * Load `file` into the active rule set. Falls back to the built-in rules
+ * when the file does not exist. Throws RuleValidationError (or a YAML
+ * syntax error) when the file is invalid; the active rules are unchanged.
+ */
+export function loadInjectionRules(file: string): RuleSetInfo {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    if (active.source !== 'builtin') {
+      console.log(`[RULES] ${file} removed, using built-in rules`);
+    }
+    activate({ source: 'builtin', file, rules: BUILTIN_INJECTION_RULES }, null);
+    return active;
+  }
+
+  if (content === activeContent) return active;
+
+  const rules = validateRules(parseYaml(content));
+  activate({ source: 'file', file, rules }, content);
+  console.log(`[RULES] Loaded ${rules.length} injection rule(s) from ${file}`);
+  return active;
+}
+
+/**
+ * Validate `data` and write it to `file` as YAML, then make it the active
+ * rule set. Throws RuleValidationError without touching the file.
+ */
+export function saveInjectionRules(file: string, data: unknown): RuleSetInfo {
+  const rules = validateRules(data);
+  const content = stringifyYaml({ rules });
+
+  const tmpPath = `${file}.tmp`;
+  fs.writeFileSync(tmpPath, content);
+  fs.renameSync(tmpPath, file);
+
+  activate({ source: 'file', file, rules }, content);
+  console.log(`[RULES] Saved ${rules.length} injection rule(s) to ${file}`);
+  return active;
+}
+
+/**
+ * Load the rules file and reload it whenever it changes. The directory is
+ * watched rather than the file, so editors that replace the file and a
+ * file created after startup are both picked up.
+ *
+ * Throws if the file is invalid at startup. Returns a stop function.
+ */
+export function watchInjectionRules(config: InjectionRulesConfig): () => void {
+  const { file } = config;
+  loadInjectionRules(file);
+
+  const dir = path.dirname(file);
+  const base = path.basename(file);
+  let debounce: NodeJS.Timeout | null = null;
+
+  function reload(): void {
+    try {
+      loadInjectionRules(file);
+    } catch (error) {
+      console.error(`[RULES] Ignoring invalid ${file}, keeping previous rules:`, (error as Error).message);
+      logEvent('error', `Invalid injection rules file ignored: ${file}`, { error: (error as Error).message });
+    }
+  }
+
+  let watcher: fs.FSWatcher;
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    watcher = fs.watch(dir, (_event, filename) => {
+      if (filename && filename.toString() !== base) return;
+      if (debounce) clearTimeout(debounce);
+      debounce = setTimeout(() => {
+        debounce = null;
+        reload();
+      }, RELOAD_DEBOUNCE_MS);
+    });
+  } catch (error) {
+    console.warn(`[RULES] Cannot watch ${dir}, rules will not hot-reload:`, (error as Error).message);
+    return () => {};
+  }
+
+  return () => {
+    if (debounce) clearTimeout(debounce);
+    watcher.close();
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Gateway Core - Multilingual Injection Rule Packs
+ *
+ * Built-in rules for non-English injection attempts, one pack per language,
+ * covering the same categories as the English rules. Enabled packs are
+ * scanned on top of the active rule set (built-in rules or the rules file),
+ * whatever language a message is detected as: attacks often switch language
+ * mid-message.
+ *
+ * Patterns are written without accents. The scanner compares NFKD text with
+ * the accents stripped from Latin letters, so "précédentes" and
+ * "precedentes" both match `precedentes`.
+ *
+ * detectLanguage() is a lightweight guess (script, then common words) that
+ * gateways pass on to agents as `context.security.language`.
+ */
+
+import type { InjectionRule, RuleSeverity } from './injection-rules.js';
+
+export type InjectionLanguage = 'es' | 'fr' | 'de' | 'pt' | 'it' | 'nl' | 'ja' | 'zh';
+
+export const INJECTION_LANGUAGES: InjectionLanguage[] = ['es', 'fr', 'de', 'pt', 'it', 'nl', 'ja', 'zh'];
+
+/** A detected language: English, one of the packs, or 'und' (undetermined) */
+export type DetectedLanguage = 'en' | InjectionLanguage | 'und';
+
+function rule(category: string, label: string, regex: RegExp, severity: RuleSeverity): InjectionRule {
+  return { category, label, regex: regex.source, flags: regex.flags, severity, enabled: true };
+}
+
+export const LANGUAGE_PACKS: Record<InjectionLanguage, InjectionRule[]> = {
+  es: [
+    rule('instruction_override', 'ignorar instrucciones', /ignora(r)?\s+(las\s+|tus\s+)?instrucciones/i, 'high'),
+    rule('instruction_override', 'olvidar instrucciones', /\b(olvida|olvidar|omite|omitir)\s+(todas\s+)?(las\s+|tus\s+)?(instrucciones|reglas|indicaciones)/i, 'high'),
+    rule('instruction_override', 'ahora eres', /\bahora\s+eres\b/i, 'medium'),
+    rule('system_prompt_extraction', 'prompt del sistema', /\b(prompt|mensaje|instrucciones)\s+del\s+sistema\b/i, 'medium'),
+    rule('system_prompt_extraction', 'revela tus instrucciones', /\b(revela|revelame|muestra|muestrame|dime)\s+(tus|las)\s+(instrucciones|reglas|prompt)/i, 'high'),
+    rule('data_exfiltration', 'enviar datos', /\b(envia|enviar|manda|mandar|reenvia)\s+(esto|todo|todos|todas|los|las|mis)\s+.{0,20}\b(a|al|por)\b/i, 'medium'),
+    rule('role_manipulation', 'modo', /\b(activa|activar|cambia\s+a|entra\s+en)\s+(el\s+)?modo\s+\w+/i, 'low'),
+    rule('role_manipulation', 'sin restricciones', /\bsin\s+(restricciones|filtros|limites)\b/i, 'medium'),
+  ],
+  fr: [
+    rule('instruction_override', 'ignorer les instructions', /\b(ignore|ignorez|ignorer|oublie|oubliez|oublier)\s+(toutes\s+)?(les\s+|tes\s+|vos\s+)?(instructions|consignes|regles)/i, 'high'),
+    rule('instruction_override', 'tu es maintenant', /\b(tu\s+es|vous\s+etes)\s+maintenant\b/i, 'medium'),
+    rule('system_prompt_extraction', 'prompt systeme', /\b(prompt|invite|message|instructions)\s+(du\s+)?systeme\b/i, 'medium'),
+    rule('system_prompt_extraction', 'revele tes instructions', /\b(revele|revelez|montre|montrez|affiche|affichez)[\s-]+(moi\s+)?(tes|vos)\s+(instructions|consignes|regles|prompt)/i, 'high'),
+    rule('data_exfiltration', 'envoyer les donnees', /\b(envoie|envoyez|envoyer|transfere|transferez|transferer)\s+(ceci|cela|tout|toutes|tous|les|mes)\s+.{0,20}\b(a|au|vers|par)\b/i, 'medium'),
+    rule('role_manipulation', 'mode', /\b(active|activez|activer|passe|passez)\s+(le\s+|en\s+)?mode\s+\w+/i, 'low'),
+    rule('role_manipulation', 'sans restrictions', /\bsans\s+(restrictions|filtres|limites)\b/i, 'medium'),
+  ],
+  de: [
+    rule('instruction_override', 'ignoriere anweisungen', /\b(ignoriere|ignorier|ignorieren|vergiss|vergessen)\s+(sie\s+)?(alle\s+)?(vorherigen\s+|bisherigen\s+|deine\s+|ihre\s+)?(anweisungen|instruktionen|regeln|vorgaben)/i, 'high'),
+    rule('instruction_override', 'du bist jetzt', /\b(du\s+bist|sie\s+sind)\s+(jetzt|nun|ab\s+sofort)\b/i, 'medium'),
+    rule('system_prompt_extraction', 'systemprompt', /\bsystem[\s-]?(prompt|anweisungen|nachricht)\b/i, 'medium'),
+    rule('system_prompt_extraction', 'zeige anweisungen', /\b(zeig|zeige|verrate|nenne)\s+(mir\s+)?(deine|ihre)\s+(anweisungen|instruktionen|regeln|prompt)/i, 'high'),
+    rule('data_exfiltration', 'sende daten', /\b(sende|schicke|schick|leite)\s+(das|dies|diese|alle|alles|meine)\s+.{0,20}\b(an|per|uber|weiter)\b/i, 'medium'),
+    rule('role_manipulation', 'modus', /\b(aktiviere|starte|wechsle\s+in\s+den)\s+\w*modus\b/i, 'low'),
+    rule('role_manipulation', 'ohne einschrankungen', /\bohne\s+(einschrankungen|filter|grenzen)\b/i, 'medium'),
+  ],
+  pt: [
+    rule('instruction_override', 'ignorar instrucoes', /\b(ignore|ignora|ignorar|esqueca|esquece|esquecer)\s+(todas\s+)?(as\s+|suas\s+|tuas\s+)?(instrucoes|regras|orientacoes)/i, 'high'),
+    rule('instruction_override', 'agora voce e', /\bagora\s+(voce|tu)\s+(e|es)\b/i, 'medium'),
+    rule('system_prompt_extraction', 'prompt do sistema', /\b(prompt|mensagem|instrucoes)\s+do\s+sistema\b/i, 'medium'),
+    rule('system_prompt_extraction', 'revele suas instrucoes', /\b(revele|revela|mostre|mostra|diga)[\s-]+(me\s+)?(suas|tuas)\s+(instrucoes|regras|prompt)/i, 'high'),
+    rule('data_exfiltration', 'enviar dados', /\b(envie|envia|enviar|mande|manda|encaminhe)\s+(isto|isso|tudo|todos|todas|os|as|meus|minhas)\s+.{0,20}\b(para|pra|via|por)\b/i, 'medium'),
+    rule('role_manipulation', 'modo', /\b(ative|ativa|ativar|mude\s+para|entre\s+no)\s+(o\s+)?modo\s+\w+/i, 'low'),
+    rule('role_manipulation', 'sem restricoes', /\bsem\s+(restricoes|filtros|limites)\b/i, 'medium'),
+  ],
+  it: [
+    rule('instruction_override', 'ignora le istruzioni', /\b(ignora|ignorare|dimentica|dimenticare)\s+(tutte\s+)?(le\s+)?(tue\s+)?(istruzioni|regole|indicazioni)/i, 'high'),
+    rule('instruction_override', 'ora sei', /\b(ora|adesso)\s+sei\b/i, 'medium'),
+    rule('system_prompt_extraction', 'prompt di sistema', /\b(prompt|messaggio|istruzioni)\s+di\s+sistema\b/i, 'medium'),
+    rule('system_prompt_extraction', 'rivela le istruzioni', /\b(rivela|rivelami|mostra|mostrami|dimmi)\s+(le\s+)?tue\s+(istruzioni|regole|prompt)/i, 'high'),
+    rule('data_exfiltration', 'invia i dati', /\b(invia|inviare|manda|mandare|inoltra)\s+(questo|questi|tutto|tutti|tutte|i|le|gli|miei|mie)\s+.{0,20}\b(a|al|via|tramite)\b/i, 'medium'),
+    rule('role_manipulation', 'modalita', /\b(attiva|attivare|passa\s+alla)\s+(la\s+)?modalita\s+\w+/i, 'low'),
+    rule('role_manipulation', 'senza restrizioni', /\bsenza\s+(restrizioni|filtri|limiti)\b/i, 'medium'),
+  ],
+  nl: [
+    rule('instruction_override', 'negeer instructies', /\b(negeer|vergeet)\s+(alle\s+)?(je\s+|jouw\s+|uw\s+)?(vorige\s+|eerdere\s+)?(instructies|regels|richtlijnen)/i, 'high'),
+    rule('instruction_override', 'je bent nu', /\b(je|jij|u)\s+bent\s+nu\b/i, 'medium'),
+    rule('system_prompt_extraction', 'systeemprompt', /\bsysteem[\s-]?(prompt|instructies|bericht)\b/i, 'medium'),
+    rule('system_prompt_extraction', 'toon je instructies', /\b(toon|laat|geef|onthul)\s+(me\s+|mij\s+)?(je|jouw|uw)\s+(instructies|regels|prompt)/i, 'high'),
+    rule('data_exfiltration', 'stuur gegevens', /\b(stuur|verstuur|zend)\s+(dit|dat|alle|alles|mijn|de)\s+.{0,20}\b(naar|via)\b/i, 'medium'),
+    rule('role_manipulation', 'modus', /\b(activeer|schakel)\s+(de\s+)?\w*modus\b/i, 'low'),
+    rule('role_manipulation', 'zonder beperkingen', /\bzonder\s+(beperkingen|filters|grenzen)\b/i, 'medium'),
+  ],
+  ja: [
+    rule('instruction_override', '指示を無視', /(以前|前|これまで|上記|全て|すべて)の(指示|命令|ルール|指令)を(無視|忘れ)/, 'high'),
+    rule('instruction_override', 'あなたは今から', /(あなた|君|お前)は(今から|これから)/, 'medium'),
+    rule('system_prompt_extraction', 'システムプロンプト', /システム\s*プロンプト/, 'medium'),
+    rule('system_prompt_extraction', '指示を教えて', /(指示|命令|ルール|プロンプト)を(教えて|見せて|表示して|明かして|出力して)/, 'high'),
+    rule('data_exfiltration', 'データを送信', /(データ|情報|内容|ファイル).{0,20}(に|へ)(送信|送って|転送)/, 'medium'),
+    rule('role_manipulation', '脱獄', /(脱獄|ジェイルブレイク|開発者モード|制限を解除)/, 'high'),
+  ],
+  zh: [
+    rule('instruction_override', '忽略指令', /(忽略|无视|無視|忘记|忘記)(之前|以前|先前|上面|上述|所有|全部)?的?(所有|全部)?(指令|指示|说明|說明|规则|規則)/, 'high'),
+    rule('instruction_override', '你现在是', /(你现在是|你現在是|从现在开始你|從現在開始你)/, 'medium'),
+    rule('system_prompt_extraction', '系统提示', /(系统|系統)(提示|指令)/, 'medium'),
+    rule('system_prompt_extraction', '告诉我你的指令', /(告诉|告訴|显示|顯示|透露|输出|輸出)我?你的(指令|指示|提示词|提示詞|规则|規則)/, 'high'),
+    rule('data_exfiltration', '发送数据', /(数据|數據|资料|資料|信息|資訊|文件|内容|內容).{0,10}(发送|發送|转发|轉發|上传|上傳)(到|给|給|至)/, 'medium'),
+    rule('role_manipulation', '越狱', /(越狱|越獄|开发者模式|開發者模式|无限制模式|無限制模式)/, 'high'),
+  ],
+};
+
+/**
+ * Parse SCAN_LANGUAGES, e.g. "fr,de,ja". Unset means every pack; "none"
+ * disables them all. Unknown codes are ignored with a warning.
+ */
+export function parseScanLanguages(value: string | undefined): InjectionLanguage[] {
+  if (value === undefined || value.trim() === '') return [...INJECTION_LANGUAGES];
+  if (value.trim().toLowerCase() === 'none') return [];
+
+  const languages: InjectionLanguage[] = [];
+  for (const part of value.split(',')) {
+    const code = part.trim().toLowerCase();
+    if (!INJECTION_LANGUAGES.includes(code as InjectionLanguage)) {
+      console.warn(`[RULES] Ignoring unknown scan language "${part.trim()}"`);
+      continue;
+    }
+    if (!languages.includes(code as InjectionLanguage)) languages.push(code as InjectionLanguage);
+  }
+  return languages;
+}
+
+// ---------------------------------------------------------------------------
+// Language detection
+// ---------------------------------------------------------------------------
+
+const STOPWORDS: Record<'en' | 'es' | 'fr' | 'de' | 'pt' | 'it' | 'nl', string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'to', 'of', 'this', 'that', 'with', 'please', 'what', 'for', 'have'],
+  es: ['el', 'los', 'las', 'que', 'y', 'es', 'por', 'para', 'con', 'una', 'esta', 'como', 'pero', 'tu'],
+  fr: ['le', 'les', 'des', 'est', 'et', 'vous', 'je', 'une', 'pour', 'avec', 'pas', 'dans', 'du', 'ce'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'mit', 'ein', 'eine', 'zu', 'auf', 'den', 'du', 'mir', 'wie', 'alle'],
+  pt: ['o', 'os', 'que', 'e', 'nao', 'uma', 'para', 'com', 'voce', 'por', 'isso', 'esta', 'do', 'da'],
+  it: ['il', 'gli', 'che', 'di', 'e', 'non', 'una', 'per', 'con', 'sono', 'questo', 'della', 'sei', 'mi', 'le', 'un', 'ho', 'tutte'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'je', 'van', 'dat', 'met', 'voor', 'zijn', 'op'],
+};
+
+const MAX_DETECT_LENGTH = 2000;
+
+/**
+ * Guess the language of `text`. Japanese and Chinese are told apart by
+ * kana; Latin-script languages by counting common words. Returns 'und'
+ * when nothing stands out.
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const sample = text.substring(0, MAX_DETECT_LENGTH);
+
+  const kana = sample.match(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu)?.length ?? 0;
+  const han = sample.match(/\p{Script=Han}/gu)?.length ?? 0;
+  const latin = sample.match(/\p{Script=Latin}/gu)?.length ?? 0;
+  const letters = sample.match(/\p{L}/gu)?.length ?? 0;
+
+  // One CJK character carries roughly a short word's worth of Latin letters
+  if ((kana + han) * 3 >= latin && kana + han > 0) {
+    return kana > 0 ? 'ja' : 'zh';
+  }
+  if (latin === 0 || latin < letters / 2) return 'und';
+
+  const words = sample
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .match(/\p{L}+/gu) ?? [];
+
+  let best: DetectedLanguage = 'und';
+  let bestScore = 1;
+  let tied = false;
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const score = words.filter((w) => stopwords.includes(w)).length;
+    if (score > bestScore) {
+      best = language as DetectedLanguage;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && best !== 'und') {
+      tied = true;
+    }
+  }
+  return tied ? 'und' : best;
+}
@@ -0,0 +1,180 @@
+/**
+ * Gateway Core - Markdown-Aware Message Chunking
+ *
+ * Splits agent responses that exceed a platform's message limit (Discord
+ * 2000 characters, WhatsApp TEXT_CHUNK_LIMIT) without breaking their
+ * Markdown:
+ *
+ *   - splits at a paragraph break if one is far enough in, else at a line
+ *     break, else at a space, and only cuts mid-word as a last resort
+ *   - never splits inside inline code, a link or a URL if avoidable
+ *   - a code fence open at the end of a chunk is closed there and reopened
+ *     (with its language) at the start of the next one
+ *   - a table split between rows repeats its header row (and delimiter row)
+ *     at the start of the next chunk
+ *   - optionally ends each chunk with a "(1/3)" continuation marker
+ *
+ * Only the line break or space split on is dropped; inside a code fence
+ * trailing whitespace and indentation are kept, and outside one the next
+ * chunk keeps the indentation of its first line (nested lists).
+ *
+ * Every chunk, markers, fences and repeated headers included, fits the
+ * limit.
+ */
+
+export interface ChunkOptions {
+  /** Maximum characters per chunk */
+  limit: number;
+  /** Add "(1/3)"-style markers when the text is split */
+  markers?: boolean;
+}
+
+/** Room kept for " (999/999)" */
+const MARKER_RESERVE = 10;
+/** A fence info string longer than this is not repeated in the next chunk */
+const MAX_REOPEN_LENGTH = 40;
+
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/;
+const PROTECTED = [
+  /(`+)[^\n]*?\1/g, // inline code
+  /!?\[[^\]\n]*\]\([^)\s]*\)/g, // [text](url), ![alt](src)
+  /<https?:\/\/[^>\s]+>/g, // <https://...>
+  /https?:\/\/[^\s<>]+/g, // bare URLs
+];
+
+interface Fence {
+  /** The opening line, e.g. "```ts" */
+  line: string;
+  marker: string;
+}
+
+/**
+ * Split text into chunks of at most `limit` characters. Text within the
+ * limit is returned as is.
+ */
+export function chunkMarkdown(text: string, options: ChunkOptions): string[] {
+  const { limit, markers = false } = options;
+  if (text.length <= limit) return [text];
+
+  const chunks: string[] = [];
+  let remaining = text;
+  let open: Fence | null = null;
+  /** Header and delimiter rows of a table split at the end of the last chunk */
+  let tableHeader: string | null = null;
+
+  while (remaining.length > 0) {
+    const reopen = open ? (open.line.length <= MAX_REOPEN_LENGTH ? open.line : open.marker) : tableHeader;
+    const prefix = reopen ? `${reopen}\n` : '';
+    const budget = Math.max(limit - (markers ? MARKER_RESERVE : 0) - prefix.length, 1);
+
+    if (remaining.length <= budget) {
+      chunks.push(prefix + remaining);
+      break;
+    }
+
+    // A chunk that ends inside a code fence needs room to close it
+    let splitAt = findSplit(remaining, budget);
+    const fence = fenceAtEnd(prefix + remaining.slice(0, splitAt));
+    if (fence) splitAt = findSplit(remaining, Math.max(budget - fence.marker.length - 1, 1));
+
+    let chunk = prefix + remaining.slice(0, splitAt);
+    remaining = remaining.slice(splitAt);
+
+    open = fenceAtEnd(chunk);
+    if (open) {
+      chunk += `\n${open.marker}`;
+      remaining = remaining.replace(/^\n/, '');
+      tableHeader = null;
+    } else {
+      chunk = chunk.replace(/\s+$/, '');
+      remaining = remaining.startsWith(' ') ? remaining.replace(/^ +/, '') : remaining.replace(/^(?:[ \t]*\n)+/, '');
+      tableHeader = splitTableHeader(chunk, remaining, limit);
+    }
+    chunks.push(chunk);
+  }
+
+  if (!markers || chunks.length < 2) return chunks;
+  return chunks.map((chunk, i) => {
+    const lastLine = chunk.slice(chunk.lastIndexOf('\n') + 1);
+    const separator = FENCE_LINE.test(lastLine) ? '\n' : ' ';
+    return `${chunk}${separator}(${i + 1}/${chunks.length})`;
+  });
+}
+
+/**
+ * Where to split `text` so the first part fits `budget`: the last
+ * paragraph break, line break or space past a minimum position that is
+ * not inside inline code or a link, else a hard cut before such a span.
+ */
+function findSplit(text: string, budget: number): number {
+  const spans = protectedSpans(text.slice(0, budget + 2000));
+  const inside = (pos: number) => spans.some(([start, end]) => start < pos && pos < end);
+
+  const candidates: Array<[RegExp, number]> = [
+    [/\n\s*\n/g, 0.5],
+    [/\n/g, 0.5],
+    [/ /g, 0.3],
+  ];
+  for (const [pattern, minRatio] of candidates) {
+    let best = -1;
+    for (const match of text.slice(0, budget + 1).matchAll(pattern)) {
+      const pos = match.index!;
+      if (pos > budget) break;
+      if (pos >= budget * minRatio && !inside(pos)) best = pos;
+    }
+    if (best > 0) return best;
+  }
+
+  let cut = budget;
+  const span = spans.find(([start, end]) => start < cut && cut < end);
+  if (span && span[0] > 0) cut = span[0];
+  // Keep surrogate pairs (emoji) together
+  const code = text.charCodeAt(cut - 1);
+  if (code >= 0xd800 && code <= 0xdbff) cut--;
+  return Math.max(cut, 1);
+}
+
+function protectedSpans(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  for (const pattern of PROTECTED) {
+    for (const match of text.matchAll(pattern)) {
+      spans.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  return spans;
+}
+
+/**
+ * The header and delimiter rows of a table that `chunk` ends inside and
+ * `rest` continues, if they are short enough to repeat.
+ */
+function splitTableHeader(chunk: string, rest: string, limit: number): string | null {
+  if (!TABLE_ROW.test(rest.split('\n', 1)[0])) return null;
+
+  const lines = chunk.split('\n');
+  for (let i = lines.length - 1; i > 0 && TABLE_ROW.test(lines[i]); i--) {
+    if (TABLE_DELIMITER.test(lines[i]) && TABLE_ROW.test(lines[i - 1])) {
+      const header = `${lines[i - 1]}\n${lines[i]}`;
+      return header.length <= limit / 4 ? header : null;
+    }
+  }
+  return null;
+}
+
+/** The code fence still open at the end of `text`, if any */
+function fenceAtEnd(text: string): Fence | null {
+  let open: Fence | null = null;
+  for (const line of text.split('\n')) {
+    const match = FENCE_LINE.exec(line);
+    if (!match) continue;
+    const [, marker, info] = match;
+    if (!open) {
+      open = { line: line.trim(), marker };
+    } else if (marker[0] === open.marker[0] && marker.length >= open.marker.length && !info.trim()) {
+      open = null;
+    }
+  }
+  return open;
+}
@@ -0,0 +1,231 @@
+/**
+ * Gateway Core - Prometheus Metrics
+ *
+ * Minimal counters, gauges and histograms rendered in the Prometheus text
+ * exposition format (served at GET /metrics by every gateway). Every series
+ * carries a `gateway` label set once at startup via configureMetrics().
+ *
+ * Shared metrics recorded by gateway-core itself:
+ * - gateway_events_total          every logEvent() call, by type/agent/category
+ * - gateway_amp_route_duration_seconds   timed by timeAmpRoute()
+ * - gateway_inbox_delivery_seconds       inbox file mtime -> platform delivery
+ *
+ * Gateways register their own gauges (thread store size, inbox backlog,
+ * connection status) with registerGauge().
+ */
+
+type Labels = Record<string, string>;
+
+export interface MetricsConfig {
+  /** Value of the `gateway` label, e.g. 'discord-gateway' */
+  gateway: string;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(baseLabels: Labels): string[];
+}
+
+const metrics = new Map<string, Metric>();
+let baseLabels: Labels = {};
+
+/**
+ * Set the labels attached to every series. Call once, before serving /metrics.
+ */
+export function configureMetrics(config: MetricsConfig): void {
+  baseLabels = { gateway: config.gateway };
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function register<T extends Metric>(metric: T): T {
+  if (metrics.has(metric.name)) {
+    throw new Error(`Metric already registered: ${metric.name}`);
+  }
+  metrics.set(metric.name, metric);
+  return metric;
+}
+
+// ---------------------------------------------------------------------------
+// Counter
+// ---------------------------------------------------------------------------
+
+export class Counter {
+  readonly type = 'counter';
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key);
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.series.set(key, { labels, value: amount });
+    }
+  }
+
+  render(base: Labels): string[] {
+    return [...this.series.values()].map(
+      (s) => `${this.name}${formatLabels({ ...base, ...s.labels })} ${formatValue(s.value)}`
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Gauge (value read at scrape time)
+// ---------------------------------------------------------------------------
+
+export type GaugeCollector = () => number | Array<{ labels: Labels; value: number }>;
+
+export class Gauge {
+  readonly type = 'gauge';
+
+  constructor(readonly name: string, readonly help: string, private readonly collect: GaugeCollector) {}
+
+  render(base: Labels): string[] {
+    let result: ReturnType<GaugeCollector>;
+    try {
+      result = this.collect();
+    } catch (error) {
+      console.error(`[METRICS] Gauge ${this.name} failed:`, (error as Error).message);
+      return [];
+    }
+    const series = typeof result === 'number' ? [{ labels: {}, value: result }] : result;
+    return series.map((s) => `${this.name}${formatLabels({ ...base, ...s.labels })} ${formatValue(s.value)}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Histogram
+// ---------------------------------------------------------------------------
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) entry.counts[i]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(base: Labels): string[] {
+    const lines: string[] = [];
+    for (const s of this.series.values()) {
+      const labels = { ...base, ...s.labels };
+      this.buckets.forEach((le, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(le) })} ${s.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${s.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${s.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export function registerCounter(name: string, help: string): Counter {
+  return register(new Counter(name, help));
+}
+
+export function registerGauge(name: string, help: string, collect: GaugeCollector): Gauge {
+  return register(new Gauge(name, help, collect));
+}
+
+export function registerHistogram(name: string, help: string, buckets: number[]): Histogram {
+  return register(new Histogram(name, help, [...buckets].sort((a, b) => a - b)));
+}
+
+/**
+ * Render every registered metric in the Prometheus text format (version 0.0.4).
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of metrics.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render(baseLabels));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// ---------------------------------------------------------------------------
+// Shared gateway metrics
+// ---------------------------------------------------------------------------
+
+export const eventsTotal = registerCounter(
+  'gateway_events_total',
+  'Activity log events by type, agent and security category'
+);
+
+export const ampRouteDuration = registerHistogram(
+  'gateway_amp_route_duration_seconds',
+  'Latency of POST /api/v1/route calls to AI Maestro',
+  [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+
+export const inboxDeliveryDuration = registerHistogram(
+  'gateway_inbox_delivery_seconds',
+  'Time from an outbound message file appearing in the AMP inbox to platform delivery',
+  [0.5, 1, 2.5, 5, 10, 30, 60, 300, 900, 3600]
+);
+
+/**
+ * Time a call to Maestro's /api/v1/route. The `status` label is the HTTP
+ * status code, or 'error' when the request itself failed (timeout, refused).
+ */
+export async function timeAmpRoute(request: () => Promise<Response>): Promise<Response> {
+  const start = performance.now();
+  try {
+    const response = await request();
+    ampRouteDuration.observe((performance.now() - start) / 1000, { status: String(response.status) });
+    return response;
+  } catch (error) {
+    ampRouteDuration.observe((performance.now() - start) / 1000, { status: 'error' });
+    throw error;
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Gateway Core - Outbound Delivery State Machine
+ *
+ * Wraps a gateway's platform send function with retry and dead-lettering:
+ *
+ *   pending -> delivered | skipped            (file deleted)
+ *   pending -> failed (transient) -> retry after exponential backoff
+ *   failed (permanent, or maxAttempts reached) -> dead-letter/
+ *   pending -> signature rejected -> dead-letter/ (security event, no notification)
+ *   pending -> held (outbound DLP) -> dead-letter/ (held, until an operator releases it)
+ *   pending -> blocked (outbound DLP)          (file deleted)
+ *
+ * Retries are not timed here: handleFile returns the backoff and the inbox
+ * watcher dispatches the file again after it, through its serial queue.
+ *
+ * The attempt count, the number of parts already posted (for replies
+ * split into several platform messages) and the fields the DLP screen
+ * passed are kept in a sidecar file next to the message,
+ * `<file>.json.delivery`. A retry resumes after the last posted part
+ * without screening the response again, and after a restart the inbox
+ * watcher rediscovers a file waiting for a retry and continues with its
+ * remaining attempts. A dead letter moved back into the inbox starts over.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AMPMessage } from './types.js';
+import type { DeadLetterStore, DeadLetter } from './dead-letter.js';
+import type { SignatureVerifier } from './signature-verification.js';
+import { logEvent } from './activity-log.js';
+import { inboxDeliveryDuration } from './metrics.js';
+
+export interface DeliveryConfig {
+  /** Attempts before a transiently failing message is dead-lettered */
+  maxAttempts: number;
+  /** Backoff before the first retry; doubles on every further attempt */
+  retryBaseMs: number;
+  /** Upper bound for the backoff */
+  retryMaxMs: number;
+  /** Where undeliverable messages are moved */
+  deadLetterDir: string;
+}
+
+/**
+ * Result of one delivery attempt. Thrown errors count as transient failures.
+ * - delivered: sent to the platform
+ * - skipped:   not meant for this gateway (e.g. a notification); discarded
+ * - held:      withheld by outbound DLP; kept in the dead-letter store
+ * - blocked:   withheld by outbound DLP; discarded
+ * - failed:    not sent; retried unless `permanent`
+ */
+export type DeliveryOutcome =
+  | { status: 'delivered' }
+  | { status: 'skipped' }
+  | { status: 'held'; reason: string }
+  | { status: 'blocked'; reason: string }
+  | { status: 'failed'; error: string; permanent?: boolean };
+
+export interface DeliveryAttempt {
+  /** An operator released this held response; deliver it without the DLP check */
+  released: boolean;
+  /** Fields the DLP screen passed on an earlier attempt (redacted if it had to); sent without a second screen */
+  screened?: Record<string, string | undefined>;
+  /** Record the fields the DLP screen passed, so a retry neither screens nor notifies again */
+  screenPassed: (fields: Record<string, string | undefined>) => void;
+  /** Parts of a multi-part message already posted, by earlier attempts or this one */
+  partsSent: number;
+  /** Record that the next part was posted, so a retry does not post it again */
+  partSent: () => void;
+}
+
+export interface OutboundDeliveryOptions {
+  config: DeliveryConfig;
+  deadLetters: DeadLetterStore;
+  /** Platform send. Must not delete the file; the state machine does that. */
+  deliver: (msg: AMPMessage, filePath: string, attempt: DeliveryAttempt) => Promise<DeliveryOutcome>;
+  /** Called after a message was moved to the dead-letter directory (not for rejected signatures) */
+  onDeadLetter?: (record: DeadLetter) => Promise<void>;
+  /** Checks the envelope signature before `deliver` runs */
+  verifier?: SignatureVerifier;
+}
+
+export interface OutboundDelivery {
+  /**
+   * Handle one inbox message file (pass as the inbox watcher's onMessage).
+   * Resolves to the backoff before the next attempt after a transient failure.
+   */
+  handleFile: (filePath: string) => Promise<number | void>;
+  /** Stop handling files; a retry dispatched later is ignored */
+  stop: () => void;
+}
+
+/** Delivery progress of one message file, persisted in its sidecar */
+interface DeliveryState {
+  attempts: number;
+  partsSent: number;
+  screened?: Record<string, string | undefined>;
+}
+
+const STATE_SUFFIX = '.delivery';
+
+function readState(filePath: string): DeliveryState {
+  try {
+    const state = JSON.parse(fs.readFileSync(filePath + STATE_SUFFIX, 'utf-8')) as Partial<DeliveryState>;
+    return {
+      attempts: Number(state.attempts) || 0,
+      partsSent: Number(state.partsSent) || 0,
+      screened: state.screened && typeof state.screened === 'object' ? state.screened : undefined,
+    };
+  } catch {
+    return { attempts: 0, partsSent: 0 };
+  }
+}
+
+function writeState(filePath: string, state: DeliveryState): void {
+  try {
+    fs.writeFileSync(filePath + STATE_SUFFIX, JSON.stringify(state));
+  } catch (error) {
+    console.error(`[OUTBOUND] Failed to record delivery state of ${filePath}:`, error);
+  }
+}
+
+function clearState(filePath: string): void {
+  fs.rmSync(filePath + STATE_SUFFIX, { force: true });
+}
+
+/**
+ * Send the parts of a multi-part message in order, skipping the parts an
+ * earlier attempt already posted.
+ */
+export async function sendParts<T>(
+  parts: T[],
+  attempt: DeliveryAttempt,
+  send: (part: T, index: number) => Promise<unknown>
+): Promise<void> {
+  while (attempt.partsSent < parts.length) {
+    await send(parts[attempt.partsSent], attempt.partsSent);
+    attempt.partSent();
+  }
+}
+
+/**
+ * Backoff before attempt `attempt + 1`, given that `attempt` attempts failed.
+ */
+export function retryDelayMs(config: Pick<DeliveryConfig, 'retryBaseMs' | 'retryMaxMs'>, attempt: number): number {
+  return Math.min(config.retryBaseMs * 2 ** (attempt - 1), config.retryMaxMs);
+}
+
+export function createOutboundDelivery(options: OutboundDeliveryOptions): OutboundDelivery {
+  const { config, deadLetters, deliver, onDeadLetter, verifier } = options;
+
+  /** mtime of each file at its first attempt, for the inbox-to-delivery histogram */
+  const appearedAt = new Map<string, number>();
+  /** Held responses an operator released, until they are delivered */
+  const released = new Set<string>();
+  let stopped = false;
+
+  function forget(filePath: string): void {
+    clearState(filePath);
+    appearedAt.delete(filePath);
+    released.delete(filePath);
+  }
+
+  async function deadLetter(filePath: string, reason: string, attemptCount: number, notify = true): Promise<void> {
+    forget(filePath);
+
+    let record: DeadLetter | null;
+    try {
+      record = deadLetters.add(filePath, reason, attemptCount);
+    } catch (error) {
+      console.error(`[OUTBOUND] Failed to dead-letter ${filePath}:`, error);
+      return;
+    }
+    if (!record) return;
+
+    console.error(`[OUTBOUND] Dead-lettered ${record.originalPath} after ${attemptCount} attempt(s): ${reason}`);
+    logEvent('error', `Outbound message dead-lettered: ${reason}`, {
+      from: record.message?.envelope?.from,
+      subject: record.message?.envelope?.subject,
+      ampMessageId: record.message?.envelope?.id,
+      deliveryStatus: 'dead-letter',
+      error: reason,
+    });
+
+    if (onDeadLetter && notify) {
+      await onDeadLetter(record).catch((error) => {
+        console.error('[OUTBOUND] Dead-letter hook failed:', error);
+      });
+    }
+  }
+
+  function hold(filePath: string, reason: string, attemptCount: number): void {
+    forget(filePath);
+    try {
+      const record = deadLetters.add(filePath, reason, attemptCount, true);
+      if (record) console.log(`[OUTBOUND] Held ${record.originalPath} for review: ${reason}`);
+    } catch (error) {
+      console.error(`[OUTBOUND] Failed to hold ${filePath}:`, error);
+    }
+  }
+
+  function reportSignature(msg: AMPMessage, reason: string, deliveryStatus: string): void {
+    console.warn(`[OUTBOUND] Signature check (${deliveryStatus}): ${reason}`);
+    logEvent('security', `Inbox message ${deliveryStatus}: ${reason}`, {
+      from: msg.envelope?.from,
+      to: msg.envelope?.to,
+      subject: msg.envelope?.subject,
+      ampMessageId: msg.envelope?.id,
+      securityFlags: [`signature: ${reason}`],
+      deliveryStatus,
+    });
+  }
+
+  async function handleFile(filePath: string): Promise<number | void> {
+    if (stopped) return;
+    if (!fs.existsSync(filePath)) {
+      forget(filePath);
+      return;
+    }
+
+    let msg: AMPMessage;
+    try {
+      msg = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as AMPMessage;
+    } catch (error) {
+      await deadLetter(filePath, `Invalid message file: ${(error as Error).message}`, 0);
+      return;
+    }
+
+    const state = readState(filePath);
+    const attemptCount = state.attempts + 1;
+    writeState(filePath, { ...state, attempts: attemptCount });
+    if (attemptCount === 1 && deadLetters.consumeRelease(filePath)) {
+      released.add(filePath);
+    }
+    if (!appearedAt.has(filePath)) {
+      try {
+        appearedAt.set(filePath, fs.statSync(filePath).mtimeMs);
+      } catch {
+        appearedAt.set(filePath, Date.now());
+      }
+    }
+
+    const verdict = verifier ? await verifier.verify(msg) : null;
+    if (verdict?.status === 'rejected') {
+      reportSignature(msg, verdict.reason, 'rejected');
+      await deadLetter(filePath, `Signature rejected: ${verdict.reason}`, attemptCount, false);
+      return;
+    }
+    if (verdict?.status === 'accepted' && attemptCount === 1) {
+      reportSignature(msg, verdict.reason, 'accepted');
+    }
+
+    let outcome: DeliveryOutcome;
+    if (verdict?.status === 'unavailable') {
+      outcome = { status: 'failed', error: verdict.reason };
+    } else {
+      try {
+        const progress: DeliveryState = { ...state, attempts: attemptCount };
+        const attempt: DeliveryAttempt = {
+          released: released.has(filePath),
+          screened: progress.screened,
+          screenPassed: (fields) => {
+            attempt.screened = progress.screened = fields;
+            writeState(filePath, progress);
+          },
+          partsSent: progress.partsSent,
+          partSent: () => {
+            attempt.partsSent = ++progress.partsSent;
+            writeState(filePath, progress);
+          },
+        };
+        outcome = await deliver(msg, filePath, attempt);
+      } catch (error) {
+        outcome = { status: 'failed', error: (error as Error).message };
+      }
+    }
+
+    if (outcome.status === 'held') {
+      hold(filePath, outcome.reason, attemptCount);
+      return;
+    }
+
+    if (outcome.status !== 'failed') {
+      if (outcome.status === 'delivered') {
+        const since = appearedAt.get(filePath) ?? Date.now();
+        inboxDeliveryDuration.observe(Math.max(0, Date.now() - since) / 1000);
+      }
+      forget(filePath);
+      try {
+        fs.unlinkSync(filePath);
+      } catch {
+        // Already gone
+      }
+      return;
+    }
+
+    if (outcome.permanent || attemptCount >= config.maxAttempts) {
+      await deadLetter(filePath, outcome.error, attemptCount);
+      return;
+    }
+
+    const delay = retryDelayMs(config, attemptCount);
+    console.log(
+      `[OUTBOUND] Delivery of ${path.basename(filePath)} failed (attempt ${attemptCount}/${config.maxAttempts}): ${outcome.error}; retrying in ${delay}ms`
+    );
+    return delay;
+  }
+
+  return {
+    handleFile,
+    stop: () => {
+      stopped = true;
+    },
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * Gateway Core - Outbound Data Loss Prevention
+ *
+ * Scans agent responses for secrets before a gateway sends them to a
+ * platform: private key PEM blocks, cloud/API tokens, bearer tokens and
+ * JWTs, `*_API_KEY=` style assignments, the gateway's own credentials,
+ * internal hostnames and operator-supplied patterns.
+ *
+ * What happens to a response with findings is the configured action:
+ *
+ *   redact -> sent with every finding replaced by [REDACTED:<type>]
+ *   hold   -> moved to the dead-letter store; an operator releases it
+ *             (retry, ADMIN_TOKEN) or discards it
+ *   block  -> dropped
+ *   off    -> not scanned
+ *
+ * screenOutbound() logs a `security` event (flags "dlp:<type>: <masked
+ * match>") and tells the sending agent through the gateway's confirmation
+ * path. A released held response is sent as it is, without a second scan,
+ * and a retry sends the fields the first attempt passed without scanning
+ * (or notifying) again.
+ */
+
+import { logEvent } from './activity-log.js';
+import type { DeliveryAttempt } from './outbound-delivery.js';
+
+export type DlpAction = 'off' | 'redact' | 'hold' | 'block';
+
+export const DLP_ACTIONS: DlpAction[] = ['off', 'redact', 'hold', 'block'];
+
+export interface DlpPattern {
+  label: string;
+  /** Regular expression source, matched case-sensitively */
+  regex: string;
+}
+
+export interface DlpConfig {
+  action: DlpAction;
+  /** Extra domains whose hosts count as internal (e.g. "corp.example.com") */
+  internalDomains: string[];
+  /** Operator-supplied patterns, reported as type "custom" */
+  patterns: DlpPattern[];
+  /** Credentials this gateway holds (AMP API key, bot tokens, ...); matched literally */
+  knownSecrets: string[];
+}
+
+export interface DlpFinding {
+  type: string;
+  label: string;
+  /** The match with most of it masked, safe to log */
+  preview: string;
+}
+
+/**
+ * Outcome of inspecting a response. `fields` are the inspected texts,
+ * redacted when the action is 'redact' and unchanged otherwise.
+ */
+export interface DlpVerdict<T extends Record<string, string | undefined>> {
+  action: 'allow' | Exclude<DlpAction, 'off'>;
+  findings: DlpFinding[];
+  fields: T;
+}
+
+interface Detector {
+  type: string;
+  label: string;
+  regex: RegExp;
+  /** Show the whole match in previews (not a secret by itself) */
+  reveal?: boolean;
+}
+
+const BUILTIN_DETECTORS: Detector[] = [
+  {
+    type: 'private_key',
+    label: 'private key',
+    regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g,
+  },
+  { type: 'aws_access_key', label: 'AWS access key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { type: 'github_token', label: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { type: 'slack_token', label: 'Slack token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { type: 'api_key', label: 'API secret key', regex: /\b(?:sk|rk)[-_](?:live_|test_|ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { type: 'google_api_key', label: 'Google API key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { type: 'jwt', label: 'JWT', regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { type: 'bearer_token', label: 'bearer token', regex: /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g },
+  {
+    type: 'env_secret',
+    label: 'secret assignment',
+    regex: /\b[A-Z][A-Z0-9_]*(?:API_KEY|SECRET|TOKEN|PASSWORD)\s*[=:]\s*["']?[^\s"']{8,}/g,
+  },
+];
+
+/** Suffixes that only resolve inside a private network */
+const INTERNAL_SUFFIXES = ['internal', 'corp', 'intranet', 'lan', 'home.arpa'];
+
+const MIN_KNOWN_SECRET_LENGTH = 8;
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function hostPattern(suffixes: string[]): RegExp {
+  const alternatives = suffixes.map((s) => escapeRegex(s.replace(/^\./, '').toLowerCase())).join('|');
+  // The lookahead keeps "api.corp" from matching inside "api.corp.example.com"
+  return new RegExp(`\\b(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\\.)+(?:${alternatives})(?!\\.?[a-z0-9-])`, 'gi');
+}
+
+function detectorsFor(config: DlpConfig): Detector[] {
+  const detectors = [...BUILTIN_DETECTORS];
+
+  const secrets = config.knownSecrets.filter((s) => s.length >= MIN_KNOWN_SECRET_LENGTH);
+  if (secrets.length > 0) {
+    detectors.push({ type: 'known_secret', label: 'gateway credential', regex: new RegExp(secrets.map(escapeRegex).join('|'), 'g') });
+  }
+
+  detectors.push({ type: 'internal_host', label: 'internal hostname', regex: hostPattern(INTERNAL_SUFFIXES), reveal: true });
+  if (config.internalDomains.length > 0) {
+    detectors.push({ type: 'internal_host', label: 'internal hostname', regex: hostPattern(config.internalDomains), reveal: true });
+  }
+
+  for (const pattern of config.patterns) {
+    detectors.push({ type: 'custom', label: pattern.label, regex: new RegExp(pattern.regex, 'g') });
+  }
+  return detectors;
+}
+
+function mask(match: string): string {
+  const firstLine = match.split('\n')[0];
+  return firstLine.length <= 8 ? '****' : `${firstLine.substring(0, 4)}****(${match.length} chars)`;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  type: string;
+}
+
+/**
+ * Find secrets in `text` and return it with each one replaced by
+ * [REDACTED:<type>]. Overlapping matches are merged.
+ */
+export function scanSecrets(text: string, config: DlpConfig): { findings: DlpFinding[]; redacted: string } {
+  const findings: DlpFinding[] = [];
+  const spans: Span[] = [];
+
+  for (const detector of detectorsFor(config)) {
+    for (const match of text.matchAll(detector.regex)) {
+      if (match[0].length === 0) continue;
+      spans.push({ start: match.index!, end: match.index! + match[0].length, type: detector.type });
+      findings.push({
+        type: detector.type,
+        label: detector.label,
+        preview: detector.reveal ? match[0] : mask(match[0]),
+      });
+    }
+  }
+
+  if (spans.length === 0) return { findings, redacted: text };
+
+  spans.sort((a, b) => a.start - b.start);
+  let redacted = '';
+  let cursor = 0;
+  for (const span of spans) {
+    if (span.end <= cursor) continue;
+    redacted += text.substring(cursor, Math.max(cursor, span.start));
+    if (span.start >= cursor) redacted += `[REDACTED:${span.type}]`;
+    cursor = span.end;
+  }
+  redacted += text.substring(cursor);
+
+  return { findings, redacted };
+}
+
+/**
+ * Inspect the text fields of an outbound response (e.g. subject, body,
+ * html) and decide what to do with it.
+ */
+export function inspectOutbound<T extends Record<string, string | undefined>>(fields: T, config: DlpConfig): DlpVerdict<T> {
+  if (config.action === 'off') return { action: 'allow', findings: [], fields };
+
+  const findings: DlpFinding[] = [];
+  const redacted: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (!value) {
+      redacted[key] = value;
+      continue;
+    }
+    const result = scanSecrets(value, config);
+    findings.push(...result.findings);
+    redacted[key] = result.redacted;
+  }
+
+  if (findings.length === 0) return { action: 'allow', findings, fields };
+  return {
+    action: config.action,
+    findings,
+    fields: config.action === 'redact' ? (redacted as T) : fields,
+  };
+}
+
+/** What a gateway does with a screened response */
+export type DlpScreenResult<T> =
+  | { status: 'send'; fields: T }
+  | { status: 'held' | 'blocked'; reason: string };
+
+export interface DlpScreenOptions<T> {
+  config: DlpConfig;
+  /** Text fields of the response, e.g. { message } or { subject, body, html } */
+  fields: T;
+  /** Who sent the response and where it was going, for the activity log */
+  details: { from: string; to?: string; subject?: string; ampMessageId?: string };
+  /** Send a notification to the agent that sent the response */
+  notify: (subject: string, message: string) => Promise<void>;
+  /** The delivery attempt, which keeps the passed fields for its retries */
+  attempt?: Pick<DeliveryAttempt, 'screened' | 'screenPassed'>;
+}
+
+const NOTICE_SUBJECT: Record<Exclude<DlpAction, 'off'>, string> = {
+  redact: '[DLP-REDACTED]',
+  hold: '[DLP-HELD]',
+  block: '[DLP-BLOCKED]',
+};
+
+const NOTICE_TEXT: Record<Exclude<DlpAction, 'off'>, string> = {
+  redact: 'Your response was sent with the secrets replaced by [REDACTED:<type>] markers.',
+  hold: 'Your response was not sent. It is held in the dead-letter queue until an operator releases or discards it.',
+  block: 'Your response was not sent and has been discarded.',
+};
+
+/**
+ * Run DLP on an agent response before it is sent. On findings, log a
+ * `security` event and notify the agent, then return the (redacted)
+ * fields to send or the reason the response is withheld.
+ */
+export async function screenOutbound<T extends Record<string, string | undefined>>(
+  options: DlpScreenOptions<T>
+): Promise<DlpScreenResult<T>> {
+  const { config, details, notify, attempt } = options;
+  if (attempt?.screened) return { status: 'send', fields: attempt.screened as T };
+
+  const verdict = inspectOutbound(options.fields, config);
+  if (verdict.action === 'allow') {
+    attempt?.screenPassed(verdict.fields);
+    return { status: 'send', fields: verdict.fields };
+  }
+
+  const found = describeFindings(verdict.findings);
+  const status = verdict.action === 'redact' ? 'redacted' : verdict.action === 'hold' ? 'held' : 'blocked';
+  console.log(`[DLP] Response from ${details.from} ${status}: ${found}`);
+
+  logEvent('security', `Outbound response ${status}: ${found}`, {
+    ...details,
+    securityFlags: dlpFlags(verdict.findings),
+    deliveryStatus: status,
+    policyAction: verdict.action,
+  });
+
+  await notify(
+    `${NOTICE_SUBJECT[verdict.action]} ${details.subject || 'Response'}`,
+    `Outbound DLP found ${found} in your response${details.to ? ` to ${details.to}` : ''}.\n${NOTICE_TEXT[verdict.action]}`
+  );
+
+  if (verdict.action === 'redact') {
+    attempt?.screenPassed(verdict.fields);
+    return { status: 'send', fields: verdict.fields };
+  }
+  return { status: status as 'held' | 'blocked', reason: `DLP: ${found}` };
+}
+
+/** Activity-log flags for a verdict's findings: "dlp:<type>: <preview>" */
+export function dlpFlags(findings: DlpFinding[]): string[] {
+  return findings.map((f) => `dlp:${f.type}: ${f.preview}`);
+}
+
+/** One-line description of the findings for agent notifications */
+export function describeFindings(findings: DlpFinding[]): string {
+  return [...new Set(findings.map((f) => f.label))].join(', ');
+}
+
+export function parseDlpAction(value: string | undefined): DlpAction {
+  if (!value) return 'redact';
+  if (DLP_ACTIONS.includes(value as DlpAction)) return value as DlpAction;
+  console.warn(`[DLP] Unknown DLP_ACTION "${value}", using "redact"`);
+  return 'redact';
+}
+
+/**
+ * Parse DLP_PATTERNS: a JSON object of label -> regex, e.g.
+ * {"employee id": "EMP-\\d{6}"}. Invalid entries are skipped with a warning.
+ */
+export function parseDlpPatterns(value: string | undefined): DlpPattern[] {
+  if (!value) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    console.warn('[DLP] Ignoring DLP_PATTERNS, not valid JSON:', (error as Error).message);
+    return [];
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    console.warn('[DLP] Ignoring DLP_PATTERNS, expected an object of label -> regex');
+    return [];
+  }
+
+  const patterns: DlpPattern[] = [];
+  for (const [label, regex] of Object.entries(parsed as Record<string, unknown>)) {
+    try {
+      if (typeof regex !== 'string' || regex === '') throw new Error('not a string');
+      new RegExp(regex, 'g');
+      patterns.push({ label, regex });
+    } catch (error) {
+      console.warn(`[DLP] Ignoring pattern "${label}":`, (error as Error).message);
+    }
+  }
+  return patterns;
+}
@@ -0,0 +1,162 @@
+/**
+ * Gateway Core - Encoded Payload Decoder
+ *
+ * Finds text that looks encoded, decodes it and hands the result back to
+ * the injection scanner, so an instruction hidden as base64, hex,
+ * URL-encoding, HTML entities or ROT13 is scanned like plain text.
+ *
+ * - base64, hex: each plausible span is decoded on its own; results that
+ *   are not mostly printable text are discarded
+ * - url, html:   the whole text is decoded when it contains enough escapes
+ * - rot13:       the whole text is rotated (never twice in a row)
+ *
+ * Decoded text is decoded again, up to `maxDepth` layers. All decoded text
+ * together is capped at `budget` characters, so a message costs at most
+ * that much extra scanning however it is built.
+ */
+
+export type PayloadEncoding = 'base64' | 'hex' | 'url' | 'html' | 'rot13';
+
+export interface DecodedPayload {
+  /** Encodings peeled off, outermost first */
+  encodings: PayloadEncoding[];
+  text: string;
+}
+
+const BASE64_SPAN = /[A-Za-z0-9+/_-]{16,}={0,2}/g;
+const HEX_SPAN = /(?:\\x[0-9a-fA-F]{2}){8,}|\b(?:[0-9a-fA-F]{2}){8,}\b/g;
+const URL_ESCAPE = /%[0-9a-fA-F]{2}/g;
+const HTML_ENTITY = /&(?:#x[0-9a-fA-F]{1,6}|#\d{1,7}|[a-zA-Z]{2,8});/g;
+
+/** Escapes needed before a whole text is URL- or HTML-decoded */
+const MIN_ESCAPES = 3;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  colon: ':',
+  sol: '/',
+  lpar: '(',
+  rpar: ')',
+  period: '.',
+  comma: ',',
+};
+
+/**
+ * Decode the encoded parts of `text`, layer by layer.
+ */
+export function decodePayloads(text: string, maxDepth: number, budget: number): DecodedPayload[] {
+  const results: DecodedPayload[] = [];
+  let remaining = budget;
+  let layer: DecodedPayload[] = [{ encodings: [], text }];
+
+  for (let depth = 0; depth < maxDepth && remaining > 0 && layer.length > 0; depth++) {
+    const next: DecodedPayload[] = [];
+
+    for (const item of layer) {
+      for (const decoded of decodeLayer(item)) {
+        if (remaining <= 0) break;
+        const clipped = decoded.text.length > remaining ? decoded.text.substring(0, remaining) : decoded.text;
+        remaining -= clipped.length;
+        const payload = { encodings: decoded.encodings, text: clipped };
+        results.push(payload);
+        next.push(payload);
+      }
+    }
+
+    layer = next;
+  }
+
+  return results;
+}
+
+/**
+ * All decodings of one piece of text, one level deep. Lazy, so decoding
+ * stops as soon as the budget runs out.
+ */
+function* decodeLayer(item: DecodedPayload): Generator<DecodedPayload> {
+  const { text, encodings } = item;
+  const last = encodings[encodings.length - 1];
+
+  for (const span of text.match(BASE64_SPAN) ?? []) {
+    const decoded = decodeBase64(span);
+    if (decoded) yield { encodings: [...encodings, 'base64'], text: decoded };
+  }
+
+  for (const span of text.match(HEX_SPAN) ?? []) {
+    const decoded = decodeHex(span);
+    if (decoded) yield { encodings: [...encodings, 'hex'], text: decoded };
+  }
+
+  if ((text.match(URL_ESCAPE)?.length ?? 0) >= MIN_ESCAPES) {
+    yield { encodings: [...encodings, 'url'], text: decodeUrl(text) };
+  }
+
+  if ((text.match(HTML_ENTITY)?.length ?? 0) >= MIN_ESCAPES) {
+    yield { encodings: [...encodings, 'html'], text: decodeHtmlEntities(text) };
+  }
+
+  // ROT13 is its own inverse; rotating twice would rescan the input
+  if (last !== 'rot13' && /[a-zA-Z]/.test(text)) {
+    yield { encodings: [...encodings, 'rot13'], text: rot13(text) };
+  }
+}
+
+function decodeBase64(span: string): string | null {
+  const bytes = Buffer.from(span.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  return plausibleText(bytes.toString('utf-8'));
+}
+
+function decodeHex(span: string): string | null {
+  const bytes = Buffer.from(span.replace(/\\x/g, ''), 'hex');
+  return plausibleText(bytes.toString('utf-8'));
+}
+
+function decodeUrl(text: string): string {
+  return text.replace(/(?:%[0-9a-fA-F]{2})+/g, (run) => {
+    try {
+      return decodeURIComponent(run);
+    } catch {
+      return String.fromCharCode(...run.split('%').slice(1).map((h) => parseInt(h, 16)));
+    }
+  });
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(HTML_ENTITY, (entity) => {
+    const body = entity.slice(1, -1);
+    let code: number | undefined;
+    if (body.startsWith('#x')) code = parseInt(body.slice(2), 16);
+    else if (body.startsWith('#')) code = parseInt(body.slice(1), 10);
+    else return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+function rot13(text: string): string {
+  return text.replace(/[a-zA-Z]/g, (c) => {
+    const base = c <= 'Z' ? 65 : 97;
+    return String.fromCharCode(((c.charCodeAt(0) - base + 13) % 26) + base);
+  });
+}
+
+/**
+ * Decoded bytes count as text when they are valid UTF-8, nearly all
+ * printable and contain a run of letters or digits (a word, or another
+ * encoded layer); anything else is binary data, not a hidden instruction.
+ */
+function plausibleText(decoded: string): string | null {
+  if (decoded.length < 4 || decoded.includes('\uFFFD')) return null;
+
+  let printable = 0;
+  for (const c of decoded) {
+    if (c === '\n' || c === '\r' || c === '\t' || (c >= ' ' && c !== '\x7f')) printable++;
+  }
+  if (printable < decoded.length * 0.95) return null;
+
+  return /[a-zA-Z0-9]{3}/.test(decoded) ? decoded : null;
+}
@@ -0,0 +1,262 @@
+/**
+ * Gateway Core - Review Queue for Held Inbound Messages
+ *
+ * Inbound messages the risk policy holds (see risk-policy.ts) are not
+ * routed. They are stored here, with the route request that would have
+ * been sent, until an operator decides:
+ *
+ *   approve          -> the original request is forwarded (via the route queue)
+ *   edit-and-forward -> the gateway rewrites the message text, then forwards
+ *   reject           -> dropped; the sender is told on their platform
+ *
+ * Forwarded requests carry `context.security.review` so the agent can see a
+ * human let the message through.
+ *
+ * Layout: one JSON file per held message, `<dir>/<heldAt>-<seq>.json`;
+ * file names sort in arrival order.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AMPRouteRequest } from './types.js';
+import type { RiskAssessment } from './risk-policy.js';
+import type { RouteSubmitResult } from './route-queue.js';
+import { logEvent } from './activity-log.js';
+
+export interface ReviewQueueConfig {
+  /** Where held messages are persisted */
+  dir: string;
+  /** Sent to the sender when an operator rejects their message */
+  rejectReply: string;
+}
+
+/**
+ * A held message. `context` is whatever the gateway needs to route the
+ * request later and to reply to the sender; it must be plain JSON.
+ */
+export interface HeldMessage<C> {
+  id: string;
+  heldAt: string;
+  /** Display name or address of the sender */
+  sender: string;
+  /** The sender's message as received, for the reviewer */
+  text: string;
+  /** Scanner flags, "category: match" */
+  flags: string[];
+  risk: RiskAssessment;
+  request: AMPRouteRequest;
+  context: C;
+}
+
+export interface HeldMessageSummary {
+  id: string;
+  heldAt: string;
+  sender: string;
+  to: string;
+  subject: string;
+  score: number;
+  flags: string[];
+}
+
+export const DEFAULT_REVIEW_REJECT_REPLY = 'Your message was reviewed by an operator and will not be delivered.';
+
+export type ReviewDecision = 'approved' | 'edited' | 'rejected';
+
+export interface ReviewQueueOptions<C> {
+  config: ReviewQueueConfig;
+  /** Route an approved request (normally RouteQueue.submit) */
+  forward: (request: AMPRouteRequest, context: C) => Promise<RouteSubmitResult>;
+  /** Return the request with its message text replaced by the operator's edit */
+  edit: (request: AMPRouteRequest, text: string, context: C) => AMPRouteRequest;
+  /** Send `reply` to the sender of a rejected message. Errors are logged. */
+  notifyRejected: (entry: HeldMessage<C>, reply: string) => Promise<void>;
+}
+
+/** Held message ids are generated by nextId(); reject anything else */
+const ID_PATTERN = /^\d+-\d+$/;
+
+export class ReviewQueue<C> {
+  /** Held message ids, oldest first */
+  private readonly pending: string[];
+  /** Ids with a decision in progress, so two reviewers cannot both act */
+  private readonly deciding = new Set<string>();
+  private seq = 0;
+
+  constructor(private readonly options: ReviewQueueOptions<C>) {
+    fs.mkdirSync(options.config.dir, { recursive: true });
+    this.pending = fs
+      .readdirSync(options.config.dir)
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => f.slice(0, -'.json'.length))
+      .sort();
+  }
+
+  /**
+   * Store a held message until an operator decides.
+   */
+  hold(message: Omit<HeldMessage<C>, 'id' | 'heldAt'>): HeldMessage<C> {
+    const entry: HeldMessage<C> = {
+      id: this.nextId(),
+      heldAt: new Date().toISOString(),
+      ...message,
+    };
+
+    this.persist(entry);
+    this.pending.push(entry.id);
+    console.log(`[REVIEW] Held message ${entry.id} from ${entry.sender} for ${entry.request.to} (score ${entry.risk.score})`);
+    return entry;
+  }
+
+  /**
+   * List held messages, oldest first.
+   */
+  list(): HeldMessageSummary[] {
+    const summaries: HeldMessageSummary[] = [];
+    for (const id of this.pending) {
+      const entry = this.get(id);
+      if (!entry) continue;
+      summaries.push({
+        id: entry.id,
+        heldAt: entry.heldAt,
+        sender: entry.sender,
+        to: entry.request.to,
+        subject: entry.request.subject,
+        score: entry.risk.score,
+        flags: entry.flags,
+      });
+    }
+    return summaries;
+  }
+
+  size(): number {
+    return this.pending.length;
+  }
+
+  get(id: string): HeldMessage<C> | null {
+    if (!ID_PATTERN.test(id) || !this.pending.includes(id)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(this.entryPath(id), 'utf-8')) as HeldMessage<C>;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Forward a held message, optionally with the operator's edited text.
+   * Returns null if there is no such message (or it is being decided).
+   * The message stays held if forwarding throws.
+   */
+  async approve(id: string, editedText?: string): Promise<RouteSubmitResult | null> {
+    const entry = this.claim(id);
+    if (!entry) return null;
+
+    try {
+      const decision: ReviewDecision = editedText === undefined ? 'approved' : 'edited';
+      let request = entry.request;
+      if (editedText !== undefined) {
+        request = this.options.edit(request, editedText, entry.context);
+      }
+      request = withReview(request, decision);
+
+      const result = await this.options.forward(request, entry.context);
+      this.remove(id);
+
+      logEvent('inbound', `Held message ${decision}: ${entry.sender} -> ${entry.request.to}`, {
+        from: entry.sender,
+        to: entry.request.to,
+        subject: entry.text.substring(0, 80),
+        riskScore: entry.risk.score,
+        deliveryStatus: decision,
+      });
+      return result;
+    } finally {
+      this.deciding.delete(id);
+    }
+  }
+
+  /**
+   * Drop a held message and tell the sender. `reason`, if given, is added
+   * to the reply. Returns false if there is no such message.
+   */
+  async reject(id: string, reason?: string): Promise<boolean> {
+    const entry = this.claim(id);
+    if (!entry) return false;
+
+    try {
+      this.remove(id);
+      logEvent('security', `Held message rejected: ${entry.sender} -> ${entry.request.to}`, {
+        from: entry.sender,
+        to: entry.request.to,
+        subject: entry.text.substring(0, 80),
+        riskScore: entry.risk.score,
+        deliveryStatus: 'rejected',
+        ...(reason ? { error: reason } : {}),
+      });
+
+      const reply = reason ? `${this.options.config.rejectReply}\nReason: ${reason}` : this.options.config.rejectReply;
+      try {
+        await this.options.notifyRejected(entry, reply);
+      } catch (error) {
+        console.error(`[REVIEW] Failed to notify ${entry.sender} of rejection:`, (error as Error).message);
+      }
+      return true;
+    } finally {
+      this.deciding.delete(id);
+    }
+  }
+
+  private claim(id: string): HeldMessage<C> | null {
+    if (this.deciding.has(id)) return null;
+    const entry = this.get(id);
+    if (entry) this.deciding.add(id);
+    return entry;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Persistence
+  // ---------------------------------------------------------------------------
+
+  private nextId(): string {
+    this.seq = (this.seq + 1) % 1_000_000;
+    return `${String(Date.now()).padStart(15, '0')}-${String(this.seq).padStart(6, '0')}`;
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.options.config.dir, `${id}.json`);
+  }
+
+  private persist(entry: HeldMessage<C>): void {
+    const target = this.entryPath(entry.id);
+    const tmpPath = `${target}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(entry, null, 2));
+    fs.renameSync(tmpPath, target);
+  }
+
+  private remove(id: string): void {
+    const index = this.pending.indexOf(id);
+    if (index !== -1) this.pending.splice(index, 1);
+    try {
+      fs.unlinkSync(this.entryPath(id));
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/** Record the operator's decision in context.security.review */
+function withReview(request: AMPRouteRequest, decision: ReviewDecision): AMPRouteRequest {
+  const context = request.payload.context ?? {};
+  return {
+    ...request,
+    payload: {
+      ...request.payload,
+      context: {
+        ...context,
+        security: {
+          ...context.security,
+          review: { decision, reviewed_at: new Date().toISOString() },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Gateway Core - Risk Scoring and Policy Actions
+ *
+ * Turns scanner flags into a risk score (the sum of each flag's severity
+ * weight) and maps the score onto an action:
+ *
+ *   score >= blockScore -> block                 (sender gets blockReply)
+ *   score >= holdScore  -> hold                  (sender gets holdReply)
+ *   score >= warnScore  -> forward-with-warning  (warning inside the wrapper)
+ *   otherwise           -> forward
+ *
+ * A threshold of 0 disables its band. The defaults only warn, which is how
+ * gateways behaved before scoring existed.
+ */
+
+import type { InjectionFlag } from './content-security.js';
+import { RULE_SEVERITIES, type RuleSeverity } from './injection-rules.js';
+
+export type PolicyAction = 'forward' | 'forward-with-warning' | 'hold' | 'block';
+
+export interface RiskPolicyConfig {
+  /** Points each flag adds to the score, by rule severity */
+  weights: Record<RuleSeverity, number>;
+  warnScore: number;
+  holdScore: number;
+  blockScore: number;
+  /** Reply sent to the sender when a message is held */
+  holdReply: string;
+  /** Reply sent to the sender when a message is blocked */
+  blockReply: string;
+}
+
+export interface RiskAssessment {
+  score: number;
+  action: PolicyAction;
+}
+
+export const DEFAULT_SEVERITY_WEIGHTS: Record<RuleSeverity, number> = {
+  low: 1,
+  medium: 3,
+  high: 6,
+  critical: 10,
+};
+
+export const DEFAULT_RISK_POLICY: RiskPolicyConfig = {
+  weights: DEFAULT_SEVERITY_WEIGHTS,
+  warnScore: 1,
+  holdScore: 0,
+  blockScore: 0,
+  holdReply: 'Your message has been held for review by an operator before it is delivered.',
+  blockReply: 'Your message was not delivered because it was flagged by our content security checks.',
+};
+
+/** Assessment for content that was not scanned (operators) */
+export const NO_RISK: RiskAssessment = { score: 0, action: 'forward' };
+
+export function riskScore(flags: InjectionFlag[], weights: Record<RuleSeverity, number>): number {
+  return flags.reduce((sum, flag) => sum + (weights[flag.severity] ?? 0), 0);
+}
+
+/**
+ * Score the flags and pick the policy action.
+ */
+export function assessRisk(flags: InjectionFlag[], policy: RiskPolicyConfig = DEFAULT_RISK_POLICY): RiskAssessment {
+  const score = riskScore(flags, policy.weights);
+  const reached = (threshold: number) => threshold > 0 && score >= threshold;
+
+  let action: PolicyAction = 'forward';
+  if (reached(policy.blockScore)) action = 'block';
+  else if (reached(policy.holdScore)) action = 'hold';
+  else if (reached(policy.warnScore)) action = 'forward-with-warning';
+
+  return { score, action };
+}
+
+/**
+ * Parse RISK_SEVERITY_WEIGHTS, e.g. "low=1,medium=3,high=6,critical=10".
+ * Severities that are missing or not a non-negative number keep their default.
+ */
+export function parseSeverityWeights(value: string | undefined): Record<RuleSeverity, number> {
+  const weights = { ...DEFAULT_SEVERITY_WEIGHTS };
+  if (!value) return weights;
+
+  for (const part of value.split(',')) {
+    const [name, raw] = part.split('=').map((s) => s.trim());
+    const weight = Number(raw);
+    if (!RULE_SEVERITIES.includes(name as RuleSeverity) || raw === undefined || !(weight >= 0)) {
+      console.warn(`[RISK] Ignoring invalid severity weight "${part.trim()}"`);
+      continue;
+    }
+    weights[name as RuleSeverity] = weight;
+  }
+  return weights;
+}
@@ -0,0 +1,138 @@
+/**
+ * Gateway Core - Route Authorization
+ *
+ * Decides whether a chat sender may reach the agent they addressed with
+ * @AIM: (or the default agent). It runs after the address is parsed and
+ * before the message is sanitized and sent, and all three rules must allow
+ * the route:
+ *
+ *   tier   -> the sender's trust tier lists the agent (see trust-tiers.ts)
+ *   scope  -> a channel or guild with its own agent list includes it
+ *   tenant -> the agent is in the gateway's tenant or the default agent's,
+ *             or its tenant is allowed
+ *
+ * A denied sender gets `denyReply` and a `security` event is logged with
+ * the flag "route_denied: <reason>".
+ */
+
+import type { TrustLevel } from './content-security.js';
+import { agentListAllows, tierAllowsAgent } from './trust-tiers.js';
+import { logEvent } from './activity-log.js';
+
+export interface RouteAuthorizationConfig {
+  /** Other tenants senders may address (tenant names or address domains); "*" allows any */
+  allowedTenants: string[];
+  /** Channel or guild ID -> agents reachable from there; other places only apply the tier's list */
+  scopeAgents: Record<string, string[]>;
+  /** Reply sent to a sender whose route is denied */
+  denyReply: string;
+}
+
+export const DEFAULT_ROUTE_AUTHORIZATION: RouteAuthorizationConfig = {
+  allowedTenants: [],
+  scopeAgents: {},
+  denyReply: "Sorry, that agent isn't available to you here. Please ask an operator if you need access.",
+};
+
+export interface RouteRequest {
+  /** Sender's trust level */
+  level: TrustLevel;
+  /** Full AMP address of the addressed agent */
+  address: string;
+  /** The gateway's own tenant */
+  tenant: string;
+  /** The gateway's default agent; its tenant is always allowed */
+  defaultAgent?: string;
+  /** Where the message was posted, most specific first (e.g. channel ID, guild ID) */
+  scopes: string[];
+}
+
+export type RouteDecision =
+  | { allowed: true }
+  | { allowed: false; rule: 'tier' | 'scope' | 'tenant'; reason: string };
+
+let authorizationConfig: RouteAuthorizationConfig = DEFAULT_ROUTE_AUTHORIZATION;
+
+export function configureRouteAuthorization(config: RouteAuthorizationConfig): void {
+  authorizationConfig = config;
+}
+
+/**
+ * Check a route against the tenant, tier and scope rules, in that order.
+ */
+export function authorizeRoute(request: RouteRequest): RouteDecision {
+  const domain = (request.address.split('@')[1] ?? '').toLowerCase();
+  const addressTenant = domain.split('.')[0];
+  const defaultDomain = (request.defaultAgent?.split('@')[1] ?? '').toLowerCase();
+  if (domain && addressTenant !== request.tenant.toLowerCase() && domain !== defaultDomain) {
+    const allowed = authorizationConfig.allowedTenants.some((entry) => {
+      const tenant = entry.trim().toLowerCase();
+      return tenant === '*' || tenant === addressTenant || tenant === domain;
+    });
+    if (!allowed) {
+      return { allowed: false, rule: 'tenant', reason: `tenant ${addressTenant} is not allowed` };
+    }
+  }
+
+  if (!tierAllowsAgent(request.level, request.address)) {
+    return { allowed: false, rule: 'tier', reason: `${request.level} senders may not reach ${request.address}` };
+  }
+
+  const scope = request.scopes.find((id) => authorizationConfig.scopeAgents[id]);
+  if (scope && !agentListAllows(authorizationConfig.scopeAgents[scope], request.address)) {
+    return { allowed: false, rule: 'scope', reason: `${request.address} is not reachable from ${scope}` };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Log a denied route as a `security` event.
+ */
+export function reportDeniedRoute(
+  sender: string,
+  request: RouteRequest,
+  decision: Extract<RouteDecision, { allowed: false }>,
+  subject?: string
+): void {
+  console.log(`[SECURITY] Route denied: ${sender} (trust: ${request.level}) -> ${request.address}: ${decision.reason}`);
+  logEvent('security', `Route denied: ${sender} -> ${request.address} (${decision.rule})`, {
+    from: sender,
+    to: request.address,
+    subject,
+    securityFlags: [`route_denied: ${decision.reason}`],
+    policyAction: 'deny',
+    deliveryStatus: 'blocked',
+  });
+}
+
+/**
+ * Parse ROUTE_SCOPE_AGENTS: a JSON object of channel or guild ID -> agent
+ * names, e.g. {"123456789012345678": ["helpdesk"]}. Invalid entries are
+ * skipped with a warning.
+ */
+export function parseScopeAgents(value: string | undefined): Record<string, string[]> {
+  if (!value) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    console.warn('[ROUTING] Ignoring ROUTE_SCOPE_AGENTS, not valid JSON:', (error as Error).message);
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    console.warn('[ROUTING] Ignoring ROUTE_SCOPE_AGENTS, expected an object of scope ID -> agents');
+    return {};
+  }
+
+  const scopes: Record<string, string[]> = {};
+  for (const [scope, agents] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!Array.isArray(agents) || !agents.every((a) => typeof a === 'string')) {
+      console.warn(`[ROUTING] Ignoring scope "${scope}", expected an array of agent names`);
+      continue;
+    }
+    scopes[scope] = agents;
+  }
+  return scopes;
+}
@@ -0,0 +1,398 @@
+/**
+ * Gateway Core - Store-and-Forward Route Queue
+ *
+ * Every inbound platform message reaches AI Maestro through
+ * POST /api/v1/route. When Maestro is unreachable (network error, timeout
+ * or 5xx) the request is persisted to a local queue instead of being lost,
+ * and flushed in arrival order once Maestro is back:
+ *
+ *   closed    -> route directly while the queue is empty; retry the queue
+ *                head with exponential backoff on failure
+ *   open      -> after `failureThreshold` consecutive failures: stop routing,
+ *                probe GET /api/v1/health with backoff
+ *   half-open -> health probe succeeded: flush the queue head; success
+ *                closes the circuit, failure re-opens it
+ *
+ * Rejections that retrying cannot fix (4xx, e.g. unknown agent) are thrown
+ * as AMPRouteError for direct sends. Queued ones are dropped with an error
+ * event, and `onRejected` lets the gateway tell the sender, who was told
+ * the message would be delivered (see rejectedRouteNotice).
+ *
+ * Layout: one JSON file per queued request, `<dir>/<enqueuedAt>-<seq>.json`;
+ * file names sort in arrival order.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AMPRouteRequest, AMPRouteResponse } from './types.js';
+import { logEvent } from './activity-log.js';
+import { timeAmpRoute } from './metrics.js';
+import { retryDelayMs } from './outbound-delivery.js';
+
+export interface RouteQueueConfig {
+  /** Where queued route requests are persisted */
+  dir: string;
+  /** Backoff before the first retry / health probe; doubles on every further failure */
+  retryBaseMs: number;
+  /** Upper bound for the backoff */
+  retryMaxMs: number;
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A queued route request. `context` is whatever the gateway needs to finish
+ * the job once the request is delivered (e.g. the chat to reply in); it is
+ * persisted with the request, so it must be plain JSON.
+ */
+export interface QueuedRoute<C> {
+  id: string;
+  enqueuedAt: string;
+  attempts: number;
+  request: AMPRouteRequest;
+  context: C;
+}
+
+export type RouteSubmitResult =
+  | { status: 'delivered'; result: AMPRouteResponse }
+  | { status: 'queued'; id: string; position: number };
+
+/**
+ * Maestro rejected a route request (4xx). Not retried.
+ */
+export class AMPRouteError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: string
+  ) {
+    super(`AMP route failed (${status}): ${body}`);
+    this.name = 'AMPRouteError';
+  }
+}
+
+export interface RouteQueueOptions<C> {
+  maestroUrl: string;
+  apiKey: string;
+  config: RouteQueueConfig;
+  /** Timeout for each route request (default 10000) */
+  timeoutMs?: number;
+  /** Signs each request once, before it is sent or queued (see amp-signing.ts) */
+  sign?: (request: AMPRouteRequest) => AMPRouteRequest;
+  /**
+   * Called after every successful route, direct or flushed from the queue.
+   * Errors are logged and do not affect delivery.
+   */
+  onDelivered: (entry: QueuedRoute<C>, result: AMPRouteResponse) => Promise<void> | void;
+  /** Called when Maestro rejected a queued request (after the error event is logged) */
+  onRejected?: (entry: QueuedRoute<C>, error: AMPRouteError) => Promise<void> | void;
+}
+
+/**
+ * What to tell the sender of a queued message that Maestro rejected.
+ */
+export function rejectedRouteNotice(request: AMPRouteRequest, error: AMPRouteError): string {
+  const agent = request.to.split('@')[0];
+  const reason =
+    error.status === 404
+      ? `agent ${agent} was not found`
+      : error.status === 429
+        ? `agent ${agent} is rate limited, please send it again in a moment`
+        : `AI Maestro rejected it (HTTP ${error.status})`;
+  return `Your queued message to ${agent} could not be delivered: ${reason}.`;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const HEALTH_TIMEOUT_MS = 5000;
+
+/** Maestro could not be reached, or failed on its side: worth retrying later */
+class MaestroUnavailableError extends Error {}
+
+export class RouteQueue<C> {
+  /** Queued entry ids, oldest first */
+  private readonly pending: string[];
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing = false;
+  private stopped = false;
+  private seq = 0;
+
+  constructor(private readonly options: RouteQueueOptions<C>) {
+    fs.mkdirSync(options.config.dir, { recursive: true });
+    this.pending = fs
+      .readdirSync(options.config.dir)
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => f.slice(0, -'.json'.length))
+      .sort();
+
+    if (this.pending.length > 0) {
+      console.log(`[ROUTE-QUEUE] ${this.pending.length} queued message(s) from a previous run, flushing`);
+      setImmediate(() => this.flush());
+    }
+  }
+
+  /**
+   * Route a request to Maestro, or queue it if Maestro is unavailable (or
+   * earlier requests are still queued, to keep arrival order).
+   * Throws AMPRouteError if Maestro rejects the request.
+   */
+  async submit(request: AMPRouteRequest, context: C): Promise<RouteSubmitResult> {
+    if (this.options.sign) {
+      request = this.options.sign(request);
+    }
+
+    const entry: QueuedRoute<C> = {
+      id: this.nextId(),
+      enqueuedAt: new Date().toISOString(),
+      attempts: 0,
+      request,
+      context,
+    };
+
+    if (this.state === 'closed' && this.pending.length === 0) {
+      entry.attempts++;
+      try {
+        const result = await this.send(request);
+        this.recordSuccess();
+        await this.delivered(entry, result);
+        return { status: 'delivered', result };
+      } catch (error) {
+        // A rejection still means Maestro is up
+        if (error instanceof AMPRouteError) this.recordSuccess();
+        if (!(error instanceof MaestroUnavailableError)) throw error;
+        console.warn(`[ROUTE-QUEUE] Maestro unavailable (${error.message}), queueing message for ${request.to}`);
+        this.recordFailure();
+      }
+    }
+
+    this.persist(entry);
+    this.pending.push(entry.id);
+    logEvent('error', `AI Maestro unavailable, message queued for ${request.to}`, {
+      to: request.to,
+      subject: request.subject,
+      deliveryStatus: 'queued',
+    });
+    this.schedule();
+
+    return { status: 'queued', id: entry.id, position: this.pending.length };
+  }
+
+  size(): number {
+    return this.pending.length;
+  }
+
+  circuitState(): CircuitState {
+    return this.state;
+  }
+
+  /** Stop retries and probes. Queued requests stay on disk for the next start. */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Circuit breaker
+  // ---------------------------------------------------------------------------
+
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log('[ROUTE-QUEUE] AI Maestro reachable again, circuit closed');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    const shouldOpen =
+      this.state === 'half-open' || this.consecutiveFailures >= this.options.config.failureThreshold;
+    if (shouldOpen && this.state !== 'open') {
+      console.error(`[ROUTE-QUEUE] AI Maestro unavailable after ${this.consecutiveFailures} attempt(s), circuit open`);
+    }
+    if (shouldOpen) this.state = 'open';
+  }
+
+  /** Arm the retry (closed) or health-probe (open) timer, unless one is pending */
+  private schedule(): void {
+    if (this.stopped || this.timer || this.flushing || this.pending.length === 0) return;
+
+    const delay = this.consecutiveFailures > 0 ? retryDelayMs(this.options.config, this.consecutiveFailures) : 0;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.state === 'open') {
+        this.probe();
+      } else {
+        this.flush();
+      }
+    }, delay);
+  }
+
+  private async probe(): Promise<void> {
+    try {
+      const response = await fetch(`${this.options.maestroUrl}/api/v1/health`, {
+        signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`health check returned ${response.status}`);
+    } catch (error) {
+      this.consecutiveFailures++;
+      console.log(`[ROUTE-QUEUE] Health probe failed (${(error as Error).message}), ${this.pending.length} queued`);
+      this.schedule();
+      return;
+    }
+
+    this.state = 'half-open';
+    this.flush();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Flush
+  // ---------------------------------------------------------------------------
+
+  private async flush(): Promise<void> {
+    if (this.flushing || this.stopped) return;
+    this.flushing = true;
+
+    try {
+      while (this.pending.length > 0 && !this.stopped && this.state !== 'open') {
+        const id = this.pending[0];
+        const entry = this.load(id);
+        if (!entry) {
+          this.pending.shift();
+          continue;
+        }
+
+        entry.attempts++;
+        try {
+          const result = await this.send(entry.request);
+          this.recordSuccess();
+          this.remove(id);
+          console.log(`[ROUTE-QUEUE] Delivered queued message for ${entry.request.to} (${this.pending.length} left)`);
+          await this.delivered(entry, result);
+        } catch (error) {
+          if (error instanceof AMPRouteError) {
+            this.recordSuccess();
+            this.remove(id);
+            await this.rejected(entry, error);
+            continue;
+          }
+          this.persist(entry);
+          this.recordFailure();
+          break;
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    this.schedule();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Maestro
+  // ---------------------------------------------------------------------------
+
+  private async send(request: AMPRouteRequest): Promise<AMPRouteResponse> {
+    let response: Response;
+    try {
+      response = await timeAmpRoute(() =>
+        fetch(`${this.options.maestroUrl}/api/v1/route`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.options.apiKey}`,
+          },
+          body: JSON.stringify(request),
+          signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+        })
+      );
+    } catch (error) {
+      throw new MaestroUnavailableError((error as Error).message);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      if (response.status >= 500) {
+        throw new MaestroUnavailableError(`AMP route failed (${response.status}): ${body}`);
+      }
+      throw new AMPRouteError(response.status, body);
+    }
+
+    return (await response.json()) as AMPRouteResponse;
+  }
+
+  private async delivered(entry: QueuedRoute<C>, result: AMPRouteResponse): Promise<void> {
+    try {
+      await this.options.onDelivered(entry, result);
+    } catch (error) {
+      console.error('[ROUTE-QUEUE] Delivery hook failed:', error);
+    }
+  }
+
+  private async rejected(entry: QueuedRoute<C>, error: AMPRouteError): Promise<void> {
+    console.error(`[ROUTE-QUEUE] Queued message for ${entry.request.to} rejected: ${error.message}`);
+    logEvent('error', `Queued message rejected by AI Maestro: ${entry.request.to}`, {
+      to: entry.request.to,
+      subject: entry.request.subject,
+      deliveryStatus: 'rejected',
+      error: error.message,
+    });
+
+    if (this.options.onRejected) {
+      try {
+        await this.options.onRejected(entry, error);
+      } catch (hookError) {
+        console.error('[ROUTE-QUEUE] Rejection hook failed:', hookError);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Persistence
+  // ---------------------------------------------------------------------------
+
+  private nextId(): string {
+    this.seq = (this.seq + 1) % 1_000_000;
+    return `${String(Date.now()).padStart(15, '0')}-${String(this.seq).padStart(6, '0')}`;
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.options.config.dir, `${id}.json`);
+  }
+
+  private persist(entry: QueuedRoute<C>): void {
+    const target = this.entryPath(entry.id);
+    const tmpPath = `${target}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(entry, null, 2));
+    fs.renameSync(tmpPath, target);
+  }
+
+  private load(id: string): QueuedRoute<C> | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.entryPath(id), 'utf-8')) as QueuedRoute<C>;
+    } catch (error) {
+      console.error(`[ROUTE-QUEUE] Dropping unreadable queue entry ${id}:`, (error as Error).message);
+      try {
+        fs.unlinkSync(this.entryPath(id));
+      } catch {
+        // Already gone
+      }
+      return null;
+    }
+  }
+
+  private remove(id: string): void {
+    const index = this.pending.indexOf(id);
+    if (index !== -1) this.pending.splice(index, 1);
+    try {
+      fs.unlinkSync(this.entryPath(id));
+    } catch {
+      // Already gone
+    }
+  }
+}
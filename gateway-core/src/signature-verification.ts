@@ -0,0 +1,174 @@
+/**
+ * Gateway Core - Inbox Signature Verification
+ *
+ * Checks AMPEnvelope.signature on inbox messages against the sender's
+ * Ed25519 public key before a gateway acts on them. Keys are fetched from
+ * Maestro (GET /api/v1/agents/resolve/:address) and cached; a signature that
+ * fails against a cached key triggers one refetch in case the key rotated.
+ *
+ * The signed input is the same as for route requests (see amp-signing.ts).
+ *
+ * Policies:
+ * - reject:    unsigned or invalid messages are rejected
+ * - warn:      problems are reported, the message is still delivered
+ * - allowlist: like reject, but unsigned messages from the listed agents
+ *              are accepted (invalid signatures are still rejected)
+ */
+
+import * as crypto from 'crypto';
+import type { AMPMessage } from './types.js';
+import { Cache } from './cache.js';
+import { signingInput } from './amp-signing.js';
+
+export type SignaturePolicy = 'reject' | 'warn' | 'allowlist';
+
+export interface VerificationConfig {
+  policy: SignaturePolicy;
+  /** Agents (full address or name) allowed to send unsigned messages under 'allowlist' */
+  unsignedAllowlist: string[];
+  /** How long fetched public keys are cached */
+  keyCacheTtlMs: number;
+}
+
+/**
+ * - verified:    signature checks out
+ * - allowlisted: unsigned, from an agent on the unsigned allowlist
+ * - accepted:    not verified, but the 'warn' policy lets it through
+ * - rejected:    the policy refuses the message
+ * - unavailable: the sender's key could not be fetched; try again later
+ */
+export type VerificationResult =
+  | { status: 'verified' }
+  | { status: 'allowlisted' }
+  | { status: 'accepted'; reason: string }
+  | { status: 'rejected'; reason: string }
+  | { status: 'unavailable'; reason: string };
+
+export interface SignatureVerifierOptions {
+  maestroUrl: string;
+  apiKey: string;
+  config: VerificationConfig;
+}
+
+const KEY_FETCH_TIMEOUT_MS = 5000;
+
+export class SignatureVerifier {
+  /** Public keys by sender address; `key: null` caches "no key registered" */
+  private readonly keys: Cache<{ key: crypto.KeyObject | null }>;
+
+  constructor(private readonly options: SignatureVerifierOptions) {
+    this.keys = new Cache(options.config.keyCacheTtlMs);
+  }
+
+  async verify(msg: AMPMessage): Promise<VerificationResult> {
+    const { policy } = this.options.config;
+    const envelope = msg.envelope;
+    const from = envelope?.from;
+
+    if (!from) {
+      return this.apply('Message has no sender');
+    }
+
+    if (!envelope.signature) {
+      if (policy === 'allowlist' && this.isAllowlisted(from)) {
+        return { status: 'allowlisted' };
+      }
+      return this.apply(`Unsigned message from ${from}`);
+    }
+
+    const signature = Buffer.from(envelope.signature, 'base64');
+    const input = Buffer.from(signingInput(envelope, msg.payload));
+
+    let cached = this.keys.get(from);
+    let fetchedNow = false;
+    if (!cached) {
+      const fetched = await this.fetchKey(from);
+      if ('error' in fetched) {
+        return policy === 'warn'
+          ? { status: 'accepted', reason: `Signature not checked: ${fetched.error}` }
+          : { status: 'unavailable', reason: fetched.error };
+      }
+      cached = fetched;
+      fetchedNow = true;
+    }
+
+    if (cached.key && this.check(input, signature, cached.key)) {
+      return { status: 'verified' };
+    }
+
+    // The sender may have rotated its key since we cached it
+    if (!fetchedNow) {
+      this.keys.delete(from);
+      const refetched = await this.fetchKey(from);
+      if (!('error' in refetched) && refetched.key && this.check(input, signature, refetched.key)) {
+        return { status: 'verified' };
+      }
+    }
+
+    return this.apply(cached.key ? `Invalid signature from ${from}` : `No public key registered for ${from}`);
+  }
+
+  private apply(reason: string): VerificationResult {
+    return this.options.config.policy === 'warn' ? { status: 'accepted', reason } : { status: 'rejected', reason };
+  }
+
+  private isAllowlisted(address: string): boolean {
+    const name = address.split('@')[0];
+    return this.options.config.unsignedAllowlist.some((entry) => entry === address || entry === name);
+  }
+
+  private check(input: Buffer, signature: Buffer, key: crypto.KeyObject): boolean {
+    try {
+      return crypto.verify(null, input, key, signature);
+    } catch {
+      return false;
+    }
+  }
+
+  private async fetchKey(address: string): Promise<{ key: crypto.KeyObject | null } | { error: string }> {
+    let response: Response;
+    try {
+      response = await fetch(
+        `${this.options.maestroUrl}/api/v1/agents/resolve/${encodeURIComponent(address)}`,
+        {
+          headers: { Authorization: `Bearer ${this.options.apiKey}` },
+          signal: AbortSignal.timeout(KEY_FETCH_TIMEOUT_MS),
+        }
+      );
+    } catch (error) {
+      return { error: `Cannot fetch public key for ${address}: ${(error as Error).message}` };
+    }
+
+    if (response.status === 404) {
+      const entry = { key: null };
+      this.keys.set(address, entry);
+      return entry;
+    }
+    if (!response.ok) {
+      return { error: `Cannot fetch public key for ${address}: HTTP ${response.status}` };
+    }
+
+    let entry: { key: crypto.KeyObject | null } = { key: null };
+    try {
+      const data = (await response.json()) as { public_key?: string };
+      if (data.public_key) {
+        entry = { key: crypto.createPublicKey(data.public_key) };
+      }
+    } catch (error) {
+      console.error(`[SIGNATURE] Unusable public key for ${address}:`, (error as Error).message);
+    }
+
+    this.keys.set(address, entry);
+    return entry;
+  }
+}
+
+/**
+ * Parse INBOX_SIGNATURE_POLICY. Unset or unknown values fall back to 'warn'.
+ */
+export function parseSignaturePolicy(value: string | undefined): SignaturePolicy {
+  if (!value) return 'warn';
+  if (value === 'reject' || value === 'warn' || value === 'allowlist') return value;
+  console.warn(`[SIGNATURE] Unknown signature policy "${value}", using "warn"`);
+  return 'warn';
+}
@@ -0,0 +1,142 @@
+/**
+ * Gateway Core - Trust Tiers
+ *
+ * Senders fall into one of four tiers. Operators are listed by platform ID
+ * (OPERATOR_*). Team and partner members are recognized through platform
+ * constructs, which each gateway resolves: Discord roles, Slack user
+ * groups, DMARC-authenticated email domains, WhatsApp contact lists.
+ * Everyone else is external.
+ *
+ * Each tier has its own policy:
+ *
+ *   wrap   -> wrap messages in <external-content> (trust="team", ...)
+ *   scan   -> off:     no injection scan
+ *             warn:    scan and warn, but never hold or block
+ *             enforce: scan and apply the risk policy
+ *   agents -> agents the tier may address with @AIM: ("*" for any)
+ *
+ * The defaults keep the two-tier behaviour: operators pass through
+ * unwrapped and unscanned, everyone else is wrapped and scanned, and every
+ * tier may reach every agent.
+ */
+
+import type { InjectionFlag, TrustLevel } from './content-security.js';
+import { assessRisk, type RiskAssessment, type RiskPolicyConfig } from './risk-policy.js';
+
+export type TrustTier = 'operator' | 'team' | 'partner' | 'external';
+
+export const TRUST_TIERS: TrustTier[] = ['operator', 'team', 'partner', 'external'];
+
+export type TierScanPolicy = 'off' | 'warn' | 'enforce';
+
+const SCAN_POLICIES: TierScanPolicy[] = ['off', 'warn', 'enforce'];
+
+export interface TierPolicy {
+  /** Wrap messages in <external-content> tags */
+  wrap: boolean;
+  scan: TierScanPolicy;
+  /** Agent names or full addresses the tier may route to; "*" allows any */
+  agents: string[];
+}
+
+export type TrustTierConfig = Record<TrustTier, TierPolicy>;
+
+export const DEFAULT_TRUST_TIERS: TrustTierConfig = {
+  operator: { wrap: false, scan: 'off', agents: ['*'] },
+  team: { wrap: true, scan: 'warn', agents: ['*'] },
+  partner: { wrap: true, scan: 'enforce', agents: ['*'] },
+  external: { wrap: true, scan: 'enforce', agents: ['*'] },
+};
+
+let tierConfig: TrustTierConfig = DEFAULT_TRUST_TIERS;
+
+export function configureTrustTiers(config: TrustTierConfig): void {
+  tierConfig = config;
+}
+
+/** Policy for a trust level; levels outside the tiers get the external policy */
+export function tierPolicy(level: TrustLevel): TierPolicy {
+  return (TRUST_TIERS as string[]).includes(level) ? tierConfig[level as TrustTier] : tierConfig.external;
+}
+
+/**
+ * Score flags against the risk policy under the tier's scan policy. Tiers
+ * that do not enforce are warned at most, never held or blocked.
+ */
+export function assessTierRisk(
+  flags: InjectionFlag[],
+  level: TrustLevel,
+  riskPolicy: RiskPolicyConfig
+): RiskAssessment {
+  const risk = assessRisk(flags, riskPolicy);
+  if (tierPolicy(level).scan === 'enforce' || risk.action === 'forward' || risk.action === 'forward-with-warning') {
+    return risk;
+  }
+  return { score: risk.score, action: 'forward-with-warning' };
+}
+
+/** The wrapper's trust attribute: "none" for external senders, else the tier */
+export function wrapperTrust(level: TrustLevel): string {
+  return level === 'external' ? 'none' : level;
+}
+
+/**
+ * Whether an agent list includes an address. Entries match the agent name
+ * or the full address, case-insensitively; "*" matches any agent.
+ */
+export function agentListAllows(agents: string[], address: string): boolean {
+  const target = address.toLowerCase();
+  const name = target.split('@')[0];
+  return agents.some((entry) => {
+    const allowed = entry.trim().toLowerCase();
+    return allowed === '*' || allowed === target || allowed === name;
+  });
+}
+
+/** Whether a sender of the given level may address an agent */
+export function tierAllowsAgent(level: TrustLevel, address: string): boolean {
+  return agentListAllows(tierPolicy(level).agents, address);
+}
+
+/**
+ * Parse TRUST_TIER_POLICY: a JSON object of tier -> partial policy, e.g.
+ * {"team": {"scan": "off"}, "external": {"agents": ["helpdesk"]}}. Fields
+ * that are missing or invalid keep their default, with a warning.
+ */
+export function parseTrustTiers(value: string | undefined): TrustTierConfig {
+  if (!value) return DEFAULT_TRUST_TIERS;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    console.warn('[TRUST] Ignoring TRUST_TIER_POLICY, not valid JSON:', (error as Error).message);
+    return DEFAULT_TRUST_TIERS;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    console.warn('[TRUST] Ignoring TRUST_TIER_POLICY, expected an object of tier -> policy');
+    return DEFAULT_TRUST_TIERS;
+  }
+
+  const tiers: TrustTierConfig = { ...DEFAULT_TRUST_TIERS };
+  for (const [tier, raw] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!(TRUST_TIERS as string[]).includes(tier) || !raw || typeof raw !== 'object') {
+      console.warn(`[TRUST] Ignoring unknown tier "${tier}" in TRUST_TIER_POLICY`);
+      continue;
+    }
+    const policy = { ...tiers[tier as TrustTier] };
+    const { wrap, scan, agents } = raw as Record<string, unknown>;
+
+    if (typeof wrap === 'boolean') policy.wrap = wrap;
+    else if (wrap !== undefined) console.warn(`[TRUST] Ignoring ${tier}.wrap, expected true or false`);
+
+    if (SCAN_POLICIES.includes(scan as TierScanPolicy)) policy.scan = scan as TierScanPolicy;
+    else if (scan !== undefined) console.warn(`[TRUST] Ignoring ${tier}.scan, expected one of ${SCAN_POLICIES.join(', ')}`);
+
+    if (Array.isArray(agents) && agents.every((a) => typeof a === 'string')) policy.agents = agents;
+    else if (agents !== undefined) console.warn(`[TRUST] Ignoring ${tier}.agents, expected an array of agent names`);
+
+    tiers[tier as TrustTier] = policy;
+  }
+  return tiers;
+}
@@ -0,0 +1,71 @@
+/**
+ * Gateway Core - AMP Protocol Type Definitions
+ *
+ * Shared by every gateway. Platform-specific config and context types
+ * stay in each gateway's own types.ts.
+ */
+
+// ---------------------------------------------------------------------------
+// AMP Protocol Types
+// ---------------------------------------------------------------------------
+
+export type AMPPriority = 'urgent' | 'high' | 'normal' | 'low';
+
+export interface AMPEnvelope {
+  version: string;
+  id: string;
+  from: string;
+  to: string;
+  subject: string;
+  priority: AMPPriority;
+  timestamp: string;
+  signature: string | null;
+  in_reply_to?: string | null;
+  thread_id?: string;
+  expires_at?: string | null;
+}
+
+export interface AMPPayload {
+  type: string;
+  message: string;
+  context?: Record<string, any> | null;
+  attachments?: any[];
+}
+
+export interface AMPMessage {
+  envelope: AMPEnvelope;
+  payload: AMPPayload;
+  metadata?: {
+    status?: string;
+    queued_at?: string;
+    delivery_attempts?: number;
+  };
+  local?: {
+    received_at?: string;
+    delivery_method?: string;
+    status?: string;
+  };
+}
+
+export interface AMPRouteRequest {
+  to: string;
+  subject: string;
+  priority?: AMPPriority;
+  in_reply_to?: string | null;
+  payload: {
+    type: string;
+    message: string;
+    context?: Record<string, any>;
+    attachments?: any[];
+  };
+  signature?: string;
+}
+
+export interface AMPRouteResponse {
+  id: string;
+  status: 'delivered' | 'queued' | 'failed';
+  method?: string;
+  delivered_at?: string;
+  error?: string;
+  message?: string;
+}
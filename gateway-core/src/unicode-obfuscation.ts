@@ -0,0 +1,152 @@
+/**
+ * Gateway Core - Invisible Characters and Homoglyphs
+ *
+ * Helpers for the injection scanner's normalizer (content-security.ts):
+ *
+ * - stripInvisible:   removes characters that render as nothing (zero-width,
+ *                     bidi controls, Unicode tags, variation selectors, ...)
+ * - foldConfusables:  maps Cyrillic/Greek look-alikes to Latin inside words
+ *                     that mix them with Latin letters ("\u0456gnore" -> "ignore")
+ * - stripLatinMarks:  drops accents from Latin letters in NFKD text, so rules
+ *                     match with or without them
+ * - detectObfuscation: reports the hiding techniques themselves, as flags in
+ *                     the `obfuscation` category
+ * - nameSkeleton:     reduces a display name to lowercase ASCII letters and
+ *                     digits, folding every look-alike, for name comparisons
+ *
+ * Only mixed-script words are folded, so text written entirely in Cyrillic
+ * or Greek is scanned as written.
+ */
+
+import type { InjectionFlag } from './content-security.js';
+
+/**
+ * Zero-width and formatting characters, bidi controls, Unicode tags and
+ * variation selectors.
+ */
+const INVISIBLE = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFE00-\uFE0F\uFEFF]|[\u{E0000}-\u{E007F}\u{E0100}-\u{E01EF}]/gu;
+
+/** Emoji subdivision flags (England, Scotland, Wales) are spelled with tag characters */
+const TAG_FLAG_EMOJI = /\u{1F3F4}[\u{E0020}-\u{E007E}]{1,8}\u{E007F}/gu;
+const TAG_CHARS = /[\u{E0000}-\u{E007F}]+/gu;
+const BIDI_CONTROL = /[\u202A-\u202E\u2066-\u2069]/u;
+/** Invisible characters between two Latin letters ("ig\u200Bnore"); soft hyphens are legitimate there */
+const INVISIBLE_IN_WORD = /[a-z][\u180E\u200B-\u200D\u2060-\u2064\uFE00-\uFE0F\uFEFF]+[a-z]/iu;
+/** A few variation selectors are normal after emoji; a long run carries data */
+const VARIATION_SELECTOR_RUN = /[\uFE00-\uFE0F\u{E0100}-\u{E01EF}]{4,}/u;
+const WORD = /[\p{L}\p{M}]+/gu;
+
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  '\u0430': 'a', '\u0441': 'c', '\u0435': 'e', '\u04BB': 'h', '\u0456': 'i', '\u0458': 'j',
+  '\u04CF': 'l', '\u043E': 'o', '\u0440': 'p', '\u051B': 'q', '\u0455': 's', '\u051D': 'w',
+  '\u0445': 'x', '\u0443': 'y',
+  '\u0410': 'A', '\u0412': 'B', '\u0421': 'C', '\u0415': 'E', '\u041D': 'H', '\u0406': 'I',
+  '\u0408': 'J', '\u041A': 'K', '\u041C': 'M', '\u041E': 'O', '\u0420': 'P', '\u0405': 'S',
+  '\u0422': 'T', '\u0425': 'X', '\u0423': 'Y', '\u04AE': 'Y', '\u051C': 'W',
+  // Greek
+  '\u03B1': 'a', '\u03B9': 'i', '\u03BA': 'k', '\u03BD': 'v', '\u03BF': 'o', '\u03C1': 'p',
+  '\u03C5': 'u', '\u03C7': 'x',
+  '\u0391': 'A', '\u0392': 'B', '\u0395': 'E', '\u0396': 'Z', '\u0397': 'H', '\u0399': 'I',
+  '\u039A': 'K', '\u039C': 'M', '\u039D': 'N', '\u039F': 'O', '\u03A1': 'P', '\u03A4': 'T',
+  '\u03A5': 'Y', '\u03A7': 'X',
+  // Latin look-alikes outside ASCII that NFKD leaves alone
+  '\u0131': 'i', '\u0251': 'a', '\u0261': 'g',
+};
+
+const CONFUSABLE_CHARS = `[${Object.keys(CONFUSABLES).join('')}]`;
+const CONFUSABLE_CHAR = new RegExp(CONFUSABLE_CHARS, 'gu');
+const HAS_CONFUSABLE = new RegExp(CONFUSABLE_CHARS, 'u');
+
+export function stripInvisible(text: string): string {
+  return text.replace(INVISIBLE, '');
+}
+
+/**
+ * Replace look-alike letters with their Latin counterpart in every word
+ * that also contains a Latin letter. Expects NFKD-normalized text.
+ */
+export function foldConfusables(text: string): string {
+  return text.replace(WORD, (word) =>
+    isMixedScript(word) ? word.replace(CONFUSABLE_CHAR, (c) => CONFUSABLES[c]) : word
+  );
+}
+
+/**
+ * Remove combining marks that follow a Latin letter ("e\u0301" -> "e").
+ * Expects NFKD-normalized text; marks on other scripts are kept.
+ */
+export function stripLatinMarks(text: string): string {
+  return text.replace(/([A-Za-z])\p{M}+/gu, '$1');
+}
+
+/** Digits and symbols that stand in for letters in names ("J0hn", "$ara") */
+const NAME_SUBSTITUTES: Record<string, string> = { '0': 'o', '1': 'l', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '|': 'l' };
+
+/**
+ * Comparison form of a name: invisible characters, accents, spacing and
+ * punctuation removed, every look-alike folded (also in single-script
+ * words) and common digit/symbol substitutions undone.
+ * "Jоhn  Döe" and "j0hn.doe" both become "johndoe".
+ */
+export function nameSkeleton(name: string): string {
+  const folded = stripLatinMarks(stripInvisible(name).normalize('NFKD').replace(CONFUSABLE_CHAR, (c) => CONFUSABLES[c]));
+  return folded
+    .toLowerCase()
+    .replace(/[014357@$|]/g, (c) => NAME_SUBSTITUTES[c])
+    .replace(/rn/g, 'm')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Flag characters and spellings used to hide text from the scanner (or
+ * from a human reader). At most one flag per technique.
+ */
+export function detectObfuscation(text: string): InjectionFlag[] {
+  const flags: InjectionFlag[] = [];
+  const flag = (pattern: string, match: string, severity: InjectionFlag['severity']) =>
+    flags.push({ category: 'obfuscation', pattern, match, severity });
+
+  // Tag characters mirror ASCII (U+E0041 is an invisible "A"), so they can carry a whole hidden message
+  const tags = text.replace(TAG_FLAG_EMOJI, '').match(TAG_CHARS);
+  if (tags) {
+    const hidden = tags
+      .join(' ')
+      .replace(/[\u{E0000}-\u{E007F}]/gu, (c) => String.fromCharCode(c.codePointAt(0)! - 0xe0000))
+      .replace(/[^\x20-\x7e]/g, '')
+      .trim();
+    flag('unicode tag characters', hidden.substring(0, 80) || '(unprintable)', 'high');
+  }
+
+  if (VARIATION_SELECTOR_RUN.test(text)) {
+    flag('variation selector run', describeCodePoints(text.match(VARIATION_SELECTOR_RUN)![0]), 'high');
+  }
+
+  const bidi = text.match(BIDI_CONTROL);
+  if (bidi) {
+    flag('bidi control characters', describeCodePoints(bidi[0]), 'medium');
+  }
+
+  const split = text.match(INVISIBLE_IN_WORD);
+  if (split) {
+    const [first, hidden, last] = [split[0][0], split[0].slice(1, -1), split[0].slice(-1)];
+    flag('invisible characters inside words', `${first}<${describeCodePoints(hidden)}>${last}`, 'medium');
+  }
+
+  const mixed = stripInvisible(text).normalize('NFKD').match(WORD)?.find(isMixedScript);
+  if (mixed) {
+    flag('mixed-script homoglyphs', mixed, 'medium');
+  }
+
+  return flags;
+}
+
+function isMixedScript(word: string): boolean {
+  return /[a-zA-Z]/.test(word) && HAS_CONFUSABLE.test(word);
+}
+
+/** "U+202E" style description; a long run is summarized */
+function describeCodePoints(chars: string): string {
+  const codePoints = [...chars].map((c) => `U+${c.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`);
+  return codePoints.length > 3 ? `${codePoints.slice(0, 3).join(' ')} ... (${codePoints.length})` : codePoints.join(' ');
+}
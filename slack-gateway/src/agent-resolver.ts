@@ -7,13 +7,14 @@
  */
 
 import type { App } from '@slack/bolt';
-import { Cache } from './cache.js';
+import { Cache } from '@aimaestro/gateway-core';
 import type { GatewayConfig, LookupResult } from './types.js';
 
 export interface AgentResolver {
   buildAddress(name: string): string;
   lookupAgent(name: string): LookupResult;
   getUserDisplayName(userId: string): Promise<string>;
+  listGroupMembers(groupId: string): Promise<string[]>;
   clearCaches(): void;
 }
 
@@ -71,10 +72,22 @@ export function createAgentResolver(config: GatewayConfig, slackApp: App): Agent
     return userId;
   }
 
+  /**
+   * List the user IDs in a Slack user group (needs the usergroups:read scope).
+   */
+  async function listGroupMembers(groupId: string): Promise<string[]> {
+    const result = await slackApp.client.usergroups.users.list({ usergroup: groupId });
+    if (!result.ok) {
+      throw new Error(result.error || 'usergroups.users.list failed');
+    }
+    return result.users ?? [];
+  }
+
   return {
     buildAddress,
     lookupAgent,
     getUserDisplayName,
+    listGroupMembers,
     clearCaches: () => {
       slackUserCache.clear();
     },
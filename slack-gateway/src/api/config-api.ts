@@ -52,12 +52,14 @@ export function createConfigRouter(
     const secConfig = getSecurityConfig();
     res.json({
       operatorSlackIds: secConfig.operatorSlackIds,
+      teamGroupIds: secConfig.teamGroupIds ?? [],
+      partnerGroupIds: secConfig.partnerGroupIds ?? [],
     });
   });
 
   /**
-   * PATCH /api/config/security — Update operator whitelist
-   * Body: { operatorSlackIds: string[] }
+   * PATCH /api/config/security — Update operator whitelist and tier groups
+   * Body: { operatorSlackIds: string[], teamGroupIds?: string[], partnerGroupIds?: string[] }
    */
   router.patch('/security', async (req: Request, res: Response) => {
     if (!adminToken) {
@@ -65,12 +67,21 @@ export function createConfigRouter(
     }
 
     const { operatorSlackIds } = req.body;
+    const current = getSecurityConfig();
+    const teamGroupIds = req.body.teamGroupIds ?? current.teamGroupIds ?? [];
+    const partnerGroupIds = req.body.partnerGroupIds ?? current.partnerGroupIds ?? [];
 
     if (!Array.isArray(operatorSlackIds)) {
       return res.status(400).json({ error: 'operatorSlackIds must be an array' });
     }
+    if (!Array.isArray(teamGroupIds) || !Array.isArray(partnerGroupIds)) {
+      return res.status(400).json({ error: 'teamGroupIds and partnerGroupIds must be arrays' });
+    }
 
-    const normalized = operatorSlackIds.map((id: string) => id.trim()).filter(Boolean);
+    const normalize = (ids: string[]) => ids.map((id: string) => String(id).trim()).filter(Boolean);
+    const normalized = normalize(operatorSlackIds);
+    const teamNormalized = normalize(teamGroupIds);
+    const partnerNormalized = normalize(partnerGroupIds);
 
     // Validate Slack IDs (must match Slack user ID format: U followed by alphanumeric)
     const invalidIds = normalized.filter((id: string) => !/^U[A-Z0-9]+$/.test(id));
@@ -78,13 +89,25 @@ export function createConfigRouter(
       return res.status(400).json({ error: `Invalid Slack ID(s): ${invalidIds.join(', ')}. Slack user IDs must match format U[A-Z0-9]+.` });
     }
 
-    const newSecConfig: SecurityConfig = { operatorSlackIds: normalized };
+    // User group IDs start with S
+    const invalidGroups = [...teamNormalized, ...partnerNormalized].filter((id: string) => !/^S[A-Z0-9]+$/.test(id));
+    if (invalidGroups.length > 0) {
+      return res.status(400).json({ error: `Invalid Slack user group ID(s): ${invalidGroups.join(', ')}. Group IDs must match format S[A-Z0-9]+.` });
+    }
+
+    const newSecConfig: SecurityConfig = {
+      operatorSlackIds: normalized,
+      teamGroupIds: teamNormalized,
+      partnerGroupIds: partnerNormalized,
+    };
     updateSecurityConfig(newSecConfig);
 
     // Persist to .env
     await updateEnvVariable('OPERATOR_SLACK_IDS', normalized.join(','));
+    await updateEnvVariable('TEAM_SLACK_GROUPS', teamNormalized.join(','));
+    await updateEnvVariable('PARTNER_SLACK_GROUPS', partnerNormalized.join(','));
 
-    res.json({ ok: true, operatorSlackIds: normalized });
+    res.json({ ok: true, operatorSlackIds: normalized, teamGroupIds: teamNormalized, partnerGroupIds: partnerNormalized });
   });
 
   return router;
@@ -0,0 +1,97 @@
+/**
+ * Review API
+ *
+ * Endpoints for the review queue: inbound messages the risk policy held
+ * instead of forwarding. Operators approve them (optionally after editing
+ * the text) or reject them, which tells the sender.
+ */
+
+import { Router, Request, Response } from 'express';
+import { AMPRouteError, type ReviewQueue, type RouteSubmitResult } from '@aimaestro/gateway-core';
+
+export function createReviewRouter<C>(reviewQueue: ReviewQueue<C>, adminToken?: string): Router {
+  const router = Router();
+
+  /**
+   * GET /api/review — Held messages, oldest first
+   */
+  router.get('/', (req: Request, res: Response) => {
+    const held = reviewQueue.list();
+    res.json({ held, count: held.length });
+  });
+
+  /**
+   * GET /api/review/:id — Full held message including the route request
+   */
+  router.get('/:id', (req: Request<{ id: string }>, res: Response) => {
+    const entry = reviewQueue.get(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Held message not found' });
+    }
+    res.json(entry);
+  });
+
+  /**
+   * POST /api/review/:id/approve — Forward the message as received
+   */
+  router.post('/:id/approve', (req: Request<{ id: string }>, res: Response) => {
+    if (!adminToken) {
+      return res.status(403).json({ error: 'ADMIN_TOKEN required for review decisions' });
+    }
+    forward(req.params.id, undefined, res);
+  });
+
+  /**
+   * POST /api/review/:id/edit — Forward the operator's edited text instead.
+   * Body: { message: string }
+   */
+  router.post('/:id/edit', (req: Request<{ id: string }>, res: Response) => {
+    if (!adminToken) {
+      return res.status(403).json({ error: 'ADMIN_TOKEN required for review decisions' });
+    }
+    const message = req.body?.message;
+    if (typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({ error: 'message is required' });
+    }
+    forward(req.params.id, message, res);
+  });
+
+  /**
+   * POST /api/review/:id/reject — Drop the message and notify the sender.
+   * Body (optional): { reason: string }, included in the reply to the sender
+   */
+  router.post('/:id/reject', async (req: Request<{ id: string }>, res: Response) => {
+    if (!adminToken) {
+      return res.status(403).json({ error: 'ADMIN_TOKEN required for review decisions' });
+    }
+    const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : undefined;
+
+    if (!(await reviewQueue.reject(req.params.id, reason))) {
+      return res.status(404).json({ error: 'Held message not found' });
+    }
+    res.json({ success: true, id: req.params.id });
+  });
+
+  async function forward(id: string, editedText: string | undefined, res: Response): Promise<void> {
+    let result: RouteSubmitResult | null;
+    try {
+      result = await reviewQueue.approve(id, editedText);
+    } catch (err) {
+      if (err instanceof AMPRouteError) {
+        res.status(502).json({ error: 'AI Maestro rejected the message', details: err.message });
+        return;
+      }
+      console.error('[REVIEW] Forward failed:', (err as Error).message);
+      res.status(500).json({ error: 'Failed to forward message' });
+      return;
+    }
+
+    if (!result) {
+      res.status(404).json({ error: 'Held message not found' });
+      return;
+    }
+    res.json({ success: true, id, status: result.status });
+  }
+
+  return router;
+}
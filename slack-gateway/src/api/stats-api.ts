@@ -6,7 +6,7 @@
 
 import { Router, Request, Response } from 'express';
 import type { GatewayConfig } from '../types.js';
-import { getEventCount, getTodayStats } from './activity-log.js';
+import { getEventCount, getTodayStats } from '@aimaestro/gateway-core';
 
 const startTime = Date.now();
 
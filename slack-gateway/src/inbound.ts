@@ -2,15 +2,148 @@
  * Slack Gateway - Inbound Message Handlers (AMP Protocol)
  *
  * Registers Slack event handlers (app_mention, DM, channel join) and
- * routes messages to agents via AMP POST /api/v1/route.
+ * routes messages to agents via AMP POST /api/v1/route. While AI Maestro
+ * is unreachable, messages wait in the store-and-forward route queue;
+ * messages the risk policy holds wait in the review queue for an operator.
  */
 
 import type { App } from '@slack/bolt';
-import type { GatewayConfig, AMPRouteRequest } from './types.js';
+import type { GatewayConfig, AMPRouteRequest, AMPRouteResponse } from './types.js';
 import type { AgentResolver } from './agent-resolver.js';
 import type { ThreadStore } from './thread-store.js';
-import { sanitizeSlackMessage, type SecurityConfig } from './content-security.js';
-import { logEvent } from './api/activity-log.js';
+import {
+  resolveTrust,
+  sanitizeSlackMessage,
+  wrapReviewedSlackMessage,
+  type SecurityConfig,
+  type TrustLevel,
+} from './content-security.js';
+import {
+  logEvent,
+  authorizeRoute,
+  reportDeniedRoute,
+  tierPolicy,
+  issueCanary,
+  rememberOperatorNames,
+  detectLanguage,
+  RouteQueue,
+  ReviewQueue,
+  AMPRouteError,
+  rejectedRouteNotice,
+  signRouteRequest,
+  type QueuedRoute,
+  type RouteSubmitResult,
+  type RiskAssessment,
+} from '@aimaestro/gateway-core';
+
+/** Persisted with each route request so replies can be threaded once it is delivered */
+export interface SlackRouteContext {
+  channel: string;
+  thread_ts: string;
+  user: string;
+  userName: string;
+  trust: string;
+  preview: string;
+}
+
+/** Routed (or queued) to Maestro, or stopped by the risk policy */
+type SendOutcome = RouteSubmitResult | { status: 'held' | 'blocked'; risk: RiskAssessment };
+
+export type InboundRouteQueue = RouteQueue<SlackRouteContext>;
+export type InboundReviewQueue = ReviewQueue<SlackRouteContext>;
+
+/**
+ * Create the route queue for inbound messages. Delivered messages (direct
+ * or flushed from the queue) get their thread context stored for replies;
+ * senders of queued messages Maestro rejects are told in the thread.
+ */
+export function createInboundRouteQueue(config: GatewayConfig, app: App, threadStore: ThreadStore): InboundRouteQueue {
+  return new RouteQueue<SlackRouteContext>({
+    maestroUrl: config.amp.maestroUrl,
+    apiKey: config.amp.apiKey,
+    config: config.routeQueue,
+    timeoutMs: config.polling.timeoutMs,
+    sign: (request) => signRouteRequest(request, config.amp.agentAddress, config.signing),
+    onDelivered: (entry, result) => recordDelivery(entry, result, threadStore),
+    onRejected: async (entry, error) => {
+      const { request, context } = entry;
+      logEvent('error', `Queued Slack message not delivered: ${context.userName} -> ${request.to.split('@')[0]}`, {
+        from: context.userName,
+        to: request.to,
+        subject: context.preview,
+        deliveryStatus: 'rejected',
+        error: error.message,
+      });
+      await app.client.chat.postMessage({
+        channel: context.channel,
+        thread_ts: context.thread_ts,
+        text: rejectedRouteNotice(request, error),
+      });
+    },
+  });
+}
+
+/**
+ * Create the review queue for held messages. Approved messages go through
+ * the route queue; rejected senders get a reply in the message's thread.
+ */
+export function createInboundReviewQueue(
+  config: GatewayConfig,
+  app: App,
+  routeQueue: InboundRouteQueue
+): InboundReviewQueue {
+  return new ReviewQueue<SlackRouteContext>({
+    config: config.review,
+    forward: (request, context) => routeQueue.submit(request, context),
+    edit: (request, text, context) => ({
+      ...request,
+      payload: {
+        ...request.payload,
+        message: wrapReviewedSlackMessage(text, context.user, context.userName, context.trust as TrustLevel),
+      },
+    }),
+    notifyRejected: async (entry, reply) => {
+      await app.client.chat.postMessage({
+        channel: entry.context.channel,
+        thread_ts: entry.context.thread_ts,
+        text: reply,
+      });
+    },
+  });
+}
+
+function recordDelivery(
+  entry: QueuedRoute<SlackRouteContext>,
+  result: AMPRouteResponse,
+  threadStore: ThreadStore
+): void {
+  const { request, context } = entry;
+
+  // Store thread context for reply routing
+  if (result.id) {
+    threadStore.set(result.id, {
+      channel: context.channel,
+      thread_ts: context.thread_ts,
+      user: context.user,
+      userName: context.userName,
+      ampMessageId: result.id,
+      createdAt: Date.now(),
+    });
+  }
+
+  const displayName = request.to.split('@')[0];
+  console.log(
+    `[-> ${request.to}] Message from ${context.userName} (trust: ${context.trust}): ${context.preview.substring(0, 50)}...`
+  );
+
+  logEvent('inbound', `Slack message routed: ${context.userName} -> ${displayName}`, {
+    from: context.userName,
+    to: request.to,
+    subject: context.preview,
+    ampMessageId: result.id,
+    deliveryStatus: result.status,
+  });
+}
 
 /**
  * Parse @AIM:agent-name routing from message text.
@@ -42,7 +175,9 @@ function parseAgentRouting(
 }
 
 /**
- * Send a message to an agent via AMP route API.
+ * Send a message to an agent via AMP route API (or queue it while AI
+ * Maestro is unreachable). Messages the risk policy holds go to the review
+ * queue instead; blocked messages are dropped.
  */
 async function sendToAgent(
   config: GatewayConfig,
@@ -53,24 +188,38 @@ async function sendToAgent(
   userName: string,
   slackUserId: string,
   securityConfig: SecurityConfig,
-  threadStore: ThreadStore
-): Promise<void> {
-  const { sanitized, trust, flags } = sanitizeSlackMessage(
+  routeQueue: InboundRouteQueue,
+  reviewQueue: InboundReviewQueue
+): Promise<SendOutcome> {
+  const canary = issueCanary({
+    source: 'slack',
+    sender: userName,
+    to: targetAddress,
+    subject: text.substring(0, 80),
+    messageId: thread_ts,
+  });
+  const { sanitized, trust, flags, risk } = sanitizeSlackMessage(
     text,
     slackUserId,
     userName,
-    securityConfig
+    securityConfig,
+    config.riskPolicy,
+    { canary, conversation: `${channel}:${thread_ts}` }
   );
+  if (trust.level === 'operator') rememberOperatorNames(slackUserId, [userName]);
 
   if (flags.length > 0) {
     console.log(
-      `[SECURITY] ${flags.length} injection pattern(s) flagged from ${userName} (trust: ${trust.level})`
+      `[SECURITY] ${flags.length} injection pattern(s) flagged from ${userName} (trust: ${trust.level}, score: ${risk.score}, action: ${risk.action})`
     );
-    logEvent('security', `Injection patterns flagged from ${userName}`, {
+    logEvent('security', `Injection patterns flagged from ${userName} (${risk.action})`, {
       from: userName,
       to: targetAddress,
       subject: text.substring(0, 80),
       securityFlags: flags.map((f) => `${f.category}: ${f.match}`),
+      riskScore: risk.score,
+      policyAction: risk.action,
+      deliveryStatus: risk.action === 'hold' ? 'held' : risk.action === 'block' ? 'blocked' : undefined,
     });
   }
 
@@ -96,60 +245,53 @@ async function sendToAgent(
           source: 'slack',
           scanned: true,
           injection_flags: flags.map((f) => f.category),
-          wrapped: trust.level !== 'operator',
+          wrapped: tierPolicy(trust.level).wrap,
+          risk_score: risk.score,
+          policy_action: risk.action,
+          language: detectLanguage(text),
           scanned_at: new Date().toISOString(),
         },
       },
     },
   };
 
-  const response = await fetch(`${config.amp.maestroUrl}/api/v1/route`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${config.amp.apiKey}`,
-    },
-    body: JSON.stringify(ampRequest),
-    signal: AbortSignal.timeout(config.polling.timeoutMs),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text().catch(() => '');
-    if (response.status === 404) {
-      throw new Error(`agent_not_found: ${targetAddress}`);
-    }
-    if (response.status === 429) {
-      throw new Error(`rate_limited: ${targetAddress}`);
-    }
-    throw new Error(`AMP route failed (${response.status}): ${errorBody}`);
-  }
-
-  const result = await response.json();
+  const routeContext: SlackRouteContext = {
+    channel,
+    thread_ts,
+    user: slackUserId,
+    userName,
+    trust: trust.level,
+    preview: text.substring(0, 80),
+  };
 
-  // Store thread context for reply routing
-  if (result.id) {
-    threadStore.set(result.id, {
-      channel,
-      thread_ts,
-      user: slackUserId,
-      userName,
-      ampMessageId: result.id,
-      createdAt: Date.now(),
+  if (risk.action === 'hold') {
+    reviewQueue.hold({
+      sender: userName,
+      text,
+      flags: flags.map((f) => `${f.category}: ${f.match}`),
+      risk,
+      request: ampRequest,
+      context: routeContext,
     });
+    return { status: 'held', risk };
+  }
+  if (risk.action === 'block') {
+    return { status: 'blocked', risk };
   }
 
-  const displayName = targetAddress.split('@')[0];
-  console.log(
-    `[-> ${targetAddress}] Message from ${userName} (trust: ${trust.level}): ${text.substring(0, 50)}...`
-  );
-
-  logEvent('inbound', `Slack message routed: ${userName} -> ${displayName}`, {
-    from: userName,
-    to: targetAddress,
-    subject: text.substring(0, 80),
-    ampMessageId: result.id,
-    deliveryStatus: result.status,
-  });
+  try {
+    return await routeQueue.submit(ampRequest, routeContext);
+  } catch (error) {
+    if (error instanceof AMPRouteError) {
+      if (error.status === 404) {
+        throw new Error(`agent_not_found: ${targetAddress}`);
+      }
+      if (error.status === 429) {
+        throw new Error(`rate_limited: ${targetAddress}`);
+      }
+    }
+    throw error;
+  }
 }
 
 /**
@@ -159,7 +301,8 @@ async function routeMessage(
   config: GatewayConfig,
   resolver: AgentResolver,
   securityConfig: SecurityConfig,
-  threadStore: ThreadStore,
+  routeQueue: InboundRouteQueue,
+  reviewQueue: InboundReviewQueue,
   text: string,
   channel: string,
   thread_ts: string,
@@ -170,8 +313,24 @@ async function routeMessage(
   const userName = await resolver.getUserDisplayName(userId);
   const { address } = resolver.lookupAgent(agent);
 
+  // May this sender reach the agent from this channel? (trust tier, channel, tenant)
+  const trust = resolveTrust(userId, securityConfig);
+  const routeRequest = {
+    level: trust.level,
+    address,
+    tenant: config.amp.tenant,
+    defaultAgent: resolver.lookupAgent(config.amp.defaultAgent).address,
+    scopes: [channel],
+  };
+  const decision = authorizeRoute(routeRequest);
+  if (!decision.allowed) {
+    reportDeniedRoute(userName, routeRequest, decision, message.substring(0, 80));
+    await say({ text: config.routeAuthorization.denyReply, thread_ts });
+    return;
+  }
+
   try {
-    await sendToAgent(
+    const outcome = await sendToAgent(
       config,
       address,
       message,
@@ -180,8 +339,24 @@ async function routeMessage(
       userName,
       userId,
       securityConfig,
-      threadStore
+      routeQueue,
+      reviewQueue
     );
+
+    if (outcome.status === 'held' || outcome.status === 'blocked') {
+      await say({
+        text: outcome.status === 'held' ? config.riskPolicy.holdReply : config.riskPolicy.blockReply,
+        thread_ts,
+      });
+      return;
+    }
+
+    if (outcome.status === 'queued') {
+      await say({
+        text: `AI Maestro is temporarily unreachable. Your message to \`${agent}\` is queued and will be delivered as soon as it is back.`,
+        thread_ts,
+      });
+    }
   } catch (error) {
     const errMsg = (error as Error).message;
 
@@ -207,14 +382,16 @@ async function routeMessage(
 }
 
 /**
- * Register all inbound Slack event handlers.
+ * Register all inbound Slack event handlers. The security config is read
+ * per message, so changes made through the config API apply at once.
  */
 export function registerInboundHandlers(
   app: App,
   config: GatewayConfig,
   resolver: AgentResolver,
-  securityConfig: SecurityConfig,
-  threadStore: ThreadStore
+  getSecurityConfig: () => SecurityConfig,
+  routeQueue: InboundRouteQueue,
+  reviewQueue: InboundReviewQueue
 ): void {
   // Handle @mentions in channels
   app.event('app_mention', async ({ event, say }) => {
@@ -234,7 +411,7 @@ export function registerInboundHandlers(
         })
         .catch(() => {});
 
-      await routeMessage(config, resolver, securityConfig, threadStore, text, channel, thread_ts, user, say);
+      await routeMessage(config, resolver, getSecurityConfig(), routeQueue, reviewQueue, text, channel, thread_ts, user, say);
     } catch (error) {
       console.error('Error routing message:', error);
       await say({ text: 'Failed to route message. Please try again.', thread_ts });
@@ -272,7 +449,7 @@ export function registerInboundHandlers(
         })
         .catch(() => {});
 
-      await routeMessage(config, resolver, securityConfig, threadStore, text, channel, thread_ts, user, say);
+      await routeMessage(config, resolver, getSecurityConfig(), routeQueue, reviewQueue, text, channel, thread_ts, user, say);
     } catch (error) {
       console.error('Error routing message:', error);
       await say({ text: 'Failed to route message. Please try again.', thread_ts });
@@ -1,16 +1,27 @@
 /**
- * Slack Gateway - Outbound Response Poller (AMP Protocol)
+ * Slack Gateway - Outbound Response Dispatcher (AMP Protocol)
  *
- * Scans the AMP filesystem inbox for agent responses and posts
+ * Watches the AMP filesystem inbox for agent responses and posts
  * them back to the originating Slack thread.
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
 import type { App } from '@slack/bolt';
-import type { GatewayConfig, AMPMessage, ThreadContext } from './types.js';
+import type { GatewayConfig, AMPMessage, AMPRouteRequest, ThreadContext } from './types.js';
 import type { ThreadStore } from './thread-store.js';
-import { logEvent } from './api/activity-log.js';
+import {
+  logEvent,
+  timeAmpRoute,
+  signRouteRequest,
+  startInboxWatcher,
+  createOutboundDelivery,
+  screenOutbound,
+  reportWrapperLeaks,
+  SignatureVerifier,
+  type DeadLetterStore,
+  type DeliveryAttempt,
+  type DeliveryOutcome,
+} from '@aimaestro/gateway-core';
 
 /**
  * Extract Slack routing context from an AMP message.
@@ -47,147 +58,146 @@ function extractSlackContext(
 }
 
 /**
- * Start the outbound filesystem poller.
- * Returns a cleanup function to stop polling.
+ * Send a notification back to the agent that sent a response via AMP route.
+ */
+async function sendConfirmation(
+  config: GatewayConfig,
+  toAddress: string,
+  subject: string,
+  message: string
+): Promise<void> {
+  const ampRequest: AMPRouteRequest = {
+    to: toAddress,
+    subject,
+    priority: 'low',
+    payload: {
+      type: 'notification',
+      message,
+    },
+  };
+
+  try {
+    await timeAmpRoute(() =>
+      fetch(`${config.amp.maestroUrl}/api/v1/route`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.amp.apiKey}`,
+        },
+        body: JSON.stringify(signRouteRequest(ampRequest, config.amp.agentAddress, config.signing)),
+        signal: AbortSignal.timeout(10000),
+      })
+    );
+  } catch (err) {
+    console.error('[OUTBOUND] Failed to send confirmation:', (err as Error).message);
+  }
+}
+
+/**
+ * Start the outbound inbox watcher.
+ * Failed sends are retried with backoff, then moved to the dead-letter store.
+ * Returns a cleanup function to stop watching.
  */
 export function startOutboundPoller(
   config: GatewayConfig,
   slackApp: App,
-  threadStore: ThreadStore
+  threadStore: ThreadStore,
+  deadLetters: DeadLetterStore
 ): () => void {
-  let isPolling = false;
-  let pollTimeoutId: NodeJS.Timeout | null = null;
-
   function debug(message: string, ...args: unknown[]): void {
     if (config.debug) {
       console.log(`[DEBUG] ${message}`, ...args);
     }
   }
 
-  async function processMessageFile(filePath: string): Promise<boolean> {
-    try {
-      const raw = fs.readFileSync(filePath, 'utf-8');
-      const msg = JSON.parse(raw) as AMPMessage;
-
-      const slackContext = extractSlackContext(msg, threadStore);
-      if (!slackContext) {
-        console.log(`[OUTBOUND] No Slack context in ${path.basename(filePath)}, skipping`);
-        return false;
-      }
-
-      const displayName = msg.envelope?.from?.split('@')[0] || 'Agent';
-      const responseText = msg.payload?.message || '';
-      const formattedResponse = `*[${displayName}]* ${
-        typeof responseText === 'string' ? responseText : JSON.stringify(responseText)
-      }`;
-
-      await slackApp.client.chat.postMessage({
-        channel: slackContext.channel,
-        thread_ts: slackContext.thread_ts,
-        text: formattedResponse,
-      });
-
-      console.log(
-        `[-> Slack] Response from ${displayName} sent to ${slackContext.channel}/${slackContext.thread_ts}`
-      );
+  async function deliverMessage(msg: AMPMessage, filePath: string, attempt: DeliveryAttempt): Promise<DeliveryOutcome> {
+    const slackContext = extractSlackContext(msg, threadStore);
+    if (!slackContext) {
+      console.log(`[OUTBOUND] No Slack context in ${path.basename(filePath)}`);
+      return { status: 'failed', error: 'No Slack context in message', permanent: true };
+    }
 
-      logEvent('outbound', `Agent response posted to Slack: ${displayName}`, {
-        from: displayName,
-        subject: msg.envelope?.subject || '',
-        ampMessageId: msg.envelope?.id,
-        deliveryStatus: 'delivered',
-      });
+    const displayName = msg.envelope?.from?.split('@')[0] || 'Agent';
+    const responseText = msg.payload?.message || '';
+    let message = typeof responseText === 'string' ? responseText : JSON.stringify(responseText);
 
-      // Add checkmark reaction
-      await slackApp.client.reactions
-        .add({
-          channel: slackContext.channel,
-          timestamp: slackContext.thread_ts,
-          name: 'white_check_mark',
-        })
-        .catch(() => {});
-
-      // Delete processed message file
-      fs.unlinkSync(filePath);
-      debug(`Deleted processed message: ${filePath}`);
-
-      return true;
-    } catch (error) {
-      console.error(`[OUTBOUND] Failed to process ${filePath}:`, error);
-      logEvent('error', `Failed to process outbound message`, {
-        error: (error as Error).message,
+    if (!attempt.released) {
+      // Checked once per response, like the DLP screen: not again on a retry
+      if (!attempt.screened) {
+        reportWrapperLeaks(message, { from: displayName, to: slackContext.channel, ampMessageId: msg.envelope?.id });
+      }
+      const screened = await screenOutbound({
+        config: config.dlp,
+        fields: { message },
+        details: {
+          from: displayName,
+          to: slackContext.channel,
+          subject: msg.envelope?.subject || '',
+          ampMessageId: msg.envelope?.id,
+        },
+        notify: (subject, text) => sendConfirmation(config, msg.envelope?.from || path.basename(path.dirname(filePath)), subject, text),
+        attempt,
       });
-      return false;
+      if (screened.status !== 'send') return screened;
+      message = screened.fields.message;
     }
-  }
 
-  async function scanInbox(): Promise<boolean> {
-    if (isPolling) return false;
-    isPolling = true;
-    let foundMessages = false;
+    const formattedResponse = `*[${displayName}]* ${message}`;
 
-    try {
-      const inboxDir = config.amp.inboxDir;
+    await slackApp.client.chat.postMessage({
+      channel: slackContext.channel,
+      thread_ts: slackContext.thread_ts,
+      text: formattedResponse,
+    });
 
-      if (!fs.existsSync(inboxDir)) {
-        debug(`Inbox directory does not exist: ${inboxDir}`);
-        return false;
-      }
+    console.log(
+      `[-> Slack] Response from ${displayName} sent to ${slackContext.channel}/${slackContext.thread_ts}`
+    );
 
-      const entries = fs.readdirSync(inboxDir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        if (!entry.isDirectory()) continue;
-
-        const senderDir = path.join(inboxDir, entry.name);
-        let files: string[];
-
-        try {
-          files = fs.readdirSync(senderDir).filter((f) => f.endsWith('.json'));
-        } catch {
-          continue;
-        }
-
-        for (const file of files) {
-          const filePath = path.join(senderDir, file);
-          const processed = await processMessageFile(filePath);
-          if (processed) foundMessages = true;
-        }
-
-        // Clean up empty sender directories
-        try {
-          const remaining = fs.readdirSync(senderDir);
-          if (remaining.length === 0) {
-            fs.rmdirSync(senderDir);
-            debug(`Cleaned empty sender dir: ${entry.name}`);
-          }
-        } catch {
-          // Ignore cleanup errors
-        }
-      }
-    } catch (error) {
-      debug('Inbox scan error:', error);
-    } finally {
-      isPolling = false;
-    }
+    logEvent('outbound', `Agent response posted to Slack: ${displayName}`, {
+      from: displayName,
+      subject: msg.envelope?.subject || '',
+      ampMessageId: msg.envelope?.id,
+      deliveryStatus: 'delivered',
+    });
 
-    return foundMessages;
-  }
+    // Add checkmark reaction
+    await slackApp.client.reactions
+      .add({
+        channel: slackContext.channel,
+        timestamp: slackContext.thread_ts,
+        name: 'white_check_mark',
+      })
+      .catch(() => {});
 
-  const poll = async () => {
-    await scanInbox();
-    pollTimeoutId = setTimeout(poll, config.polling.intervalMs);
-  };
+    debug(`Delivered message: ${filePath}`);
+    return { status: 'delivered' };
+  }
 
-  poll();
-  console.log(`[OUTBOUND] Filesystem polling started at ${config.polling.intervalMs}ms`);
+  const delivery = createOutboundDelivery({
+    config: config.delivery,
+    deadLetters,
+    verifier: new SignatureVerifier({
+      maestroUrl: config.amp.maestroUrl,
+      apiKey: config.amp.apiKey,
+      config: config.verification,
+    }),
+    deliver: deliverMessage,
+  });
+
+  const stopWatcher = startInboxWatcher({
+    inboxDir: config.amp.inboxDir,
+    rescanIntervalMs: config.polling.intervalMs,
+    debug,
+    onMessage: delivery.handleFile,
+  });
+  console.log(`[OUTBOUND] Watching inbox (rescan every ${config.polling.intervalMs}ms)`);
   console.log(`[OUTBOUND] Inbox: ${config.amp.inboxDir}`);
+  console.log(`[OUTBOUND] Dead letters: ${config.delivery.deadLetterDir}`);
 
   return () => {
-    if (pollTimeoutId) {
-      clearTimeout(pollTimeoutId);
-      pollTimeoutId = null;
-    }
-    console.log('[OUTBOUND] Poller stopped');
+    stopWatcher();
+    delivery.stop();
+    console.log('[OUTBOUND] Inbox watcher stopped');
   };
 }
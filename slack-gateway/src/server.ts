@@ -10,7 +10,7 @@
  * - AMP auto-registration on first boot
  * - Filesystem-based inbox polling (no HTTP overhead)
  * - Content security (34 injection pattern detection)
- * - Activity logging (ring buffer, 500 events)
+ * - Activity logging (persistent JSONL with retention)
  * - Health endpoint and management APIs
  * - Thread context persistence across restarts
  * - Graceful shutdown
@@ -20,15 +20,35 @@ import * as path from 'path';
 import { timingSafeEqual } from 'crypto';
 import express, { Request, Response, NextFunction } from 'express';
 import { App } from '@slack/bolt';
+import {
+  DeadLetterStore,
+  configureActivityLog,
+  configureMetrics,
+  configureScanner,
+  configureCanaries,
+  configureConversationWindow,
+  configureTrustTiers,
+  configureRouteAuthorization,
+  checkSigningKey,
+  registerGauge,
+  renderMetrics,
+  countInboxFiles,
+  getInjectionRules,
+  watchInjectionRules,
+  METRICS_CONTENT_TYPE,
+} from '@aimaestro/gateway-core';
 import { loadConfig } from './config.js';
-import { loadSecurityConfig, type SecurityConfig } from './content-security.js';
+import { loadSecurityConfig, loadOperatorNames, loadGroupTiers, type SecurityConfig } from './content-security.js';
 import { createAgentResolver } from './agent-resolver.js';
 import { ThreadStore } from './thread-store.js';
-import { registerInboundHandlers } from './inbound.js';
+import { registerInboundHandlers, createInboundRouteQueue, createInboundReviewQueue } from './inbound.js';
 import { startOutboundPoller } from './outbound.js';
 import { createConfigRouter } from './api/config-api.js';
 import { createActivityRouter } from './api/activity-api.js';
 import { createStatsRouter } from './api/stats-api.js';
+import { createDeadLetterRouter } from './api/dead-letter-api.js';
+import { createSecurityRulesRouter } from './api/security-rules-api.js';
+import { createReviewRouter } from './api/review-api.js';
 import type { GatewayConfig } from './types.js';
 
 /**
@@ -62,6 +82,25 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Persist activity events (JSONL by default) before anything else logs
+  configureActivityLog(config.activity);
+  configureMetrics({ gateway: 'slack-gateway' });
+  configureScanner(config.scanner);
+  configureCanaries(config.canary);
+  configureConversationWindow(config.conversation);
+  configureTrustTiers(config.trustTiers);
+  configureRouteAuthorization(config.routeAuthorization);
+
+  // Injection rules: the rules file if present (reloaded on change), else built-in
+  let stopRulesWatcher: () => void;
+  try {
+    stopRulesWatcher = watchInjectionRules(config.injectionRules);
+  } catch (err) {
+    console.error('[FATAL] Failed to load injection rules:', (err as Error).message);
+    process.exit(1);
+  }
+  const ruleSet = getInjectionRules();
+
   console.log('========================================');
   console.log('AI Maestro - Slack Gateway (AMP)');
   console.log('========================================');
@@ -72,8 +111,14 @@ async function main(): Promise<void> {
   console.log(`Maestro: ${config.amp.maestroUrl}`);
   console.log(`Inbox: ${config.amp.inboxDir}`);
   console.log(`Poll interval: ${config.polling.intervalMs}ms`);
-  console.log(`Security: ${securityConfig.operatorSlackIds.length} operator Slack ID(s) whitelisted`);
+  console.log(`Route queue: ${config.routeQueue.dir}`);
+  console.log(`Review queue: ${config.review.dir}`);
+  console.log(`Signing: ${checkSigningKey(config.signing) ? config.signing.privateKeyPath : config.signing.enabled ? 'key unavailable, unsigned' : 'off'}`);
+  console.log(`Security: ${securityConfig.operatorSlackIds.length} operator Slack ID(s) whitelisted, ${securityConfig.teamGroupIds?.length ?? 0} team / ${securityConfig.partnerGroupIds?.length ?? 0} partner group(s)`);
+  console.log(`Injection rules: ${ruleSet.rules.length} (${ruleSet.source === 'file' ? ruleSet.file : 'built-in'})`);
+  console.log(`Language packs: ${ruleSet.languages.length > 0 ? ruleSet.languages.join(', ') : 'none'}`);
   console.log(`Debug: ${config.debug}`);
+  console.log(`Activity log: ${config.activity.store === 'jsonl' ? config.activity.dir : 'memory'}`);
 
   // Create Slack Bolt app (Socket Mode)
   const slackApp = new App({
@@ -96,15 +141,45 @@ async function main(): Promise<void> {
   threadStore.load(threadStorePath);
   threadStore.startCleanup(60000);
 
+  // Queue inbound messages locally while AI Maestro is unreachable
+  const routeQueue = createInboundRouteQueue(config, slackApp, threadStore);
+
+  // Hold messages the risk policy flags for operator review
+  const reviewQueue = createInboundReviewQueue(config, slackApp, routeQueue);
+
   // Register Slack event handlers
-  registerInboundHandlers(slackApp, config, resolver, securityConfig, threadStore);
+  registerInboundHandlers(slackApp, config, resolver, () => securityConfig, routeQueue, reviewQueue);
 
   // Start the Slack app (Socket Mode connection)
   await slackApp.start();
   console.log('Connected to Slack (Socket Mode)');
 
+  // Operator names, so look-alike display names can be flagged
+  await loadOperatorNames(resolver.getUserDisplayName, securityConfig);
+
+  // Team and partner tiers come from user groups; membership is refreshed with the user cache
+  await loadGroupTiers(resolver.listGroupMembers, securityConfig);
+  const groupRefresh = setInterval(() => {
+    loadGroupTiers(resolver.listGroupMembers, securityConfig).catch(() => {});
+  }, config.cache.slackUserTtlMs);
+
   // Start polling AMP inbox for agent responses
-  const stopPoller = startOutboundPoller(config, slackApp, threadStore);
+  const deadLetters = new DeadLetterStore(config.delivery.deadLetterDir, config.amp.inboxDir);
+  const stopPoller = startOutboundPoller(config, slackApp, threadStore, deadLetters);
+
+  registerGauge('gateway_thread_store_size', 'Slack thread contexts kept for routing agent replies', () =>
+    threadStore.size()
+  );
+  registerGauge('gateway_inbox_backlog', 'Outbound message files waiting in the AMP inbox', () =>
+    countInboxFiles(config.amp.inboxDir)
+  );
+  registerGauge('gateway_route_queue_size', 'Inbound messages queued while AI Maestro is unreachable', () =>
+    routeQueue.size()
+  );
+  registerGauge('gateway_review_queue_size', 'Inbound messages held for operator review', () => reviewQueue.size());
+  registerGauge('gateway_maestro_circuit_open', 'Whether routing to AI Maestro is paused (1) or not (0)', () =>
+    routeQueue.circuitState() === 'open' ? 1 : 0
+  );
 
   // Express server for health checks and management APIs
   const httpApp = express();
@@ -121,12 +196,19 @@ async function main(): Promise<void> {
         agent: config.amp.agentAddress,
         maestro: config.amp.maestroUrl,
         tenant: config.amp.tenant,
+        circuit: routeQueue.circuitState(),
+        queued: routeQueue.size(),
       },
       threads: threadStore.size(),
       timestamp: new Date().toISOString(),
     });
   });
 
+  // Prometheus scrape endpoint (unauthenticated like /health; the server binds to localhost)
+  httpApp.get('/metrics', (_req, res) => {
+    res.set('Content-Type', METRICS_CONTENT_TYPE).send(renderMetrics());
+  });
+
   // Auth middleware for management APIs
   httpApp.use('/api', authMiddleware(config.adminToken));
 
@@ -138,12 +220,17 @@ async function main(): Promise<void> {
       () => securityConfig,
       (newConfig) => {
         securityConfig = newConfig;
+        loadOperatorNames(resolver.getUserDisplayName, newConfig).catch(() => {});
+        loadGroupTiers(resolver.listGroupMembers, newConfig).catch(() => {});
       },
       config.adminToken
     )
   );
 
   httpApp.use('/api/activity', createActivityRouter());
+  httpApp.use('/api/dead-letters', createDeadLetterRouter(deadLetters, config.adminToken));
+  httpApp.use('/api/security', createSecurityRulesRouter(config.injectionRules, config.adminToken));
+  httpApp.use('/api/review', createReviewRouter(reviewQueue, config.adminToken));
 
   httpApp.use('/api/stats', createStatsRouter(() => config));
 
@@ -154,9 +241,13 @@ async function main(): Promise<void> {
   console.log('');
   console.log('Endpoints:');
   console.log('  GET  /health        - Health check');
+  console.log('  GET  /metrics       - Prometheus metrics');
   console.log('  GET  /api/config    - Gateway config');
   console.log('  GET  /api/stats     - Gateway metrics');
   console.log('  GET  /api/activity  - Activity log');
+  console.log('  GET  /api/dead-letters - Undelivered outbound messages');
+  console.log('  GET  /api/security/rules - Injection rules (PUT to replace)');
+  console.log('  GET  /api/review    - Messages held for review');
   console.log('========================================');
   console.log('');
   console.log('Gateway ready! (AMP Protocol)');
@@ -175,6 +266,9 @@ async function main(): Promise<void> {
     console.log(`\n[SHUTDOWN] Received ${signal}, shutting down...`);
 
     stopPoller();
+    stopRulesWatcher();
+    clearInterval(groupRefresh);
+    routeQueue.stop();
     threadStore.stopCleanup();
     threadStore.save(threadStorePath);
     console.log('[SHUTDOWN] Thread store saved');
@@ -2,6 +2,23 @@
  * Slack Gateway - Type Definitions (AMP Protocol)
  */
 
+import type {
+  DeliveryConfig,
+  ActivityLogConfig,
+  RouteQueueConfig,
+  SigningConfig,
+  VerificationConfig,
+  InjectionRulesConfig,
+  ScannerConfig,
+  CanaryConfig,
+  ConversationWindowConfig,
+  RiskPolicyConfig,
+  TrustTierConfig,
+  RouteAuthorizationConfig,
+  ReviewQueueConfig,
+  DlpConfig,
+} from '@aimaestro/gateway-core';
+
 // ---------------------------------------------------------------------------
 // Gateway Configuration
 // ---------------------------------------------------------------------------
@@ -29,6 +46,20 @@ export interface GatewayConfig {
     intervalMs: number;
     timeoutMs: number;
   };
+  delivery: DeliveryConfig;
+  routeQueue: RouteQueueConfig;
+  signing: SigningConfig;
+  verification: VerificationConfig;
+  injectionRules: InjectionRulesConfig;
+  scanner: ScannerConfig;
+  canary: CanaryConfig;
+  conversation: ConversationWindowConfig;
+  riskPolicy: RiskPolicyConfig;
+  trustTiers: TrustTierConfig;
+  routeAuthorization: RouteAuthorizationConfig;
+  review: ReviewQueueConfig;
+  dlp: DlpConfig;
+  activity: ActivityLogConfig;
   debug: boolean;
   adminToken: string;
 }
@@ -37,61 +68,14 @@ export interface GatewayConfig {
 // AMP Protocol Types
 // ---------------------------------------------------------------------------
 
-export interface AMPEnvelope {
-  version: string;
-  id: string;
-  from: string;
-  to: string;
-  subject: string;
-  priority: 'urgent' | 'high' | 'normal' | 'low';
-  timestamp: string;
-  signature: string | null;
-  in_reply_to?: string | null;
-  thread_id?: string;
-  expires_at?: string | null;
-}
-
-export interface AMPPayload {
-  type: string;
-  message: string;
-  context?: Record<string, unknown> | null;
-}
-
-export interface AMPMessage {
-  envelope: AMPEnvelope;
-  payload: AMPPayload;
-  metadata?: {
-    status?: string;
-    queued_at?: string;
-    delivery_attempts?: number;
-  };
-  local?: {
-    received_at?: string;
-    delivery_method?: string;
-    status?: string;
-  };
-}
-
-export interface AMPRouteRequest {
-  to: string;
-  subject: string;
-  priority?: 'urgent' | 'high' | 'normal' | 'low';
-  in_reply_to?: string | null;
-  payload: {
-    type: string;
-    message: string;
-    context?: Record<string, unknown>;
-  };
-}
-
-export interface AMPRouteResponse {
-  id: string;
-  status: 'delivered' | 'queued' | 'failed';
-  method?: string;
-  delivered_at?: string;
-  error?: string;
-  message?: string;
-}
+export type {
+  AMPPriority,
+  AMPEnvelope,
+  AMPPayload,
+  AMPMessage,
+  AMPRouteRequest,
+  AMPRouteResponse,
+} from '@aimaestro/gateway-core';
 
 // ---------------------------------------------------------------------------
 // Thread Context (maps AMP message IDs to Slack threads)
@@ -4,30 +4,53 @@
  * Endpoints for retrieving gateway activity events and stats.
  */
 
-import { Router } from 'express';
-import { getEvents, getTodayStats } from './activity-log.js';
-import type { ActivityEvent } from './activity-log.js';
+import { Router, Request, Response } from 'express';
+import { queryEvents, getTodayStats, type ActivityEvent } from '@aimaestro/gateway-core';
+
+/**
+ * Parse an optional ISO timestamp query param. Returns null when invalid.
+ */
+function parseTime(value: unknown): string | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  const ms = Date.parse(String(value));
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
 
 export function createActivityRouter(): Router {
   const router = Router();
 
   /**
-   * GET /api/activity — Recent events
-   * Query params: limit, type, search
+   * GET /api/activity — Events, newest first
+   * Query params: limit, type, search, since, until, cursor,
+   *              ampMessageId, tenant, securityCategory
    */
-  router.get('/', (req, res) => {
+  router.get('/', (req: Request, res: Response) => {
+    const since = parseTime(req.query.since);
+    const until = parseTime(req.query.until);
+    if (since === null || until === null) {
+      return res.status(400).json({ error: 'since/until must be ISO timestamps' });
+    }
+
     const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 500);
-    const type = req.query.type as ActivityEvent['type'] | undefined;
-    const search = req.query.search as string | undefined;
+    const page = queryEvents({
+      limit,
+      since,
+      until,
+      type: req.query.type as ActivityEvent['type'] | undefined,
+      search: req.query.search as string | undefined,
+      cursor: req.query.cursor as string | undefined,
+      ampMessageId: req.query.ampMessageId as string | undefined,
+      tenant: req.query.tenant as string | undefined,
+      securityCategory: req.query.securityCategory as string | undefined,
+    });
 
-    const events = getEvents({ limit, type, search });
-    res.json({ events, count: events.length });
+    res.json({ events: page.events, count: page.events.length, nextCursor: page.nextCursor });
   });
 
   /**
    * GET /api/activity/stats — Today's aggregate stats
    */
-  router.get('/stats', (_req, res) => {
+  router.get('/stats', (req: Request, res: Response) => {
     res.json(getTodayStats());
   });
 
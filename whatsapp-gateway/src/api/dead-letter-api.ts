@@ -0,0 +1,74 @@
+/**
+ * Dead-Letter API
+ *
+ * Endpoints for inspecting, retrying and discarding outbound messages
+ * that could not be delivered. Responses held by outbound DLP are stored
+ * here too; retrying one releases it, which needs ADMIN_TOKEN.
+ */
+
+import { Router, Request, Response } from 'express';
+import { logEvent, type DeadLetterStore } from '@aimaestro/gateway-core';
+
+export function createDeadLetterRouter(deadLetters: DeadLetterStore, adminToken?: string): Router {
+  const router = Router();
+
+  /**
+   * GET /api/dead-letters — All dead letters, newest first
+   */
+  router.get('/', (req: Request, res: Response) => {
+    const records = deadLetters.list();
+    res.json({ deadLetters: records, count: records.length });
+  });
+
+  /**
+   * GET /api/dead-letters/:id — Full record including the original message
+   */
+  router.get('/:id', (req: Request<{ id: string }>, res: Response) => {
+    const record = deadLetters.get(req.params.id);
+    if (!record) {
+      return res.status(404).json({ error: 'Dead letter not found' });
+    }
+    res.json(record);
+  });
+
+  /**
+   * POST /api/dead-letters/:id/retry — Move the message back into the inbox
+   * (a held response is then sent without another DLP scan)
+   */
+  router.post('/:id/retry', (req: Request<{ id: string }>, res: Response) => {
+    const record = deadLetters.get(req.params.id);
+    if (record?.held && !adminToken) {
+      return res.status(403).json({ error: 'ADMIN_TOKEN required to release a held response' });
+    }
+
+    try {
+      if (!deadLetters.retry(req.params.id)) {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+    } catch (err) {
+      console.error('[DEAD-LETTER] Retry failed:', (err as Error).message);
+      return res.status(500).json({ error: 'Failed to requeue message' });
+    }
+
+    if (record?.held) {
+      logEvent('security', `Held response released: ${req.params.id}`, { deliveryStatus: 'released' });
+    } else {
+      logEvent('outbound', `Dead letter requeued: ${req.params.id}`, { deliveryStatus: 'requeued' });
+    }
+    res.json({ success: true, id: req.params.id });
+  });
+
+  /**
+   * DELETE /api/dead-letters/:id — Discard the message
+   */
+  router.delete('/:id', (req: Request<{ id: string }>, res: Response) => {
+    if (!deadLetters.discard(req.params.id)) {
+      return res.status(404).json({ error: 'Dead letter not found' });
+    }
+
+    logEvent('outbound', `Dead letter discarded: ${req.params.id}`, { deliveryStatus: 'discarded' });
+    res.json({ success: true, id: req.params.id });
+  });
+
+  return router;
+}
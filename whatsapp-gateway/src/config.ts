@@ -13,7 +13,17 @@ import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 import { parse as parseYaml } from 'yaml';
-import { bootstrapAMP } from './amp-bootstrap.js';
+import {
+  bootstrapAMP,
+  parseSignaturePolicy,
+  parseSeverityWeights,
+  parseTrustTiers,
+  parseScanLanguages,
+  parseDlpAction,
+  parseDlpPatterns,
+  DEFAULT_RISK_POLICY,
+  DEFAULT_REVIEW_REJECT_REPLY,
+} from '@aimaestro/gateway-core';
 import type { GatewayConfig, RouteTarget } from './types.js';
 
 const __filename_local = fileURLToPath(import.meta.url);
@@ -118,11 +128,14 @@ export async function loadConfig(): Promise<GatewayConfig> {
     ? { agent: routingData.default.agent }
     : { agent: 'default-agent' };
 
-  // Parse operator phones
-  const operatorPhones = (process.env.OPERATOR_PHONES || '')
+  // Parse operator phones and the tier contact lists
+  const parsePhones = (value: string | undefined) => (value || '')
     .split(',')
     .map(p => p.trim())
     .filter(Boolean);
+  const operatorPhones = parsePhones(process.env.OPERATOR_PHONES);
+  const teamPhones = parsePhones(process.env.TEAM_PHONES);
+  const partnerPhones = parsePhones(process.env.PARTNER_PHONES);
 
   // Parse allow list from env
   const allowFrom = (process.env.ALLOW_FROM || '')
@@ -131,6 +144,7 @@ export async function loadConfig(): Promise<GatewayConfig> {
     .filter(Boolean);
 
   const defaultAgent = process.env.AMP_DEFAULT_AGENT || `pas-lola@${ampTenant}.aimaestro.local`;
+  const stateDir = process.env.STATE_DIR || resolve(process.env.HOME || '/tmp', '.whatsapp-gateway');
 
   const config: GatewayConfig = {
     port: parseInt(process.env.PORT || '3021', 10),
@@ -144,20 +158,84 @@ export async function loadConfig(): Promise<GatewayConfig> {
       inboxDir: ampInboxDir,
     },
     whatsapp: {
-      stateDir: process.env.STATE_DIR || resolve(process.env.HOME || '/tmp', '.whatsapp-gateway'),
+      stateDir,
       allowFrom,
       dmPolicy: (process.env.DM_POLICY as any) || 'allowlist',
       sendReadReceipts: process.env.SEND_READ_RECEIPTS !== 'false',
       textChunkLimit: parseInt(process.env.TEXT_CHUNK_LIMIT || '4000', 10),
+      chunkMarkers: process.env.CHUNK_MARKERS === 'true',
     },
     routing: {
       phones,
       default: defaultRoute,
     },
     outbound: {
-      pollIntervalMs: parseInt(process.env.OUTBOUND_POLL_INTERVAL_MS || '5000', 10),
+      pollIntervalMs: parseInt(process.env.OUTBOUND_POLL_INTERVAL_MS || '30000', 10),
+    },
+    delivery: {
+      maxAttempts: parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || '5', 10),
+      retryBaseMs: parseInt(process.env.OUTBOUND_RETRY_BASE_MS || '5000', 10),
+      retryMaxMs: parseInt(process.env.OUTBOUND_RETRY_MAX_MS || '300000', 10),
+      deadLetterDir: process.env.DEAD_LETTER_DIR || resolve(dirname(ampInboxDir), 'dead-letter'),
+    },
+    signing: {
+      enabled: process.env.AMP_SIGNING !== 'false',
+      privateKeyPath: process.env.AMP_PRIVATE_KEY_PATH || resolve(dirname(dirname(ampInboxDir)), 'keys', 'private.pem'),
+    },
+    verification: {
+      policy: parseSignaturePolicy(process.env.INBOX_SIGNATURE_POLICY),
+      unsignedAllowlist: (process.env.INBOX_UNSIGNED_ALLOWLIST || '').split(',').map((s) => s.trim()).filter(Boolean),
+      keyCacheTtlMs: parseInt(process.env.AGENT_KEY_CACHE_TTL_MS || '3600000', 10),
+    },
+    routeQueue: {
+      dir: process.env.ROUTE_QUEUE_DIR || resolve(dirname(ampInboxDir), 'route-queue'),
+      retryBaseMs: parseInt(process.env.ROUTE_RETRY_BASE_MS || '2000', 10),
+      retryMaxMs: parseInt(process.env.ROUTE_RETRY_MAX_MS || '60000', 10),
+      failureThreshold: parseInt(process.env.ROUTE_FAILURE_THRESHOLD || '3', 10),
+    },
+    injectionRules: {
+      file: process.env.INJECTION_RULES_FILE || resolve(stateDir, 'injection-rules.yaml'),
+    },
+    scanner: {
+      decodeDepth: parseInt(process.env.SCAN_DECODE_DEPTH || '3', 10),
+      languages: parseScanLanguages(process.env.SCAN_LANGUAGES),
+    },
+    canary: {
+      enabled: process.env.CANARY_TOKENS === 'true',
+      ttlMs: parseInt(process.env.CANARY_TTL_MS || '604800000', 10),
+    },
+    conversation: {
+      messages: parseInt(process.env.CONVERSATION_WINDOW_MESSAGES || '5', 10),
+      windowMs: parseInt(process.env.CONVERSATION_WINDOW_MS || '600000', 10),
+    },
+    riskPolicy: {
+      weights: parseSeverityWeights(process.env.RISK_SEVERITY_WEIGHTS),
+      warnScore: parseInt(process.env.RISK_WARN_SCORE || '1', 10),
+      holdScore: parseInt(process.env.RISK_HOLD_SCORE || '0', 10),
+      blockScore: parseInt(process.env.RISK_BLOCK_SCORE || '0', 10),
+      holdReply: process.env.RISK_HOLD_REPLY || DEFAULT_RISK_POLICY.holdReply,
+      blockReply: process.env.RISK_BLOCK_REPLY || DEFAULT_RISK_POLICY.blockReply,
+    },
+    trustTiers: parseTrustTiers(process.env.TRUST_TIER_POLICY),
+    review: {
+      dir: process.env.REVIEW_QUEUE_DIR || resolve(dirname(ampInboxDir), 'review-queue'),
+      rejectReply: process.env.REVIEW_REJECT_REPLY || DEFAULT_REVIEW_REJECT_REPLY,
+    },
+    dlp: {
+      action: parseDlpAction(process.env.DLP_ACTION),
+      internalDomains: (process.env.DLP_INTERNAL_DOMAINS || '').split(',').map((s) => s.trim()).filter(Boolean),
+      patterns: parseDlpPatterns(process.env.DLP_PATTERNS),
+      knownSecrets: [ampApiKey, process.env.ADMIN_TOKEN || ''].filter(Boolean),
+    },
+    activity: {
+      store: process.env.ACTIVITY_STORE === 'memory' ? 'memory' : 'jsonl',
+      dir: process.env.ACTIVITY_LOG_DIR || resolve(stateDir, 'activity'),
+      retentionDays: parseInt(process.env.ACTIVITY_RETENTION_DAYS || '30', 10),
+      maxBytes: parseInt(process.env.ACTIVITY_MAX_BYTES || '52428800', 10),
     },
     operatorPhones,
+    teamPhones,
+    partnerPhones,
     adminToken: process.env.ADMIN_TOKEN || '',
   };
 
@@ -3,7 +3,9 @@
  *
  * Processes incoming WhatsApp messages from Baileys and routes them
  * to AI Maestro agents via AMP protocol. Handles DM policy, content
- * security, and read receipts.
+ * security, and read receipts. While AI Maestro is unreachable, messages
+ * wait in the store-and-forward route queue; messages the risk policy holds
+ * wait in the review queue for an operator.
  */
 
 import type { proto } from '@whiskeysockets/baileys';
@@ -11,8 +13,90 @@ import type { GatewayConfig, WhatsAppInboundMessage, AMPRouteRequest, AMPRouteRe
 import { jidToPhone, isGroupJid } from './normalize.js';
 import { resolveRoute } from './router.js';
 import { getSocket, getSelfJid } from './session.js';
-import { sanitizeWhatsAppMessage, createSecurityConfig } from './content-security.js';
-import { logEvent } from './api/activity-log.js';
+import { sanitizeWhatsAppMessage, wrapReviewedWhatsAppMessage, createSecurityConfig } from './content-security.js';
+import {
+  logEvent,
+  issueCanary,
+  rememberOperatorNames,
+  detectLanguage,
+  RouteQueue,
+  ReviewQueue,
+  rejectedRouteNotice,
+  signRouteRequest,
+  type QueuedRoute,
+  type RouteSubmitResult,
+  type RiskAssessment,
+} from '@aimaestro/gateway-core';
+
+/**
+ * Persisted with each route request: the sender for the activity log once
+ * it is delivered, and the chat to answer if review or Maestro rejects it
+ */
+export interface WhatsAppRouteContext {
+  from: string;
+  displayName: string;
+  matchType: string;
+  preview: string;
+  chatJid: string;
+}
+
+export type InboundRouteQueue = RouteQueue<WhatsAppRouteContext>;
+export type InboundReviewQueue = ReviewQueue<WhatsAppRouteContext>;
+
+/**
+ * Create the route queue for inbound messages. Senders of queued messages
+ * Maestro rejects get a message in the original chat.
+ */
+export function createInboundRouteQueue(config: GatewayConfig): InboundRouteQueue {
+  return new RouteQueue<WhatsAppRouteContext>({
+    maestroUrl: config.amp.maestroUrl,
+    apiKey: config.amp.apiKey,
+    config: config.routeQueue,
+    sign: (request) => signRouteRequest(request, config.amp.agentAddress, config.signing),
+    onDelivered: recordDelivery,
+    onRejected: async (entry, error) => {
+      const { request, context } = entry;
+      logEvent('error', `Queued WhatsApp message not delivered: ${context.from} -> ${context.displayName}`, {
+        from: context.from,
+        to: request.to,
+        subject: context.preview,
+        deliveryStatus: 'rejected',
+        error: error.message,
+      });
+      // Entries queued before the chat was recorded cannot be answered
+      if (context.chatJid) await sendNotice(context.chatJid, rejectedRouteNotice(request, error));
+    },
+  });
+}
+
+/**
+ * Create the review queue for held messages. Approved messages go through
+ * the route queue; rejected senders get a message in the original chat.
+ */
+export function createInboundReviewQueue(config: GatewayConfig, routeQueue: InboundRouteQueue): InboundReviewQueue {
+  return new ReviewQueue<WhatsAppRouteContext>({
+    config: config.review,
+    forward: (request, context) => routeQueue.submit(request, context),
+    edit: (request, text, context) => ({
+      ...request,
+      payload: { ...request.payload, message: wrapReviewedWhatsAppMessage(text, context.from) },
+    }),
+    notifyRejected: (entry, reply) => sendNotice(entry.context.chatJid, reply),
+  });
+}
+
+function recordDelivery(entry: QueuedRoute<WhatsAppRouteContext>, result: AMPRouteResponse): void {
+  const { request, context } = entry;
+  console.log(`[INBOUND] Delivered via AMP: ${context.from} -> ${request.to} (${context.matchType})`);
+
+  logEvent('inbound', `WhatsApp message routed: ${context.from} -> ${context.displayName}`, {
+    from: context.from,
+    to: context.displayName,
+    subject: context.preview,
+    ampMessageId: result.id,
+    deliveryStatus: result.status,
+  });
+}
 
 function isAllowed(phone: string, config: GatewayConfig): boolean {
   if (config.whatsapp.dmPolicy === 'open') return true;
@@ -121,30 +205,52 @@ function formatBody(msg: WhatsAppInboundMessage): string {
   return body;
 }
 
+/** Routed (or queued) to Maestro, or stopped by the risk policy */
+type DeliveryOutcome = RouteSubmitResult | { status: 'held' | 'blocked'; risk: RiskAssessment };
+
 /**
- * Deliver an inbound WhatsApp message to an agent via AMP route.
+ * Deliver an inbound WhatsApp message to an agent via AMP route, or queue it
+ * while AI Maestro is unreachable. Messages the risk policy holds go to the
+ * review queue instead; blocked messages are dropped.
  */
 async function deliverViaAMP(
   msg: WhatsAppInboundMessage,
-  config: GatewayConfig
-): Promise<void> {
+  config: GatewayConfig,
+  routeQueue: InboundRouteQueue,
+  reviewQueue: InboundReviewQueue
+): Promise<DeliveryOutcome> {
   const route = resolveRoute(msg.from, config);
-  const securityConfig = createSecurityConfig(config.operatorPhones);
+  const securityConfig = createSecurityConfig(config.operatorPhones, config.teamPhones, config.partnerPhones);
 
   const formattedBody = formatBody(msg);
-  const { sanitized, trust, flags } = sanitizeWhatsAppMessage(
+  const canary = issueCanary({
+    source: 'whatsapp',
+    sender: msg.from,
+    to: route.agentAddress,
+    subject: msg.textBody.substring(0, 80),
+    messageId: msg.messageId,
+  });
+  const { sanitized, trust, flags, risk } = sanitizeWhatsAppMessage(
     formattedBody,
     msg.from,
-    securityConfig
+    securityConfig,
+    config.riskPolicy,
+    { canary, conversation: msg.chatJid, displayName: msg.fromName }
   );
+  if (trust.level === 'operator') rememberOperatorNames(msg.from, [msg.fromName]);
 
   if (flags.length > 0) {
-    console.log(`[SECURITY] ${flags.length} injection pattern(s) flagged from ${msg.from} (trust: ${trust.level})`);
-    logEvent('security', `Injection patterns flagged from ${msg.from}`, {
+    console.log(
+      `[SECURITY] ${flags.length} injection pattern(s) flagged from ${msg.from} (trust: ${trust.level}, score: ${risk.score}, action: ${risk.action})`
+    );
+    logEvent('security', `Injection patterns flagged from ${msg.from} (${risk.action})`, {
       from: msg.from,
       to: route.displayName,
       subject: msg.textBody.substring(0, 80),
       securityFlags: flags.map(f => `${f.category}: ${f.match}`),
+      riskScore: risk.score,
+      policyAction: risk.action,
+      deliveryStatus: risk.action === 'hold' ? 'held' : risk.action === 'block' ? 'blocked' : undefined,
     });
   }
 
@@ -184,37 +290,58 @@ async function deliverViaAMP(
           source: 'whatsapp',
           scanned: true,
           injection_flags: flags.map(f => f.category),
+          risk_score: risk.score,
+          policy_action: risk.action,
+          language: detectLanguage(msg.textBody),
           scanned_at: new Date().toISOString(),
         },
       },
     },
   };
 
-  const response = await fetch(`${config.amp.maestroUrl}/api/v1/route`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.amp.apiKey}`,
-    },
-    body: JSON.stringify(ampRequest),
-    signal: AbortSignal.timeout(10000),
-  });
+  const routeContext: WhatsAppRouteContext = {
+    from: msg.from,
+    displayName: route.displayName,
+    matchType: route.matchType,
+    preview: msg.textBody.substring(0, 80),
+    chatJid: msg.chatJid,
+  };
 
-  if (!response.ok) {
-    throw new Error(`AMP route failed: ${response.status}`);
+  if (risk.action === 'hold') {
+    reviewQueue.hold({
+      sender: msg.from,
+      text: formattedBody,
+      flags: flags.map(f => `${f.category}: ${f.match}`),
+      risk,
+      request: ampRequest,
+      context: routeContext,
+    });
+    return { status: 'held', risk };
+  }
+  if (risk.action === 'block') {
+    return { status: 'blocked', risk };
   }
 
-  const result = await response.json() as AMPRouteResponse;
+  return routeQueue.submit(ampRequest, routeContext);
+}
 
-  console.log(`[INBOUND] Delivered via AMP: ${msg.from} -> ${route.agentAddress} (${route.matchType})`);
+const QUEUED_NOTICE =
+  'AI Maestro is temporarily unreachable. Your message is queued and will be delivered as soon as it is back.';
 
-  logEvent('inbound', `WhatsApp message routed: ${msg.from} -> ${route.displayName}`, {
-    from: msg.from,
-    to: route.displayName,
-    subject: msg.textBody.substring(0, 80),
-    ampMessageId: result.id,
-    deliveryStatus: result.status,
-  });
+/**
+ * Tell the sender what happened to their message (queued, held, blocked,
+ * rejected in review, or rejected by AI Maestro once it was back) rather
+ * than leaving them silently waiting.
+ */
+async function sendNotice(chatJid: string, text: string): Promise<void> {
+  const sock = getSocket();
+  if (!sock) return;
+
+  try {
+    await sock.sendMessage(chatJid, { text });
+  } catch (err) {
+    console.warn(`[INBOUND] Failed to send notice:`, (err as Error).message);
+  }
 }
 
 async function sendReadReceipt(msg: WhatsAppInboundMessage): Promise<void> {
@@ -233,7 +360,9 @@ async function sendReadReceipt(msg: WhatsAppInboundMessage): Promise<void> {
 
 export async function handleInboundMessage(
   rawMsg: proto.IWebMessageInfo,
-  config: GatewayConfig
+  config: GatewayConfig,
+  routeQueue: InboundRouteQueue,
+  reviewQueue: InboundReviewQueue
 ): Promise<void> {
   try {
     const msg = extractMessage(rawMsg, config);
@@ -241,7 +370,14 @@ export async function handleInboundMessage(
 
     console.log(`[INBOUND] ${msg.from} (${msg.fromName}): ${msg.textBody.slice(0, 80)}`);
 
-    await deliverViaAMP(msg, config);
+    const outcome = await deliverViaAMP(msg, config, routeQueue, reviewQueue);
+    if (outcome.status === 'queued') {
+      await sendNotice(msg.chatJid, QUEUED_NOTICE);
+    } else if (outcome.status === 'held') {
+      await sendNotice(msg.chatJid, config.riskPolicy.holdReply);
+    } else if (outcome.status === 'blocked') {
+      await sendNotice(msg.chatJid, config.riskPolicy.blockReply);
+    }
 
     if (config.whatsapp.sendReadReceipts) {
       await sendReadReceipt(msg);
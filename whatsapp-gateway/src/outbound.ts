@@ -1,7 +1,7 @@
 /**
- * Outbound WhatsApp - Baileys Send + AMP Filesystem Inbox Polling
+ * Outbound WhatsApp - Baileys Send + AMP Inbox Watcher
  *
- * Scans the gateway's AMP filesystem inbox for outbound WhatsApp requests,
+ * Watches the gateway's AMP filesystem inbox for outbound WhatsApp requests,
  * then sends them via Baileys. Sends confirmations via AMP route.
  *
  * Message format expected from agents (in AMP envelope payload):
@@ -18,12 +18,26 @@
  * }
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
 import type { GatewayConfig, WhatsAppSendPayload, AMPMessage, AMPRouteRequest } from './types.js';
 import { getSocket, getStatus } from './session.js';
 import { normalizeTarget } from './normalize.js';
-import { logEvent } from './api/activity-log.js';
+import {
+  logEvent,
+  timeAmpRoute,
+  signRouteRequest,
+  startInboxWatcher,
+  createOutboundDelivery,
+  sendParts,
+  screenOutbound,
+  reportWrapperLeaks,
+  chunkMarkdown,
+  SignatureVerifier,
+  type DeadLetter,
+  type DeadLetterStore,
+  type DeliveryAttempt,
+  type DeliveryOutcome,
+} from '@aimaestro/gateway-core';
 
 /**
  * Send a confirmation message back to the requesting agent via AMP route.
@@ -45,15 +59,17 @@ async function sendConfirmation(
   };
 
   try {
-    await fetch(`${config.amp.maestroUrl}/api/v1/route`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.amp.apiKey}`,
-      },
-      body: JSON.stringify(ampRequest),
-      signal: AbortSignal.timeout(10000),
-    });
+    await timeAmpRoute(() =>
+      fetch(`${config.amp.maestroUrl}/api/v1/route`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.amp.apiKey}`,
+        },
+        body: JSON.stringify(signRouteRequest(ampRequest, config.amp.agentAddress, config.signing)),
+        signal: AbortSignal.timeout(10000),
+      })
+    );
   } catch (err) {
     console.error('[OUTBOUND] Failed to send confirmation:', (err as Error).message);
   }
@@ -92,12 +108,14 @@ function extractSendPayload(msg: AMPMessage): WhatsAppSendPayload | null {
 }
 
 /**
- * Send a text message via Baileys.
+ * Send a text message via Baileys. Chunks an earlier attempt already sent
+ * are skipped.
  */
 async function sendViaWhatsApp(
   payload: WhatsAppSendPayload,
-  config: GatewayConfig
-): Promise<{ success: boolean; error?: string }> {
+  config: GatewayConfig,
+  attempt: DeliveryAttempt
+): Promise<{ success: boolean; error?: string; permanent?: boolean }> {
   const sock = getSocket();
   if (!sock) {
     return { success: false, error: 'WhatsApp not connected' };
@@ -109,14 +127,17 @@ async function sendViaWhatsApp(
 
   const jid = normalizeTarget(payload.to);
   if (!jid) {
-    return { success: false, error: `Invalid target: ${payload.to}` };
+    return { success: false, error: `Invalid target: ${payload.to}`, permanent: true };
   }
 
-  const chunks = chunkText(payload.message, config.whatsapp.textChunkLimit);
+  const chunks = chunkMarkdown(payload.message, {
+    limit: config.whatsapp.textChunkLimit,
+    markers: config.whatsapp.chunkMarkers,
+  });
 
   try {
-    for (let i = 0; i < chunks.length; i++) {
-      const msgContent: any = { text: chunks[i] };
+    await sendParts(chunks, attempt, async (chunk, i) => {
+      const msgContent: any = { text: chunk };
 
       if (i === 0 && payload.quotedMessageId) {
         msgContent.quoted = {
@@ -128,7 +149,7 @@ async function sendViaWhatsApp(
       }
 
       await sock.sendMessage(jid, msgContent);
-    }
+    });
 
     return { success: true };
   } catch (err) {
@@ -136,159 +157,125 @@ async function sendViaWhatsApp(
   }
 }
 
-function chunkText(text: string, limit: number): string[] {
-  if (text.length <= limit) return [text];
-
-  const chunks: string[] = [];
-  let remaining = text;
-
-  while (remaining.length > 0) {
-    if (remaining.length <= limit) {
-      chunks.push(remaining);
-      break;
-    }
+/**
+ * Deliver one outbound WhatsApp request from the AMP inbox.
+ * Messages that are not WhatsApp requests are skipped.
+ */
+async function deliverMessage(
+  config: GatewayConfig,
+  msg: AMPMessage,
+  filePath: string,
+  attempt: DeliveryAttempt
+): Promise<DeliveryOutcome> {
+  if (!isWhatsAppSendMessage(msg)) return { status: 'skipped' };
+
+  const fromAddress = msg.envelope?.from || path.basename(path.dirname(filePath));
+
+  let payload = extractSendPayload(msg);
+  if (!payload) {
+    console.error(`[OUTBOUND] Could not extract send payload from ${filePath}`);
+    return { status: 'failed', error: 'Could not extract whatsappSend payload', permanent: true };
+  }
 
-    let breakPoint = remaining.lastIndexOf('\n', limit);
-    if (breakPoint < limit * 0.5) {
-      breakPoint = remaining.lastIndexOf(' ', limit);
+  if (!attempt.released) {
+    // Checked once per response, like the DLP screen: not again on a retry
+    if (!attempt.screened) {
+      reportWrapperLeaks(payload.message, { from: fromAddress, to: payload.to, ampMessageId: msg.envelope?.id });
     }
-    if (breakPoint < limit * 0.3) {
-      breakPoint = limit;
-    }
-
-    chunks.push(remaining.slice(0, breakPoint));
-    remaining = remaining.slice(breakPoint).trimStart();
+    const screened = await screenOutbound({
+      config: config.dlp,
+      fields: { message: payload.message },
+      details: { from: fromAddress, to: payload.to, ampMessageId: msg.envelope?.id },
+      notify: (subject, text) => sendConfirmation(config, fromAddress, subject, text),
+      attempt,
+    });
+    if (screened.status !== 'send') return screened;
+    payload = { ...payload, ...screened.fields };
   }
 
-  return chunks;
-}
+  console.log(`[OUTBOUND] Sending to ${payload.to}: ${payload.message.slice(0, 80)}`);
 
-/**
- * Scan the AMP filesystem inbox for outbound WhatsApp requests.
- */
-async function scanInbox(config: GatewayConfig): Promise<void> {
-  const inboxDir = config.amp.inboxDir;
-  if (!inboxDir || !fs.existsSync(inboxDir)) return;
+  const result = await sendViaWhatsApp(payload, config, attempt);
 
-  let senderDirs: string[];
-  try {
-    senderDirs = fs.readdirSync(inboxDir).filter(d => {
-      const full = path.join(inboxDir, d);
-      return fs.statSync(full).isDirectory();
+  if (!result.success) {
+    console.error(`[OUTBOUND] Send failed: ${result.error}`);
+
+    logEvent('error', `WhatsApp send failed to ${payload.to}: ${result.error}`, {
+      from: fromAddress,
+      to: payload.to,
+      error: result.error,
     });
-  } catch {
-    return;
-  }
 
-  for (const senderDir of senderDirs) {
-    const senderPath = path.join(inboxDir, senderDir);
-    let files: string[];
-    try {
-      files = fs.readdirSync(senderPath).filter(f => f.endsWith('.json'));
-    } catch {
-      continue;
-    }
+    return { status: 'failed', error: result.error || 'unknown', permanent: result.permanent };
+  }
 
-    for (const file of files) {
-      const filePath = path.join(senderPath, file);
-      let msg: AMPMessage;
-      try {
-        msg = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-      } catch {
-        console.error(`[OUTBOUND] Failed to parse ${filePath}`);
-        continue;
-      }
+  console.log(`[OUTBOUND] Sent successfully to ${payload.to}`);
 
-      const fromAddress = msg.envelope?.from || senderDir;
-
-      if (isWhatsAppSendMessage(msg)) {
-        const payload = extractSendPayload(msg);
-        if (!payload) {
-          console.error(`[OUTBOUND] Could not extract send payload from ${filePath}`);
-          try { fs.unlinkSync(filePath); } catch {}
-          continue;
-        }
-
-        console.log(`[OUTBOUND] Sending to ${payload.to}: ${payload.message.slice(0, 80)}`);
-
-        const result = await sendViaWhatsApp(payload, config);
-
-        if (result.success) {
-          console.log(`[OUTBOUND] Sent successfully to ${payload.to}`);
-
-          logEvent('outbound', `WhatsApp sent to ${payload.to}`, {
-            from: fromAddress,
-            to: payload.to,
-            subject: payload.message.slice(0, 80),
-            ampMessageId: msg.envelope?.id,
-            deliveryStatus: 'sent',
-          });
-
-          await sendConfirmation(
-            config,
-            fromAddress,
-            `[WHATSAPP-SENT] To: ${payload.to}`,
-            `WhatsApp message sent to ${payload.to}\nPreview: ${payload.message.slice(0, 100)}`
-          );
-        } else {
-          console.error(`[OUTBOUND] Send failed: ${result.error}`);
-
-          logEvent('error', `WhatsApp send failed to ${payload.to}: ${result.error}`, {
-            from: fromAddress,
-            to: payload.to,
-            error: result.error,
-          });
-
-          await sendConfirmation(
-            config,
-            fromAddress,
-            `[WHATSAPP-FAILED] To: ${payload.to}`,
-            `Failed to send WhatsApp to ${payload.to}\nError: ${result.error}`
-          );
-        }
-      }
+  logEvent('outbound', `WhatsApp sent to ${payload.to}`, {
+    from: fromAddress,
+    to: payload.to,
+    subject: payload.message.slice(0, 80),
+    ampMessageId: msg.envelope?.id,
+    deliveryStatus: 'sent',
+  });
 
-      // Delete processed message file
-      try {
-        fs.unlinkSync(filePath);
-      } catch {}
-    }
+  await sendConfirmation(
+    config,
+    fromAddress,
+    `[WHATSAPP-SENT] To: ${payload.to}`,
+    `WhatsApp message sent to ${payload.to}\nPreview: ${payload.message.slice(0, 100)}`
+  );
 
-    // Clean up empty sender directories
-    try {
-      const remaining = fs.readdirSync(senderPath);
-      if (remaining.length === 0) {
-        fs.rmdirSync(senderPath);
-      }
-    } catch {}
-  }
+  return { status: 'delivered' };
 }
 
 /**
- * Start the outbound polling loop.
- * Scans the AMP filesystem inbox for WhatsApp requests.
+ * Tell the requesting agent that its WhatsApp message was given up on.
  */
-export function startOutboundPoller(config: GatewayConfig): () => void {
-  let pollTimeoutId: NodeJS.Timeout | null = null;
-
-  const poll = async () => {
-    try {
-      await scanInbox(config);
-    } catch (err) {
-      console.error('[OUTBOUND] Poll error:', (err as Error).message);
-    }
-    pollTimeoutId = setTimeout(poll, config.outbound.pollIntervalMs);
-  };
+async function notifyDeadLetter(config: GatewayConfig, record: DeadLetter): Promise<void> {
+  const msg = record.message;
+  if (!msg || !isWhatsAppSendMessage(msg)) return;
+
+  const fromAddress = msg.envelope?.from || record.originalPath.split(path.sep)[0];
+  const to = msg.payload?.context?.whatsappSend?.to || 'unknown';
+
+  await sendConfirmation(
+    config,
+    fromAddress,
+    `[WHATSAPP-FAILED] To: ${to}`,
+    `Failed to send WhatsApp to ${to}\nError: ${record.reason}\nAttempts: ${record.attempts}\nDead letter: ${record.id}`
+  );
+}
 
-  // Initial poll after short delay
-  pollTimeoutId = setTimeout(poll, 3000);
-  console.log(`[OUTBOUND] Starting filesystem poller (interval: ${config.outbound.pollIntervalMs}ms)`);
+/**
+ * Start the outbound inbox watcher.
+ * Dispatches AMP inbox files for WhatsApp requests as they arrive. Failed
+ * sends are retried with backoff, then moved to the dead-letter store.
+ */
+export function startOutboundPoller(config: GatewayConfig, deadLetters: DeadLetterStore): () => void {
+  const delivery = createOutboundDelivery({
+    config: config.delivery,
+    deadLetters,
+    verifier: new SignatureVerifier({
+      maestroUrl: config.amp.maestroUrl,
+      apiKey: config.amp.apiKey,
+      config: config.verification,
+    }),
+    deliver: (msg, filePath, attempt) => deliverMessage(config, msg, filePath, attempt),
+    onDeadLetter: (record) => notifyDeadLetter(config, record),
+  });
+
+  const stopWatcher = startInboxWatcher({
+    inboxDir: config.amp.inboxDir,
+    rescanIntervalMs: config.outbound.pollIntervalMs,
+    initialDelayMs: 3000,
+    onMessage: delivery.handleFile,
+  });
+  console.log(`[OUTBOUND] Watching inbox (rescan every ${config.outbound.pollIntervalMs}ms)`);
 
   return () => {
-    if (pollTimeoutId) {
-      clearTimeout(pollTimeoutId);
-      pollTimeoutId = null;
-    }
-    console.log('[OUTBOUND] Poller stopped');
+    stopWatcher();
+    delivery.stop();
+    console.log('[OUTBOUND] Inbox watcher stopped');
   };
 }
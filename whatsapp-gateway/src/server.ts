@@ -7,11 +7,31 @@
 
 import { timingSafeEqual } from 'crypto';
 import express, { Request, Response, NextFunction } from 'express';
+import {
+  DeadLetterStore,
+  configureActivityLog,
+  configureMetrics,
+  configureScanner,
+  configureCanaries,
+  configureConversationWindow,
+  configureTrustTiers,
+  rememberOperatorNames,
+  checkSigningKey,
+  registerGauge,
+  renderMetrics,
+  countInboxFiles,
+  getInjectionRules,
+  watchInjectionRules,
+  METRICS_CONTENT_TYPE,
+} from '@aimaestro/gateway-core';
 import { loadConfig } from './config.js';
 import { createSession, getStatus, getSelfJid, closeSession } from './session.js';
-import { handleInboundMessage } from './inbound.js';
+import { handleInboundMessage, createInboundRouteQueue, createInboundReviewQueue } from './inbound.js';
 import { startOutboundPoller } from './outbound.js';
 import { createActivityRouter } from './api/activity-api.js';
+import { createDeadLetterRouter } from './api/dead-letter-api.js';
+import { createSecurityRulesRouter } from './api/security-rules-api.js';
+import { createReviewRouter } from './api/review-api.js';
 import type { GatewayConfig } from './types.js';
 
 function authMiddleware(adminToken: string) {
@@ -39,6 +59,26 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Persist activity events (JSONL by default) before anything else logs
+  configureActivityLog(config.activity);
+  configureMetrics({ gateway: 'whatsapp-gateway' });
+  configureScanner(config.scanner);
+  configureCanaries(config.canary);
+  configureConversationWindow(config.conversation);
+  configureTrustTiers(config.trustTiers);
+  // Operator push names are learned from their messages; a push name spelling an operator's number is flagged too
+  for (const phone of config.operatorPhones) rememberOperatorNames(phone, [phone]);
+
+  // Injection rules: the rules file if present (reloaded on change), else built-in
+  let stopRulesWatcher: () => void;
+  try {
+    stopRulesWatcher = watchInjectionRules(config.injectionRules);
+  } catch (err) {
+    console.error('[FATAL] Failed to load injection rules:', (err as Error).message);
+    process.exit(1);
+  }
+  const ruleSet = getInjectionRules();
+
   console.log('========================================');
   console.log('AI Maestro - WhatsApp Gateway (AMP)');
   console.log('========================================');
@@ -50,9 +90,21 @@ async function main(): Promise<void> {
   console.log(`Maestro: ${config.amp.maestroUrl}`);
   console.log(`Inbox: ${config.amp.inboxDir}`);
   console.log(`State dir: ${config.whatsapp.stateDir}`);
+  console.log(`Route queue: ${config.routeQueue.dir}`);
+  console.log(`Review queue: ${config.review.dir}`);
+  console.log(`Signing: ${checkSigningKey(config.signing) ? config.signing.privateKeyPath : config.signing.enabled ? 'key unavailable, unsigned' : 'off'}`);
+  console.log(`Injection rules: ${ruleSet.rules.length} (${ruleSet.source === 'file' ? ruleSet.file : 'built-in'})`);
+  console.log(`Language packs: ${ruleSet.languages.length > 0 ? ruleSet.languages.join(', ') : 'none'}`);
   console.log(`DM policy: ${config.whatsapp.dmPolicy}`);
   console.log(`Allow from: ${config.whatsapp.allowFrom.length > 0 ? config.whatsapp.allowFrom.join(', ') : '(all)'}`);
   console.log(`Debug: ${config.debug}`);
+  console.log(`Activity log: ${config.activity.store === 'jsonl' ? config.activity.dir : 'memory'}`);
+
+  // Queue inbound messages locally while AI Maestro is unreachable
+  const routeQueue = createInboundRouteQueue(config);
+
+  // Hold messages the risk policy flags for operator review
+  const reviewQueue = createInboundReviewQueue(config, routeQueue);
 
   // Express server for health checks and management
   const app = express();
@@ -78,6 +130,8 @@ async function main(): Promise<void> {
         agent: config.amp.agentAddress,
         maestro: config.amp.maestroUrl,
         tenant: config.amp.tenant,
+        circuit: routeQueue.circuitState(),
+        queued: routeQueue.size(),
       },
     });
   });
@@ -90,8 +144,31 @@ async function main(): Promise<void> {
     });
   });
 
+  // Prometheus scrape endpoint (unauthenticated like /health; the server binds to localhost)
+  registerGauge('gateway_inbox_backlog', 'Outbound message files waiting in the AMP inbox', () =>
+    countInboxFiles(config.amp.inboxDir)
+  );
+  registerGauge('gateway_route_queue_size', 'Inbound messages queued while AI Maestro is unreachable', () =>
+    routeQueue.size()
+  );
+  registerGauge('gateway_review_queue_size', 'Inbound messages held for operator review', () => reviewQueue.size());
+  registerGauge('gateway_maestro_circuit_open', 'Whether routing to AI Maestro is paused (1) or not (0)', () =>
+    routeQueue.circuitState() === 'open' ? 1 : 0
+  );
+  registerGauge('gateway_platform_connected', 'Whether the WhatsApp session is connected (1) or not (0)', () =>
+    getStatus() === 'connected' ? 1 : 0
+  );
+  app.get('/metrics', (_req, res) => {
+    res.set('Content-Type', METRICS_CONTENT_TYPE).send(renderMetrics());
+  });
+
   app.use('/api', authMiddleware(config.adminToken));
+  const deadLetters = new DeadLetterStore(config.delivery.deadLetterDir, config.amp.inboxDir);
+
   app.use('/api/activity', createActivityRouter());
+  app.use('/api/dead-letters', createDeadLetterRouter(deadLetters, config.adminToken));
+  app.use('/api/security', createSecurityRulesRouter(config.injectionRules, config.adminToken));
+  app.use('/api/review', createReviewRouter(reviewQueue, config.adminToken));
 
   const server = app.listen(config.port, '127.0.0.1', () => {
     console.log(`[HTTP] Management API on http://127.0.0.1:${config.port}`);
@@ -101,7 +178,11 @@ async function main(): Promise<void> {
   console.log('Endpoints:');
   console.log('  GET  /health        - Health check');
   console.log('  GET  /status        - Connection status');
+  console.log('  GET  /metrics       - Prometheus metrics');
   console.log('  GET  /api/activity  - Activity log');
+  console.log('  GET  /api/dead-letters - Undelivered outbound messages');
+  console.log('  GET  /api/security/rules - Injection rules (PUT to replace)');
+  console.log('  GET  /api/review    - Messages held for review');
   console.log('========================================');
   console.log('');
   console.log('Gateway ready! (AMP Protocol)');
@@ -112,16 +193,18 @@ async function main(): Promise<void> {
 
     await createSession(config, {
       printQr: true,
-      onMessage: (msg) => handleInboundMessage(msg, config),
+      onMessage: (msg) => handleInboundMessage(msg, config, routeQueue, reviewQueue),
     });
 
     // Start the outbound poller
-    const stopPoller = startOutboundPoller(config);
+    const stopPoller = startOutboundPoller(config, deadLetters);
 
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       console.log(`\n[SHUTDOWN] Received ${signal}, shutting down...`);
       stopPoller();
+      stopRulesWatcher();
+      routeQueue.stop();
       await closeSession();
       server.close(() => {
         console.log('[SHUTDOWN] HTTP server closed');
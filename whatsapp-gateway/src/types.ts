@@ -2,56 +2,34 @@
  * WhatsApp Gateway - Type Definitions (AMP Protocol)
  */
 
+import type {
+  DeliveryConfig,
+  ActivityLogConfig,
+  RouteQueueConfig,
+  SigningConfig,
+  VerificationConfig,
+  InjectionRulesConfig,
+  ScannerConfig,
+  CanaryConfig,
+  ConversationWindowConfig,
+  RiskPolicyConfig,
+  TrustTierConfig,
+  ReviewQueueConfig,
+  DlpConfig,
+} from '@aimaestro/gateway-core';
+
 // ---------------------------------------------------------------------------
 // AMP Protocol Types
 // ---------------------------------------------------------------------------
 
-export interface AMPEnvelope {
-  version: string;
-  id: string;
-  from: string;
-  to: string;
-  subject: string;
-  priority: 'critical' | 'high' | 'normal' | 'low';
-  timestamp: string;
-  signature?: string;
-  in_reply_to?: string;
-  thread_id?: string;
-}
-
-export interface AMPPayload {
-  type: string;
-  message: string;
-  context?: Record<string, any>;
-  attachments?: any[];
-}
-
-export interface AMPMessage {
-  envelope: AMPEnvelope;
-  payload: AMPPayload;
-}
-
-export interface AMPRouteRequest {
-  to: string;
-  subject: string;
-  priority?: string;
-  in_reply_to?: string;
-  payload: {
-    type: string;
-    message: string;
-    context?: Record<string, any>;
-    attachments?: any[];
-  };
-  signature?: string;
-}
-
-export interface AMPRouteResponse {
-  id: string;
-  status: string;
-  method?: string;
-  delivered_at?: string;
-  error?: string;
-}
+export type {
+  AMPPriority,
+  AMPEnvelope,
+  AMPPayload,
+  AMPMessage,
+  AMPRouteRequest,
+  AMPRouteResponse,
+} from '@aimaestro/gateway-core';
 
 // ---------------------------------------------------------------------------
 // Gateway Config
@@ -78,6 +56,8 @@ export interface GatewayConfig {
     dmPolicy: 'allowlist' | 'open' | 'disabled';
     sendReadReceipts: boolean;
     textChunkLimit: number;
+    /** End each part of a split message with a "(1/3)" marker */
+    chunkMarkers: boolean;
   };
   routing: {
     phones: Record<string, RouteTarget>;
@@ -86,7 +66,23 @@ export interface GatewayConfig {
   outbound: {
     pollIntervalMs: number;
   };
+  delivery: DeliveryConfig;
+  routeQueue: RouteQueueConfig;
+  signing: SigningConfig;
+  verification: VerificationConfig;
+  injectionRules: InjectionRulesConfig;
+  scanner: ScannerConfig;
+  canary: CanaryConfig;
+  conversation: ConversationWindowConfig;
+  riskPolicy: RiskPolicyConfig;
+  trustTiers: TrustTierConfig;
+  review: ReviewQueueConfig;
+  dlp: DlpConfig;
+  activity: ActivityLogConfig;
   operatorPhones: string[];
+  /** Contact lists for the team and partner trust tiers */
+  teamPhones: string[];
+  partnerPhones: string[];
   adminToken: string;
 }
 